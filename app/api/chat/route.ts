@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { retrieveRelevantChunks, formatContextForLLM, extractSources } from '@/lib/retrieval';
+import {
+  retrieveRelevantChunks,
+  fitChunksToTokenBudget,
+  formatContextForLLM,
+  extractSources,
+} from '@/lib/retrieval';
+import { getReranker, rerankChunks } from '@/lib/reranking';
+import { selectDiverseChunks } from '@/lib/diversity';
 import { generateAnswer } from '@/lib/answer-generation';
+import { RAG_CONFIG } from '@/lib/constants';
 
 /**
  * Request body interface
@@ -8,6 +16,9 @@ import { generateAnswer } from '@/lib/answer-generation';
 interface ChatRequestBody {
   message: string;
   county?: string;
+  asOf?: string; // ISO date: answer from the document versions current on that date
+  maxPerDocument?: number; // Most context chunks from one document
+  maxPerCounty?: number; // Most context chunks from one county, so comparisons cover several
   conversationHistory?: Message[];
 }
 
@@ -24,7 +35,7 @@ interface Message {
  *
  * Handles chat queries with RAG pipeline:
  * 1. Validates request
- * 2. Retrieves relevant chunks using semantic search
+ * 2. Retrieves candidate chunks using hybrid search and reranks them
  * 3. Formats context for LLM
  * 4. Generates streaming response
  * 5. Returns sources with final message
@@ -44,16 +55,50 @@ export async function POST(request: NextRequest) {
 
     const { message: query, county } = body;
 
+    // Validate optional as-of date
+    const asOf = body.asOf ? new Date(body.asOf) : undefined;
+    if (asOf && isNaN(asOf.getTime())) {
+      return NextResponse.json(
+        { error: 'asOf must be a valid ISO date' },
+        { status: 400 }
+      );
+    }
+
+    // Validate optional diversity caps
+    const { maxPerDocument, maxPerCounty } = body;
+    for (const [name, cap] of Object.entries({ maxPerDocument, maxPerCounty })) {
+      if (cap !== undefined && (!Number.isInteger(cap) || cap < 1)) {
+        return NextResponse.json(
+          { error: `${name} must be a positive integer` },
+          { status: 400 }
+        );
+      }
+    }
+
     console.log('=== Chat API Request ===');
     console.log(`Query: "${query}"`);
     console.log(`County filter: ${county || 'none'}`);
+    console.log(`As of: ${asOf ? asOf.toISOString() : 'current versions'}`);
 
-    // Step 1: Retrieve relevant chunks
+    // Step 1: Retrieve candidates (more when a reranker picks from them), rerank
+    // them, then pick a diverse top K so one section can't fill the context
     let chunks;
+    let reranker;
     try {
-      chunks = await retrieveRelevantChunks(query, {
+      reranker = getReranker();
+      const candidates = await retrieveRelevantChunks(query, {
         county,
-        topK: 5,
+        topK: reranker ? RAG_CONFIG.RERANK_CANDIDATES : RAG_CONFIG.DEFAULT_TOP_K,
+        asOf,
+      });
+      const reranked = await rerankChunks(query, candidates, {
+        reranker,
+        topK: candidates.length,
+      });
+      chunks = selectDiverseChunks(reranked, {
+        topK: RAG_CONFIG.DEFAULT_TOP_K,
+        maxPerDocument,
+        maxPerCounty,
       });
     } catch (error) {
       console.error('Retrieval error:', error);
@@ -113,8 +158,9 @@ export async function POST(request: NextRequest) {
 
     console.log(`Found ${chunks.length} relevant chunks`);
 
-    // Step 3: Format context for LLM
-    const context = formatContextForLLM(chunks);
+    // Step 3: Format context for LLM, keeping only the chunks that fit the token budget
+    const contextChunks = fitChunksToTokenBudget(chunks);
+    const context = formatContextForLLM(contextChunks);
 
     // Step 4: Generate streaming response
     let stream;
@@ -136,7 +182,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Step 5: Extract sources
-    const sources = extractSources(chunks);
+    const sources = extractSources(contextChunks);
 
     // Create a new stream that includes metadata at the end
     const encoder = new TextEncoder();
@@ -157,8 +203,18 @@ export async function POST(request: NextRequest) {
                   county: s.county,
                   documentTitle: s.documentTitle,
                   section: s.section || undefined,
+                  pages: s.pages || undefined,
+                })),
+                chunksUsed: contextChunks.length,
+                reranker: reranker?.name ?? null,
+                chunks: contextChunks.map((chunk) => ({
+                  id: chunk.id,
+                  county: chunk.county,
+                  documentTitle: chunk.documentTitle,
+                  distance: chunk.distance,
+                  score: chunk.score,
+                  rerankScore: chunk.rerankScore,
                 })),
-                chunksUsed: chunks.length,
               };
 
               controller.enqueue(encoder.encode(`data: ${JSON.stringify(metadata)}\n\n`));
@@ -220,6 +276,9 @@ export async function GET() {
     requestBody: {
       message: 'string (required) - User query',
       county: 'string (optional) - Filter by specific Colorado county',
+      asOf: 'string (optional) - ISO date; answer from the document versions in effect then (default: now)',
+      maxPerDocument: 'number (optional) - Most context chunks from one document',
+      maxPerCounty: 'number (optional) - Most context chunks from one county',
       conversationHistory: 'Message[] (optional) - Previous conversation for context',
     },
     responseFormat: 'Server-Sent Events (SSE) stream with JSON data',
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocument, getDocumentFile } from '@/lib/db/document-store';
+import { DOCUMENT_CONTENT_TYPES, DocumentFormat } from '@/lib/document-converter';
+
+/**
+ * GET /api/documents/[id]/raw
+ *
+ * Serves the original uploaded file, byte for byte
+ * Displayed inline by default; pass ?download=1 to download instead
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await context.params;
+
+    const document = await getDocument(documentId);
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    const data = await getDocumentFile(documentId);
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Original file is not stored for this document' },
+        { status: 404 }
+      );
+    }
+
+    const contentType =
+      DOCUMENT_CONTENT_TYPES[document.format as DocumentFormat] || 'application/octet-stream';
+    const disposition = request.nextUrl.searchParams.has('download') ? 'attachment' : 'inline';
+    const fileName = document.fileName.split('/').pop() || document.fileName;
+
+    const headers: Record<string, string> = {
+      'Content-Type': contentType,
+      'Content-Length': String(data.length),
+      'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      'X-Content-Type-Options': 'nosniff',
+    };
+    // Uploaded HTML must not run scripts on our origin; other formats are
+    // left unsandboxed, since a sandbox also stops Chrome's PDF viewer
+    if (document.format === 'html') {
+      headers['Content-Security-Policy'] = 'sandbox';
+    }
+
+    return new NextResponse(new Uint8Array(data), { status: 200, headers });
+  } catch (error) {
+    console.error('[api/documents/raw] Error fetching original file:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch original file',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
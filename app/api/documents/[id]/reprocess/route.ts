@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { IngestionError } from '@/lib/ingestion';
+import { reprocessDocument } from '@/lib/reprocessing';
+
+/**
+ * POST /api/documents/[id]/reprocess
+ *
+ * Re-chunks and re-embeds a document from its stored original file; the new
+ * chunks replace the old ones atomically
+ *
+ * Optional JSON body: { chunkingStrategy, chunkingOptions } to switch the
+ * document to another chunking strategy (defaults to the one it was stored with)
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { success: false, error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const result = await reprocessDocument(
+      documentId,
+      body.chunkingStrategy !== undefined || body.chunkingOptions !== undefined
+        ? {
+            strategy:
+              body.chunkingStrategy !== undefined ? String(body.chunkingStrategy) : undefined,
+            options: body.chunkingOptions,
+          }
+        : undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: `Reprocessed document with the ${result.chunkingStrategy} strategy: ${result.previousChunkCount} chunks replaced by ${result.chunkCount}`,
+    });
+  } catch (error) {
+    if (error instanceof IngestionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[api/documents/reprocess] Error reprocessing document:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to reprocess document',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
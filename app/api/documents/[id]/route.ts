@@ -1,53 +1,188 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getPostgresClient } from '@/lib/db/postgres-client';
+import {
+  deleteDocument,
+  DocumentMetadataUpdate,
+  getDocument,
+  getDocumentChunks,
+  updateDocumentMetadata,
+} from '@/lib/db/document-store';
+import { buildDocumentDetail } from '@/lib/chunk-inspection';
+import { COLORADO_COUNTIES, ColoradoCounty } from '@/lib/types';
 
 /**
- * DELETE /api/documents/[id]
+ * GET /api/documents/[id]
  *
- * Deletes a document and all its associated chunks from the database
+ * Returns the document with its ordered chunks (headers, character counts,
+ * overlap, embedding status), the section tree and chunk size statistics
  */
-export async function DELETE(
+export async function GET(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  let client;
+  try {
+    const { id: documentId } = await context.params;
+
+    const document = await getDocument(documentId);
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    const chunks = await getDocumentChunks(documentId);
+
+    return NextResponse.json(buildDocumentDetail(document, chunks));
+  } catch (error) {
+    console.error('[api/documents/detail] Error fetching document:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch document',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
 
+/**
+ * PATCH /api/documents/[id]
+ *
+ * Updates a document's county, title and/or year without re-uploading
+ *
+ * Expected JSON body (all fields optional, at least one required):
+ * - county: Colorado county name
+ * - title: Document title
+ * - year: Year of the document
+ *
+ * Chunks are updated in the same transaction; nothing is re-embedded
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
   try {
     const { id: documentId } = await context.params;
+    const body = await request.json();
 
-    if (!documentId) {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
       return NextResponse.json(
-        { error: 'Document ID is required' },
+        { error: 'Request body must be a JSON object' },
         { status: 400 }
       );
     }
 
-    client = await getPostgresClient();
+    const update: DocumentMetadataUpdate = {};
 
-    // First, check if document exists
-    const checkQuery = `
-      SELECT COUNT(*) as count
-      FROM document_chunks
-      WHERE document_id = $1
-    `;
+    // Validate county is a valid Colorado county
+    if (body.county !== undefined) {
+      if (!COLORADO_COUNTIES.includes(body.county as ColoradoCounty)) {
+        return NextResponse.json(
+          { error: `Invalid county. Must be one of: ${COLORADO_COUNTIES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      update.county = body.county;
+    }
+
+    // Validate title is not empty
+    if (body.title !== undefined) {
+      const title = typeof body.title === 'string' ? body.title.trim() : '';
+      if (!title) {
+        return NextResponse.json(
+          { error: 'Title must be a non-empty string' },
+          { status: 400 }
+        );
+      }
+      update.title = title;
+    }
 
-    const checkResult = await client.query(checkQuery, [documentId]);
-    const chunkCount = parseInt(checkResult.rows[0].count, 10);
+    // Validate year is a whole number (so "2020abc" and 2020.7 are rejected)
+    if (body.year !== undefined) {
+      const year =
+        typeof body.year === 'number' || typeof body.year === 'string' ? Number(body.year) : NaN;
+      if (!Number.isInteger(year) || year < 1900 || year > 2100) {
+        return NextResponse.json(
+          { error: 'Invalid year. Must be a whole number between 1900 and 2100' },
+          { status: 400 }
+        );
+      }
+      update.year = year;
+    }
 
-    if (chunkCount === 0) {
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json(
+        { error: 'Provide at least one of: county, title, year' },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateDocumentMetadata(documentId, update);
+
+    if (!result) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
       );
     }
 
-    // Delete all chunks for this document
-    const deleteQuery = `
-      DELETE FROM document_chunks
-      WHERE document_id = $1
-    `;
+    return NextResponse.json({
+      success: true,
+      document: result.document,
+      chunksUpdated: result.chunksUpdated,
+      message: `Updated document and ${result.chunksUpdated} associated chunks`,
+    });
+  } catch (error) {
+    // Handle JSON parsing errors
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    console.error('[api/documents/update] Error updating document:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update document',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]
+ *
+ * Deletes a document and all its associated chunks from the database
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await context.params;
+
+    if (!documentId) {
+      return NextResponse.json(
+        { error: 'Document ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Chunks are removed by ON DELETE CASCADE
+    const chunkCount = await deleteDocument(documentId);
 
-    await client.query(deleteQuery, [documentId]);
+    if (chunkCount === null) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
 
     console.log(`[api/documents/delete] Deleted ${chunkCount} chunks for document ${documentId}`);
 
@@ -67,9 +202,5 @@ export async function DELETE(
       },
       { status: 500 }
     );
-  } finally {
-    if (client) {
-      client.release();
-    }
   }
 }
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reprocessAllDocuments } from '@/lib/reprocessing';
+
+/**
+ * POST /api/documents/reprocess
+ *
+ * Reprocesses every ready document with a stored original file, streaming progress
+ * as server-sent events:
+ * - { type: 'progress', index, total, documentId, title, success, ... } per document
+ * - { type: 'complete', total, succeeded, failed, skipped } at the end
+ * - { type: 'error', error } if the batch could not run
+ *
+ * Optional JSON body: { county } to limit the batch to one county
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return NextResponse.json(
+      { success: false, error: 'Request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  const county = typeof body.county === 'string' ? body.county : undefined;
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (data: object) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+
+      try {
+        const summary = await reprocessAllDocuments(
+          (progress) => send({ type: 'progress', ...progress }),
+          { county }
+        );
+        send({ type: 'complete', ...summary });
+      } catch (error) {
+        console.error('[api/documents/reprocess] Error reprocessing documents:', error);
+        send({
+          type: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -1,53 +1,15 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getPostgresClient } from '@/lib/db/postgres-client';
-import { UploadedDocument, ColoradoCounty } from '@/lib/types';
+import { NextResponse } from 'next/server';
+import { listDocuments } from '@/lib/db/document-store';
 
 /**
  * GET /api/documents
  *
- * Fetches all uploaded documents with metadata
- * Groups chunks by document_id and returns unique documents with chunk counts
+ * Fetches all uploaded documents with metadata from the documents table
+ * (original file name and size, content hash, uploader, status, chunk count)
  */
 export async function GET() {
-  let client;
-
   try {
-    client = await getPostgresClient();
-
-    // Query to get unique documents with metadata and chunk counts
-    const query = `
-      SELECT
-        document_id,
-        county,
-        document_title,
-        year,
-        COUNT(*) as chunk_count,
-        MIN(created_at) as uploaded_at
-      FROM document_chunks
-      GROUP BY document_id, county, document_title, year
-      ORDER BY MIN(created_at) DESC
-    `;
-
-    const result = await client.query(query);
-
-    // Transform database rows into UploadedDocument format
-    const documents: UploadedDocument[] = result.rows.map((row: {
-      document_id: string;
-      county: string;
-      document_title: string;
-      year: number;
-      chunk_count: string;
-      uploaded_at: Date;
-    }) => ({
-      id: row.document_id,
-      fileName: `${row.document_title.toLowerCase().replace(/\s+/g, '-')}.md`,
-      county: row.county as ColoradoCounty,
-      title: row.document_title,
-      year: row.year,
-      fileSize: 0, // We don't store original file size, so set to 0
-      uploadedAt: new Date(row.uploaded_at),
-      chunksProcessed: parseInt(row.chunk_count, 10),
-    }));
+    const documents = await listDocuments();
 
     return NextResponse.json({
       documents,
@@ -62,9 +24,5 @@ export async function GET() {
       },
       { status: 500 }
     );
-  } finally {
-    if (client) {
-      client.release();
-    }
   }
 }
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cutOverEmbeddingMigration, EmbeddingMigrationError } from '@/lib/embedding-migration';
+
+/**
+ * POST /api/embeddings/migrations/[id]/cutover
+ *
+ * Switches search and new uploads to a ready migration's model; the chunks'
+ * vectors and the vector index are swapped in one transaction
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+
+    const migration = await cutOverEmbeddingMigration(Number(id));
+
+    return NextResponse.json({
+      success: true,
+      migration,
+      message: `Chunks are now embedded with ${migration.model} (${migration.dimensions} dimensions)`,
+    });
+  } catch (error) {
+    if (error instanceof EmbeddingMigrationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[api/embeddings/migrations/cutover] Error cutting over migration:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to cut over embedding migration',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EmbeddingMigrationError, resumeEmbeddingMigration } from '@/lib/embedding-migration';
+
+/**
+ * POST /api/embeddings/migrations/[id]/resume
+ *
+ * Restarts the re-embedding job of a migration that failed, was interrupted
+ * by a restart, or is missing chunks uploaded after it became ready; chunks
+ * already re-embedded are skipped
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+
+    const migration = await resumeEmbeddingMigration(Number(id));
+
+    return NextResponse.json(
+      {
+        success: true,
+        migration,
+        message: `Resumed embedding migration ${migration.id}: ${migration.embeddedChunks}/${migration.totalChunks} chunks done`,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof EmbeddingMigrationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[api/embeddings/migrations/resume] Error resuming migration:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to resume embedding migration',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
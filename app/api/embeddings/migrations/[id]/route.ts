@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEmbeddingMigration } from '@/lib/db/embedding-migrations';
+import { cancelEmbeddingMigration, EmbeddingMigrationError } from '@/lib/embedding-migration';
+
+/**
+ * GET /api/embeddings/migrations/[id]
+ *
+ * Returns a migration's status and progress (embedded and total chunks)
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+
+    const migration = await getEmbeddingMigration(Number(id));
+    if (!migration) {
+      return NextResponse.json(
+        { error: 'Embedding migration not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ migration });
+  } catch (error) {
+    console.error('[api/embeddings/migrations] Error fetching migration:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch embedding migration',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/embeddings/migrations/[id]
+ *
+ * Cancels a migration that has not been cut over and discards its vectors
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+
+    const migration = await cancelEmbeddingMigration(Number(id));
+
+    return NextResponse.json({
+      success: true,
+      migration,
+      message: `Cancelled embedding migration ${migration.id}`,
+    });
+  } catch (error) {
+    if (error instanceof EmbeddingMigrationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[api/embeddings/migrations] Error cancelling migration:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to cancel embedding migration',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listEmbeddingMigrations } from '@/lib/db/embedding-migrations';
+import { getActiveEmbeddingProvider } from '@/lib/embeddings';
+import { EmbeddingMigrationError, startEmbeddingMigration } from '@/lib/embedding-migration';
+
+/**
+ * GET /api/embeddings/migrations
+ *
+ * Lists embedding migrations (newest first) with the model chunks are
+ * currently embedded with
+ */
+export async function GET() {
+  try {
+    const [migrations, active] = await Promise.all([
+      listEmbeddingMigrations(),
+      getActiveEmbeddingProvider(),
+    ]);
+
+    return NextResponse.json({
+      active: { provider: active.name, model: active.model, dimensions: active.dimensions },
+      migrations,
+    });
+  } catch (error) {
+    console.error('[api/embeddings/migrations] Error fetching migrations:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch embedding migrations',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/embeddings/migrations
+ *
+ * Starts re-embedding every chunk with another model in the background;
+ * search keeps using the current vectors until the migration is cut over
+ *
+ * Expected JSON body:
+ * - provider: "openai", "openai-compatible" or "local"
+ * - model: Model name (optional, defaults to the provider's configured model)
+ * - dimensions: Vector size to request from the model (optional, defaults to
+ *   the provider's configured size, requested only if configured explicitly)
+ *
+ * Poll GET /api/embeddings/migrations/[id] for progress
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.provider !== 'string' || body.provider.trim() === '') {
+      return NextResponse.json(
+        { success: false, error: 'provider is required' },
+        { status: 400 }
+      );
+    }
+
+    const migration = await startEmbeddingMigration({
+      provider: body.provider.trim(),
+      model: typeof body.model === 'string' && body.model.trim() ? body.model.trim() : undefined,
+      dimensions: body.dimensions !== undefined ? Number(body.dimensions) : undefined,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        migration,
+        message: `Re-embedding ${migration.totalChunks} chunks with ${migration.model}`,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof EmbeddingMigrationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[api/embeddings/migrations] Error starting migration:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to start embedding migration',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,14 @@
 import { NextResponse } from 'next/server';
-import { initDatabase, testConnection } from '@/lib/db/postgres-client';
+import { getClient, initDatabase, testConnection } from '@/lib/db/postgres-client';
+import { getMigrationStatus } from '@/lib/db/migrator';
+import { ensureVectorIndex, getVectorIndexInfo } from '@/lib/db/vector-index';
 
 /**
  * POST /api/init-db
  *
- * Initializes the database with required tables and indexes
+ * Applies pending schema migrations (lib/db/migrations), creating the tables
+ * and indexes on a new database, then rebuilds the vector index if the corpus
+ * has outgrown it (HNSW or IVFFlat, chosen by row count)
  * This should be called once before using the application
  */
 export async function POST() {
@@ -26,15 +30,14 @@ export async function POST() {
     // Initialize database
     await initDatabase();
 
+    const migrations = await getMigrationStatus(getClient());
+    const vectorIndex = await ensureVectorIndex();
+
     return NextResponse.json({
       success: true,
       message: 'Database initialized successfully',
-      tables: ['document_chunks'],
-      indexes: [
-        'document_chunks_embedding_idx (vector cosine)',
-        'document_chunks_county_idx',
-        'document_chunks_document_id_idx',
-      ],
+      migrations,
+      vectorIndex,
       extensions: ['pgvector'],
     });
   } catch (error) {
@@ -54,14 +57,29 @@ export async function POST() {
 /**
  * GET /api/init-db
  *
- * Returns information about the database initialization endpoint
+ * Reports applied and pending schema migrations, and the vector index, without
+ * changing anything
  */
 export async function GET() {
-  return NextResponse.json({
-    name: 'Database Initialization API',
-    description: 'Initialize the database with required tables and indexes',
-    endpoint: '/api/init-db',
-    method: 'POST',
-    note: 'This should be called once before using the application',
-  });
+  try {
+    const migrations = await getMigrationStatus(getClient());
+    const vectorIndex = migrations.applied.length > 0 ? await getVectorIndexInfo() : null;
+
+    return NextResponse.json({
+      upToDate: migrations.pending.length === 0,
+      migrations,
+      vectorIndex,
+      note: 'POST to this endpoint to apply pending migrations',
+    });
+  } catch (error) {
+    console.error('[init-db] Error reading migration status:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to read migration status',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
 }
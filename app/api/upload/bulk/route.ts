@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { RAG_CONFIG } from "@/lib/constants";
+import { initDatabase } from "@/lib/db/postgres-client";
+import { ingestZipArchive } from "@/lib/bulk-ingestion";
+import { IngestionError, parseChunkingFields } from "@/lib/ingestion";
+
+/**
+ * POST /api/upload/bulk
+ * Handles ZIP uploads containing many documents and processes each one
+ * through the same chunk-and-store path as /api/upload
+ *
+ * Expected form data:
+ * - file: ZIP archive of supported documents, optionally with manifest.json
+ * - county, documentTitle, year: optional defaults applied to every file
+ * - uploadedBy: Optional name or email of the uploader
+ * - chunkingStrategy, chunkingOptions: Optional chunking strategy for every
+ *   file (see /api/upload)
+ *
+ * manifest.json maps each file to its metadata, either as
+ *   { "boulder.md": { "county": "Boulder", "title": "...", "year": 2025 } }
+ * or as an array of { "file": "boulder.md", "county": ..., ... } entries.
+ * Manifest entries win over batch defaults, which win over frontmatter.
+ *
+ * Archives with too many files, or too large once decompressed, are rejected
+ * with 400 before anything is decompressed (see RAG_CONFIG.MAX_ZIP_*).
+ *
+ * Responds 200 with a per-file report even when some files fail
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Parse multipart form data
+    const formData = await request.formData();
+
+    const file = formData.get("file") as File | null;
+    const county = formData.get("county") as string | null;
+    const documentTitle = formData.get("documentTitle") as string | null;
+    const year = formData.get("year") as string | null;
+    const uploadedBy = formData.get("uploadedBy") as string | null;
+    const chunking = parseChunkingFields(
+      formData.get("chunkingStrategy") as string | null,
+      formData.get("chunkingOptions") as string | null
+    );
+
+    // Validate file is provided
+    if (!file || !file.name) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "No file provided",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate file extension
+    if (!file.name.toLowerCase().endsWith(".zip")) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid file format (must be .zip)",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate archive size
+    if (file.size > RAG_CONFIG.MAX_ZIP_SIZE) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Archive is too large (max ${RAG_CONFIG.MAX_ZIP_SIZE / (1024 * 1024)}MB)`,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[upload/bulk] Processing archive: ${file.name}`);
+    console.log(`[upload/bulk] Archive size: ${(file.size / 1024).toFixed(2)} KB`);
+
+    // Initialize database (creates tables and indexes if they don't exist)
+    try {
+      console.log("[upload/bulk] Initializing database...");
+      await initDatabase();
+    } catch (error) {
+      console.error("[upload/bulk] Error initializing database:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Failed to initialize database: ${errorMessage}`,
+        },
+        { status: 503 }
+      );
+    }
+
+    const report = await ingestZipArchive(
+      await file.arrayBuffer(),
+      {
+        county: county || undefined,
+        title: documentTitle || undefined,
+        year: year || undefined,
+      },
+      uploadedBy?.trim() || undefined,
+      chunking
+    );
+
+    return NextResponse.json(
+      {
+        success: report.failed === 0,
+        ...report,
+        message: `Processed ${report.total} files: ${report.succeeded} succeeded, ${report.failed} failed`,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof IngestionError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error("[upload/bulk] Unexpected error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Unexpected error: ${errorMessage}`,
+      },
+      { status: 500 }
+    );
+  }
+}
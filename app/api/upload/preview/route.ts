@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { IngestionError, parseChunkingFields } from "@/lib/ingestion";
+import { previewDocument } from "@/lib/chunk-preview";
+
+/**
+ * POST /api/upload/preview
+ * Dry run of an upload: converts and chunks the file exactly as /api/upload
+ * would, but embeds and stores nothing, so it costs no embedding calls
+ *
+ * Expected form data (same fields as /api/upload; all but file optional):
+ * - file: MD/Markdown, PDF, DOCX or HTML file
+ * - county, documentTitle, year: Label the preview chunks
+ * - chunkingStrategy: Strategy to preview (section-aware by default)
+ * - chunkingOptions: Optional JSON object of strategy options
+ *
+ * Returns the chunks with their heading breadcrumbs, the section tree, a
+ * histogram of chunk sizes in tokens, the share of the text that ended up in
+ * a chunk and warnings (large sections, tiny fragments merged into a
+ * neighbour, headings with no content, text missing from every chunk)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+
+    const file = formData.get("file") as File | null;
+    const county = formData.get("county") as string | null;
+    const documentTitle = formData.get("documentTitle") as string | null;
+    const year = formData.get("year") as string | null;
+    const chunkingStrategy = formData.get("chunkingStrategy") as string | null;
+    const chunkingOptions = formData.get("chunkingOptions") as string | null;
+
+    if (!file || !file.name) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "No file provided",
+        },
+        { status: 400 }
+      );
+    }
+
+    const preview = await previewDocument({
+      fileName: file.name,
+      data: await file.arrayBuffer(),
+      fields: {
+        county: county || undefined,
+        title: documentTitle || undefined,
+        year: year || undefined,
+      },
+      chunking: parseChunkingFields(chunkingStrategy, chunkingOptions),
+    });
+
+    return NextResponse.json({ success: true, ...preview }, { status: 200 });
+  } catch (error) {
+    if (error instanceof IngestionError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error("[upload/preview] Unexpected error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Unexpected error: ${errorMessage}`,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,44 +1,59 @@
 import { NextRequest, NextResponse } from "next/server";
-import { processMarkdownDocument } from "@/lib/md-processor";
-import { RAG_CONFIG } from "@/lib/constants";
-import { ColoradoCounty, COLORADO_COUNTIES } from "@/lib/types";
 import { initDatabase } from "@/lib/db/postgres-client";
-import { storeDocumentChunks } from "@/lib/db/vector-store";
+import {
+  DuplicatePolicy,
+  ingestDocument,
+  IngestionError,
+  parseChunkingFields,
+  validateUploadFile,
+} from "@/lib/ingestion";
 
 /**
  * POST /api/upload
- * Handles markdown file uploads and processes them into chunks
+ * Handles document uploads and processes them into chunks
+ * PDF, DOCX and HTML files are converted to markdown before chunking
  *
  * Expected form data:
- * - file: MD/Markdown file
+ * - file: MD/Markdown, PDF, DOCX or HTML file
  * - county: Colorado county name
  * - documentTitle: Title of the document
  * - year: Year of the document
+ * - uploadedBy: Optional name or email of the uploader
+ * - onDuplicate: "return-existing" (default) or "reject" (409) when the
+ *   identical file was already uploaded; an identical file still being
+ *   processed is always a 409
+ * - supersedes: Optional ID of the document this file is a new version of;
+ *   the older version is excluded from retrieval once this one is stored
+ *   (409 if the file is identical to an existing document)
+ * - chunkingStrategy: Optional "section-aware" (default), "fixed-token",
+ *   "whole-section" or "sliding-sentence"; stored on the document
+ * - chunkingOptions: Optional JSON object of strategy options, e.g.
+ *   {"chunkSize": 256, "overlap": 32}
+ *
+ * county, documentTitle and year may be omitted when the file's YAML
+ * frontmatter provides them; form fields take precedence over frontmatter.
+ * Frontmatter may also set effective_date, source_url, statutes and tags.
+ * The response includes warnings when most chunks match an existing
+ * document for the same county and year.
  */
 export async function POST(request: NextRequest) {
   try {
     // Parse multipart form data
     const formData = await request.formData();
 
-    // Extract fields
+    // Extract fields (county, documentTitle and year may come from frontmatter)
     const file = formData.get("file") as File | null;
     const county = formData.get("county") as string | null;
     const documentTitle = formData.get("documentTitle") as string | null;
-    const yearStr = formData.get("year") as string | null;
-
-    // Validate all required fields are present
-    if (!file || !county || !documentTitle || !yearStr) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Missing required fields. Expected: file, county, documentTitle, year",
-        },
-        { status: 400 }
-      );
-    }
+    const year = formData.get("year") as string | null;
+    const uploadedBy = formData.get("uploadedBy") as string | null;
+    const onDuplicate = formData.get("onDuplicate") as string | null;
+    const supersedes = formData.get("supersedes") as string | null;
+    const chunkingStrategy = formData.get("chunkingStrategy") as string | null;
+    const chunkingOptions = formData.get("chunkingOptions") as string | null;
 
     // Validate file is provided
-    if (!file.name) {
+    if (!file || !file.name) {
       return NextResponse.json(
         {
           success: false,
@@ -48,129 +63,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate file extension
-    const fileExtension = file.name.toLowerCase().split(".").pop();
-    if (fileExtension !== "md" && fileExtension !== "markdown") {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Invalid file format (must be .md or .markdown)",
-        },
-        { status: 400 }
-      );
-    }
-
-    // Validate file size (max 5MB)
-    if (file.size > RAG_CONFIG.MAX_FILE_SIZE) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: `File is too large (max ${RAG_CONFIG.MAX_FILE_SIZE / (1024 * 1024)}MB)`,
-        },
-        { status: 400 }
-      );
-    }
+    // Validate extension and size before reading the file
+    validateUploadFile(file.name, file.size);
+    const chunking = parseChunkingFields(chunkingStrategy, chunkingOptions);
 
-    // Validate county is a valid Colorado county
-    if (!COLORADO_COUNTIES.includes(county as ColoradoCounty)) {
+    if (onDuplicate && onDuplicate !== "return-existing" && onDuplicate !== "reject") {
       return NextResponse.json(
         {
           success: false,
-          error: `Invalid county. Must be one of: ${COLORADO_COUNTIES.join(", ")}`,
+          error: 'Invalid onDuplicate. Must be "return-existing" or "reject"',
         },
         { status: 400 }
       );
     }
 
-    // Validate year is a valid number
-    const year = parseInt(yearStr, 10);
-    if (isNaN(year) || year < 1900 || year > 2100) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Invalid year. Must be a number between 1900 and 2100",
-        },
-        { status: 400 }
-      );
-    }
-
-    // Log upload details
-    console.log(`[upload] Processing file: ${file.name}`);
-    console.log(`[upload] File size: ${(file.size / 1024).toFixed(2)} KB`);
-    console.log(`[upload] County: ${county}, Title: ${documentTitle}, Year: ${year}`);
-
-    // Read file content as UTF-8 text
-    let fileContent: string;
-    try {
-      const buffer = await file.arrayBuffer();
-      fileContent = new TextDecoder("utf-8").decode(buffer);
-    } catch (error) {
-      console.error("[upload] Error reading file:", error);
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Failed to read file content",
-        },
-        { status: 500 }
-      );
-    }
-
-    // Validate content is not empty
-    if (fileContent.trim().length === 0) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "File content is empty",
-        },
-        { status: 400 }
-      );
-    }
-
-    // Generate document ID before processing
-    const documentId = `doc_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-
-    // Process the document into chunks
-    let chunks;
-    try {
-      chunks = processMarkdownDocument(
-        fileContent,
-        {
-          county: county as ColoradoCounty,
-          title: documentTitle,
-          year: year,
-        },
-        documentId
-      );
-    } catch (error) {
-      console.error("[upload] Error processing document:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      return NextResponse.json(
-        {
-          success: false,
-          error: `Failed to process document: ${errorMessage}`,
-        },
-        { status: 500 }
-      );
-    }
-
-    // Log chunk information with section headers visible
-    console.log(`[upload] Successfully created ${chunks.length} chunks`);
-
-    chunks.forEach((chunk, index) => {
-      const sectionInfo = chunk.metadata.sectionHeader
-        ? ` [${chunk.metadata.sectionHeader}${chunk.metadata.subsectionHeader ? ` > ${chunk.metadata.subsectionHeader}` : ""}]`
-        : "";
-      console.log(
-        `[upload] Chunk ${index + 1}/${chunks.length}${sectionInfo}: ${chunk.content.substring(0, 100)}...`
-      );
-    });
-
-    // Extract unique sections for response
-    const sections = Array.from(
-      new Set(chunks.map((c) => c.metadata.sectionHeader).filter(Boolean))
-    );
-
     // Initialize database (creates tables and indexes if they don't exist)
     try {
       console.log("[upload] Initializing database...");
@@ -188,44 +94,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Store chunks with embeddings in PostgreSQL
-    let storeResult;
-    try {
-      console.log("[upload] Storing document chunks with embeddings...");
-      storeResult = await storeDocumentChunks(chunks);
-
-      if (!storeResult.success) {
-        throw new Error(storeResult.error || "Failed to store document chunks");
-      }
-    } catch (error) {
-      console.error("[upload] Error storing document chunks:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      return NextResponse.json(
-        {
-          success: false,
-          error: `Failed to store document vectors: ${errorMessage}`,
-        },
-        { status: 500 }
-      );
-    }
-
-    console.log(
-      `[upload] Successfully stored ${storeResult.vectorCount} vectors in PostgreSQL`
-    );
+    const result = await ingestDocument({
+      fileName: file.name,
+      data: await file.arrayBuffer(),
+      fields: {
+        county: county || undefined,
+        title: documentTitle || undefined,
+        year: year || undefined,
+      },
+      uploadedBy: uploadedBy?.trim() || undefined,
+      onDuplicate: (onDuplicate as DuplicatePolicy | null) || undefined,
+      supersedes: supersedes?.trim() || undefined,
+      chunking,
+    });
 
     return NextResponse.json(
       {
         success: true,
-        documentId,
-        chunkCount: chunks.length,
-        vectorCount: storeResult.vectorCount,
-        sections,
-        message: `Successfully processed and stored ${chunks.length} chunks from ${sections.length} sections`,
+        ...result,
+        message: result.duplicate
+          ? `File already uploaded as document ${result.documentId}; nothing was reprocessed`
+          : `Successfully processed and stored ${result.chunkCount} chunks from ${result.sections.length} sections${
+              result.supersededDocumentId ? ` as version ${result.version}` : ""
+            }`,
       },
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof IngestionError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: error.status }
+      );
+    }
+
     console.error("[upload] Unexpected error:", error);
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     return NextResponse.json(
@@ -0,0 +1,15 @@
+import DocumentDetail from "@/components/document-detail";
+
+export default async function DocumentPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <DocumentDetail documentId={decodeURIComponent(id)} />
+    </div>
+  );
+}
@@ -1,29 +1,49 @@
 "use client";
 
+import { useState } from "react";
 import DocumentUpload from "@/components/document-upload";
 import DocumentList from "@/components/document-list";
+import type { UploadedDocument } from "@/lib/types";
 
 export default function UploadPage() {
+  const [newVersionOf, setNewVersionOf] = useState<UploadedDocument | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
   return (
     <div className="max-w-6xl mx-auto space-y-8">
       {/* Header */}
       <div>
         <h1 className="text-3xl font-bold">Upload County Documents</h1>
         <p className="text-muted-foreground mt-2">
-          Upload markdown (.md) files containing tax lien redemption guidelines
+          Upload markdown, PDF, Word or HTML files containing tax lien redemption guidelines
         </p>
       </div>
 
       {/* Upload Section */}
       <div>
-        <h2 className="text-xl font-semibold mb-4">New Document</h2>
-        <DocumentUpload />
+        <h2 className="text-xl font-semibold mb-4">
+          {newVersionOf ? "New Version" : "New Document"}
+        </h2>
+        <DocumentUpload
+          supersedes={newVersionOf}
+          onCancelNewVersion={() => setNewVersionOf(null)}
+          onUploaded={() => {
+            setNewVersionOf(null);
+            setRefreshKey((key) => key + 1);
+          }}
+        />
       </div>
 
       {/* Document List */}
       <div>
         <h2 className="text-xl font-semibold mb-4">Uploaded Documents</h2>
-        <DocumentList />
+        <DocumentList
+          refreshKey={refreshKey}
+          onNewVersion={(document) => {
+            setNewVersionOf(document);
+            window.scrollTo({ top: 0, behavior: "smooth" });
+          }}
+        />
       </div>
     </div>
   );
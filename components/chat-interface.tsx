@@ -20,6 +20,7 @@ interface Source {
   county: string;
   documentTitle: string;
   sectionHeader?: string;
+  pages?: string;
 }
 
 interface Message {
@@ -107,6 +108,7 @@ export default function ChatInterface() {
             county: s.county,
             documentTitle: s.documentTitle,
             sectionHeader: s.section,
+            pages: s.pages,
           }));
 
           setMessages((prev) =>
@@ -255,6 +257,9 @@ export default function ChatInterface() {
                               <span className="italic">{source.sectionHeader}</span>
                             </>
                           )}
+                          {source.pages && (
+                            <span className="text-gray-500">{source.pages}</span>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -0,0 +1,149 @@
+"use client";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import {
+  CHUNKING_STRATEGY_INFO,
+  type DocumentPreview,
+  type SectionSummary,
+} from "@/lib/types";
+
+interface ChunkingPreviewProps {
+  preview: DocumentPreview;
+}
+
+export default function ChunkingPreview({ preview }: ChunkingPreviewProps) {
+  const { chunks, sections, histogram, warnings, coverage, stats } = preview;
+  const largestBucket = Math.max(1, ...histogram.map((bucket) => bucket.count));
+
+  // Breadcrumb tree, indented one level per heading depth
+  const renderSections = (nodes: SectionSummary[], nested = false) => (
+    <ul className={nested ? "mt-1 ml-4 space-y-1" : "space-y-1"}>
+      {nodes.map((node, index) => (
+        <li key={`${node.title}-${index}`}>
+          <div className="flex items-center justify-between gap-2">
+            <span className={nested ? "text-muted-foreground" : "font-medium"}>{node.title}</span>
+            <span className="text-xs text-muted-foreground shrink-0">
+              {node.chunkCount} {node.chunkCount === 1 ? "chunk" : "chunks"}
+            </span>
+          </div>
+          {node.subsections.length > 0 && renderSections(node.subsections, true)}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-6">
+        <div>
+          <h3 className="font-semibold text-lg">Chunking Preview</h3>
+          <p className="text-sm text-muted-foreground">
+            {CHUNKING_STRATEGY_INFO[preview.chunkingStrategy].label} •{" "}
+            {Object.entries(preview.chunkingOptions)
+              .map(([option, value]) => `${option}: ${value}`)
+              .join(", ")}
+            {preview.pageCount ? ` • ${preview.pageCount} pages` : ""} • nothing has been
+            embedded or stored yet
+          </p>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+          {[
+            { label: "Chunks", value: stats.chunkCount },
+            { label: "Total size", value: `${stats.totalTokens} tokens` },
+            { label: "Average size", value: `${stats.averageTokens} tokens` },
+            { label: "Size range", value: `${stats.minTokens}–${stats.maxTokens} tokens` },
+            { label: "Text coverage", value: `${coverage.percent}%` },
+          ].map((stat) => (
+            <div key={stat.label}>
+              <p className="text-muted-foreground">{stat.label}</p>
+              <p className="font-semibold">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Warnings */}
+        {warnings.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Warnings</p>
+            <ul className="space-y-1 text-sm">
+              {warnings.map((warning, index) => (
+                <li key={index} className="flex items-start gap-2 text-amber-700">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>{warning.message}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Size Histogram */}
+        {histogram.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Chunk sizes (tokens)</p>
+            <div className="space-y-1">
+              {histogram.map((bucket) => (
+                <div key={bucket.minTokens} className="flex items-center gap-2 text-xs">
+                  <span className="w-20 shrink-0 text-right text-muted-foreground">
+                    {bucket.minTokens}–{bucket.maxTokens}
+                  </span>
+                  <div className="flex-1 h-3 bg-muted rounded-sm">
+                    <div
+                      className="h-3 bg-primary rounded-sm"
+                      style={{ width: `${(bucket.count / largestBucket) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-6 shrink-0 text-muted-foreground">{bucket.count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Sections */}
+        {sections.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Sections</p>
+            <div className="text-sm">{renderSections(sections)}</div>
+          </div>
+        )}
+
+        {/* Chunks */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Chunks</p>
+          <div className="max-h-96 overflow-y-auto space-y-3 pr-1">
+            {chunks.map((chunk) => (
+              <div key={chunk.chunkIndex} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2 text-xs">
+                  <span className="text-muted-foreground">
+                    {chunk.chunkIndex + 1}. {chunk.headingPath.join(" > ") || "No section"}
+                    {chunk.pages ? ` • ${chunk.pages}` : ""}
+                  </span>
+                  <Badge variant="outline" title={`${chunk.charCount} characters`}>
+                    {chunk.tokenCount} tokens
+                  </Badge>
+                </div>
+                <pre className="whitespace-pre-wrap break-words text-xs font-mono leading-relaxed">
+                  {chunk.content}
+                </pre>
+                {chunk.embeddingText && (
+                  <details className="text-xs">
+                    <summary className="cursor-pointer text-muted-foreground">
+                      Embedded as text
+                    </summary>
+                    <pre className="mt-2 whitespace-pre-wrap break-words font-mono leading-relaxed">
+                      {chunk.embeddingText}
+                    </pre>
+                  </details>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
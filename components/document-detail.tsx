@@ -0,0 +1,299 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, ArrowLeft, ExternalLink, Loader2 } from "lucide-react";
+import {
+  CHUNKING_STRATEGY_INFO,
+  COUNTY_COLORS,
+  type ChunkDetail,
+  type DocumentDetail as DocumentDetailData,
+  type SectionSummary,
+} from "@/lib/types";
+import { fetchDocumentDetail, getDocumentRawUrl } from "@/lib/api-client";
+
+interface DocumentDetailProps {
+  documentId: string;
+}
+
+export default function DocumentDetail({ documentId }: DocumentDetailProps) {
+  const [detail, setDetail] = useState<DocumentDetailData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    const loadDetail = async () => {
+      setIsLoading(true);
+      try {
+        setDetail(await fetchDocumentDetail(documentId));
+      } catch (err) {
+        console.error("Failed to fetch document:", err);
+        setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadDetail();
+  }, [documentId]);
+
+  const formatDate = (date: Date): string => {
+    return new Intl.DateTimeFormat("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    }).format(date);
+  };
+
+  // First chunk under a heading breadcrumb, for jumping from the tree
+  const firstChunkOf = (path: string[]): number | undefined =>
+    detail?.chunks.find((chunk) => {
+      const chunkPath = chunk.headingPath.length > 0 ? chunk.headingPath : ["(No section)"];
+      return path.every((title, index) => chunkPath[index] === title);
+    })?.chunkIndex;
+
+  const scrollToChunk = (chunkIndex: number | undefined) => {
+    if (chunkIndex === undefined) return;
+    document
+      .getElementById(`chunk-${chunkIndex}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  // Split chunk content into overlap, context prefix and body for highlighting
+  const renderChunkContent = (chunk: ChunkDetail) => {
+    const overlap = chunk.content.slice(0, chunk.overlapLength);
+    const rest = chunk.content.slice(chunk.overlapLength);
+    const prefix = chunk.contextPrefix || "";
+    const body = rest.slice(prefix.length);
+
+    return (
+      <pre className="whitespace-pre-wrap break-words text-xs font-mono leading-relaxed">
+        {overlap && (
+          <span className="bg-amber-100 text-amber-900" title="Overlap from previous chunk">
+            {overlap}
+          </span>
+        )}
+        {prefix && (
+          <span className="bg-blue-50 text-blue-700" title="Context prefix">
+            {prefix}
+          </span>
+        )}
+        {body}
+      </pre>
+    );
+  };
+
+  // Nested headings of the section tree, indented one level per heading depth
+  const renderSubsections = (subsections: SectionSummary[], parentPath: string[]) => (
+    <ul className="mt-1 ml-4 space-y-1">
+      {subsections.map((subsection, subsectionIndex) => {
+        const path = [...parentPath, subsection.title];
+        return (
+          <li key={`${subsection.title}-${subsectionIndex}`}>
+            <button
+              type="button"
+              className="w-full flex items-center justify-between gap-2 text-left text-muted-foreground hover:underline"
+              onClick={() => scrollToChunk(firstChunkOf(path))}
+            >
+              <span>{subsection.title}</span>
+              <span className="text-xs shrink-0">{subsection.chunkCount}</span>
+            </button>
+            {subsection.subsections.length > 0 &&
+              renderSubsections(subsection.subsections, path)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16 text-muted-foreground">
+        <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+        Loading document...
+      </div>
+    );
+  }
+
+  if (error || !detail) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{error || "Document not found"}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const { document: doc, chunks, sections, stats } = detail;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="space-y-3">
+        <Button variant="ghost" size="sm" className="px-2" asChild>
+          <Link href="/upload">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to documents
+          </Link>
+        </Button>
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className={COUNTY_COLORS[doc.county]}>
+                {doc.county}
+              </Badge>
+              {(doc.version ?? 1) > 1 && <Badge variant="secondary">v{doc.version}</Badge>}
+              {doc.supersededBy && <Badge variant="secondary">Superseded</Badge>}
+              {doc.status && doc.status !== "ready" && (
+                <Badge variant={doc.status === "failed" ? "destructive" : "secondary"}>
+                  {doc.status === "failed" ? "Failed" : "Processing"}
+                </Badge>
+              )}
+            </div>
+            <h1 className="text-3xl font-bold">{doc.title}</h1>
+            <p className="text-sm text-muted-foreground">
+              {doc.fileName} • {doc.year} • uploaded {formatDate(doc.uploadedAt)}
+              {doc.uploadedBy ? ` by ${doc.uploadedBy}` : ""}
+            </p>
+            {doc.chunkingStrategy && (
+              <p className="text-sm text-muted-foreground">
+                Chunked with {CHUNKING_STRATEGY_INFO[doc.chunkingStrategy].label.toLowerCase()}
+                {doc.chunkingOptions && Object.keys(doc.chunkingOptions).length > 0
+                  ? ` (${Object.entries(doc.chunkingOptions)
+                      .map(([option, value]) => `${option}: ${value}`)
+                      .join(", ")})`
+                  : ""}
+              </p>
+            )}
+          </div>
+          {doc.hasOriginal && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={getDocumentRawUrl(doc.id)} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="h-4 w-4 mr-2" />
+                View original
+              </a>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: "Chunks", value: stats.chunkCount },
+          { label: "Embedded", value: `${stats.embeddedCount} / ${stats.chunkCount}` },
+          { label: "Average size", value: `${stats.averageTokens} tokens` },
+          { label: "Size range", value: `${stats.minTokens}–${stats.maxTokens} tokens` },
+        ].map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{stat.label}</p>
+              <p className="text-xl font-semibold">{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Section Tree */}
+        <Card className="lg:col-span-1 h-fit lg:sticky lg:top-20">
+          <CardHeader>
+            <CardTitle className="text-lg">Sections</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sections.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No chunks stored</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {sections.map((section, sectionIndex) => (
+                  <li key={`${section.title}-${sectionIndex}`}>
+                    <button
+                      type="button"
+                      className="w-full flex items-center justify-between gap-2 text-left hover:underline"
+                      onClick={() => scrollToChunk(firstChunkOf([section.title]))}
+                    >
+                      <span className="font-medium">{section.title}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        {section.chunkCount} {section.chunkCount === 1 ? "chunk" : "chunks"}
+                      </span>
+                    </button>
+                    {section.subsections.length > 0 &&
+                      renderSubsections(section.subsections, [section.title])}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Chunks */}
+        <div className="lg:col-span-2 space-y-4">
+          <div className="flex items-center gap-4 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-3 w-3 rounded-sm bg-amber-100 border border-amber-200" />
+              Overlap from previous chunk
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-3 w-3 rounded-sm bg-blue-50 border border-blue-200" />
+              Context prefix
+            </span>
+          </div>
+
+          {chunks.map((chunk) => (
+            <Card key={chunk.id} id={`chunk-${chunk.chunkIndex}`} className="scroll-mt-20">
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-sm">
+                      Chunk {chunk.chunkIndex + 1} of {chunks.length}
+                    </CardTitle>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {chunk.headingPath.join(" > ") || "No section"}
+                      {chunk.pages ? ` • ${chunk.pages}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Badge variant="outline" title={`${chunk.charCount} characters`}>
+                      {chunk.tokenCount} tokens
+                    </Badge>
+                    {chunk.overlapLength > 0 && (
+                      <Badge variant="outline">{chunk.overlapLength} chars overlap</Badge>
+                    )}
+                    <Badge
+                      variant={chunk.hasEmbedding ? "secondary" : "destructive"}
+                      title={
+                        chunk.embeddingModel
+                          ? `${chunk.embeddingProvider} / ${chunk.embeddingModel}`
+                          : undefined
+                      }
+                    >
+                      {chunk.hasEmbedding ? "Embedded" : "No embedding"}
+                    </Badge>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {renderChunkContent(chunk)}
+                {chunk.embeddingText && (
+                  <details className="text-xs">
+                    <summary className="cursor-pointer text-muted-foreground">
+                      Embedded as text
+                    </summary>
+                    <pre className="mt-2 whitespace-pre-wrap break-words font-mono leading-relaxed">
+                      {chunk.embeddingText}
+                    </pre>
+                  </details>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   Dialog,
   DialogContent,
@@ -19,21 +22,44 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { FileText, Trash2 } from "lucide-react";
 import {
+  ExternalLink,
+  FilePlus,
+  FileText,
+  History,
+  Loader2,
+  Pencil,
+  RefreshCw,
+  Trash2,
+} from "lucide-react";
+import {
+  CHUNKING_STRATEGY_INFO,
   COLORADO_COUNTIES,
   COUNTY_COLORS,
   type ColoradoCounty,
   type UploadedDocument,
 } from "@/lib/types";
-import { fetchDocuments, deleteDocument } from "@/lib/api-client";
+import {
+  fetchDocuments,
+  deleteDocument,
+  getDocumentRawUrl,
+  reprocessAllDocuments,
+  reprocessDocument,
+  updateDocument,
+} from "@/lib/api-client";
 import { useToast } from "@/components/ui/use-toast";
 
 interface DocumentListProps {
   onUploadClick?: () => void;
+  onNewVersion?: (document: UploadedDocument) => void;
+  refreshKey?: number; // Change to reload the list (e.g. after an upload)
 }
 
-export default function DocumentList({ onUploadClick }: DocumentListProps) {
+export default function DocumentList({
+  onUploadClick,
+  onNewVersion,
+  refreshKey,
+}: DocumentListProps) {
   const { toast } = useToast();
   const [documents, setDocuments] = useState<UploadedDocument[]>([]);
   const [selectedCounty, setSelectedCounty] = useState<string>("all");
@@ -43,6 +69,20 @@ export default function DocumentList({ onUploadClick }: DocumentListProps) {
   }>({ open: false, documentId: null });
   const [isLoading, setIsLoading] = useState(true);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [expandedHistory, setExpandedHistory] = useState<string | null>(null);
+  const [editDialog, setEditDialog] = useState<{
+    open: boolean;
+    documentId: string | null;
+    county: ColoradoCounty | "";
+    title: string;
+    year: string;
+  }>({ open: false, documentId: null, county: "", title: "", year: "" });
+  const [isSaving, setIsSaving] = useState(false);
+  const [reprocessingId, setReprocessingId] = useState<string | null>(null);
+  const [bulkProgress, setBulkProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
 
   const formatDate = (date: Date): string => {
     return new Intl.DateTimeFormat("en-US", {
@@ -58,10 +98,10 @@ export default function DocumentList({ onUploadClick }: DocumentListProps) {
     return (bytes / (1024 * 1024)).toFixed(1) + " MB";
   };
 
-  // Fetch documents on mount
+  // Fetch documents on mount and whenever the parent asks for a refresh
   useEffect(() => {
     loadDocuments();
-  }, []);
+  }, [refreshKey]);
 
   const loadDocuments = async () => {
     setIsLoading(true);
@@ -80,10 +120,20 @@ export default function DocumentList({ onUploadClick }: DocumentListProps) {
     }
   };
 
+  // Superseded versions are listed under their current version
+  const currentDocuments = documents.filter((doc) => !doc.supersededBy);
+  const olderVersions = (doc: UploadedDocument): UploadedDocument[] =>
+    documents
+      .filter(
+        (other) =>
+          other.supersededBy && other.versionGroupId === doc.versionGroupId
+      )
+      .sort((a, b) => (b.version ?? 1) - (a.version ?? 1));
+
   const filteredDocuments =
     selectedCounty === "all"
-      ? documents
-      : documents.filter((doc) => doc.county === selectedCounty);
+      ? currentDocuments
+      : currentDocuments.filter((doc) => doc.county === selectedCounty);
 
   const handleDelete = (documentId: string) => {
     setDeleteDialog({ open: true, documentId });
@@ -96,10 +146,8 @@ export default function DocumentList({ onUploadClick }: DocumentListProps) {
     try {
       await deleteDocument(deleteDialog.documentId);
 
-      // Remove from state
-      setDocuments((docs) =>
-        docs.filter((doc) => doc.id !== deleteDialog.documentId)
-      );
+      // Reload: deleting the latest version makes the previous one current
+      await loadDocuments();
 
       toast({
         title: 'Document deleted',
@@ -119,6 +167,116 @@ export default function DocumentList({ onUploadClick }: DocumentListProps) {
     }
   };
 
+  const handleEdit = (doc: UploadedDocument) => {
+    setEditDialog({
+      open: true,
+      documentId: doc.id,
+      county: doc.county,
+      title: doc.title,
+      year: String(doc.year),
+    });
+  };
+
+  const confirmEdit = async () => {
+    if (!editDialog.documentId || !editDialog.county) return;
+
+    setIsSaving(true);
+    try {
+      const result = await updateDocument(editDialog.documentId, {
+        county: editDialog.county,
+        title: editDialog.title.trim(),
+        year: parseInt(editDialog.year, 10),
+      });
+
+      // Update in state
+      if (result.document) {
+        const updated = result.document;
+        setDocuments((docs) =>
+          docs.map((doc) =>
+            doc.id === updated.id
+              ? {
+                  ...doc,
+                  county: updated.county,
+                  title: updated.title,
+                  year: updated.year,
+                }
+              : doc
+          )
+        );
+      }
+
+      toast({
+        title: 'Document updated',
+        description: result.message,
+      });
+
+      setEditDialog({ ...editDialog, open: false, documentId: null });
+    } catch (error) {
+      console.error('Failed to update document:', error);
+      toast({
+        title: 'Failed to update document',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReprocess = async (doc: UploadedDocument) => {
+    setReprocessingId(doc.id);
+    try {
+      const result = await reprocessDocument(doc.id);
+
+      setDocuments((docs) =>
+        docs.map((d) =>
+          d.id === doc.id ? { ...d, chunksProcessed: result.chunkCount } : d
+        )
+      );
+
+      toast({
+        title: 'Document reprocessed',
+        description: result.message,
+      });
+    } catch (error) {
+      console.error('Failed to reprocess document:', error);
+      toast({
+        title: 'Failed to reprocess document',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setReprocessingId(null);
+    }
+  };
+
+  const handleReprocessAll = async () => {
+    setBulkProgress({ done: 0, total: 0 });
+    try {
+      const summary = await reprocessAllDocuments(
+        (progress) => setBulkProgress({ done: progress.index, total: progress.total }),
+        { county: selectedCounty === "all" ? undefined : selectedCounty }
+      );
+
+      toast({
+        title: summary.failed ? 'Reprocessing finished with errors' : 'Reprocessing complete',
+        description: `${summary.succeeded} reprocessed, ${summary.failed} failed, ${summary.skipped} skipped (no stored original)`,
+        variant: summary.failed ? 'destructive' : 'default',
+      });
+
+      await loadDocuments();
+    } catch (error) {
+      console.error('Failed to reprocess documents:', error);
+      toast({
+        title: 'Failed to reprocess documents',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
   const LoadingSkeleton = () => (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
       {[1, 2, 3].map((i) => (
@@ -159,9 +317,30 @@ export default function DocumentList({ onUploadClick }: DocumentListProps) {
           </Select>
         </div>
 
-        <div className="text-sm text-muted-foreground">
-          {filteredDocuments.length}{" "}
-          {filteredDocuments.length === 1 ? "document" : "documents"}
+        <div className="flex items-center gap-4">
+          <div className="text-sm text-muted-foreground">
+            {filteredDocuments.length}{" "}
+            {filteredDocuments.length === 1 ? "document" : "documents"}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleReprocessAll}
+            disabled={bulkProgress !== null || filteredDocuments.length === 0}
+            title="Re-chunk and re-embed documents with the current settings"
+          >
+            {bulkProgress ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Reprocessing{bulkProgress.total > 0 ? ` ${bulkProgress.done}/${bulkProgress.total}` : "..."}
+              </>
+            ) : (
+              <>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Reprocess all
+              </>
+            )}
+          </Button>
         </div>
       </div>
 
@@ -192,24 +371,84 @@ export default function DocumentList({ onUploadClick }: DocumentListProps) {
             >
               <CardHeader>
                 <div className="flex items-start justify-between mb-2">
-                  <Badge
-                    variant="outline"
-                    className={COUNTY_COLORS[doc.county]}
-                  >
-                    {doc.county}
-                  </Badge>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
-                    onClick={() => handleDelete(doc.id)}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant="outline"
+                      className={COUNTY_COLORS[doc.county]}
+                    >
+                      {doc.county}
+                    </Badge>
+                    {(doc.version ?? 1) > 1 && (
+                      <Badge variant="secondary">v{doc.version}</Badge>
+                    )}
+                    {doc.chunkingStrategy && doc.chunkingStrategy !== "section-aware" && (
+                      <Badge variant="outline" title="Chunking strategy">
+                        {CHUNKING_STRATEGY_INFO[doc.chunkingStrategy].label}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Edit details"
+                      onClick={() => handleEdit(doc)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {doc.hasOriginal && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Reprocess with its chunking strategy"
+                        onClick={() => handleReprocess(doc)}
+                        disabled={reprocessingId !== null || bulkProgress !== null}
+                      >
+                        <RefreshCw
+                          className={`h-4 w-4 ${reprocessingId === doc.id ? "animate-spin" : ""}`}
+                        />
+                      </Button>
+                    )}
+                    {onNewVersion && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Upload new version"
+                        onClick={() => onNewVersion(doc)}
+                      >
+                        <FilePlus className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                      onClick={() => handleDelete(doc.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
                 <CardTitle className="text-lg line-clamp-2">
-                  {doc.title}
+                  <Link
+                    href={`/documents/${encodeURIComponent(doc.id)}`}
+                    className="hover:underline"
+                  >
+                    {doc.title}
+                  </Link>
                 </CardTitle>
+                {doc.status && doc.status !== "ready" && (
+                  <Badge
+                    variant={doc.status === "failed" ? "destructive" : "secondary"}
+                    className="w-fit"
+                    title={doc.errorMessage}
+                  >
+                    {doc.status === "failed" ? "Failed" : "Processing"}
+                  </Badge>
+                )}
               </CardHeader>
               <CardContent>
                 <div className="space-y-2 text-sm text-muted-foreground">
@@ -231,6 +470,14 @@ export default function DocumentList({ onUploadClick }: DocumentListProps) {
                       {formatFileSize(doc.fileSize)}
                     </span>
                   </div>
+                  {doc.uploadedBy && (
+                    <div className="flex items-center justify-between">
+                      <span>Uploaded by:</span>
+                      <span className="font-medium text-foreground truncate ml-2">
+                        {doc.uploadedBy}
+                      </span>
+                    </div>
+                  )}
                   {doc.chunksProcessed && (
                     <div className="flex items-center justify-between">
                       <span>Chunks:</span>
@@ -240,17 +487,165 @@ export default function DocumentList({ onUploadClick }: DocumentListProps) {
                     </div>
                   )}
                 </div>
-                <div className="mt-4 pt-4 border-t">
+                <div className="mt-4 pt-4 border-t flex items-center justify-between gap-2">
                   <p className="text-xs text-muted-foreground truncate">
                     {doc.fileName}
                   </p>
+                  {doc.hasOriginal && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs shrink-0"
+                      asChild
+                    >
+                      <a
+                        href={getDocumentRawUrl(doc.id)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        <ExternalLink className="h-3 w-3 mr-1" />
+                        View original
+                      </a>
+                    </Button>
+                  )}
                 </div>
+                {olderVersions(doc).length > 0 && (
+                  <div className="mt-3">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() =>
+                        setExpandedHistory(
+                          expandedHistory === doc.versionGroupId
+                            ? null
+                            : doc.versionGroupId ?? null
+                        )
+                      }
+                    >
+                      <History className="h-3 w-3 mr-1" />
+                      Version history ({olderVersions(doc).length} older)
+                    </Button>
+                    {expandedHistory === doc.versionGroupId && (
+                      <ul className="mt-2 space-y-2 text-xs text-muted-foreground">
+                        {olderVersions(doc).map((version) => (
+                          <li
+                            key={version.id}
+                            className="flex items-center justify-between gap-2"
+                          >
+                            <span>
+                              v{version.version ?? 1} • uploaded{" "}
+                              {formatDate(version.uploadedAt)}
+                              {version.supersededAt &&
+                                ` • superseded ${formatDate(version.supersededAt)}`}
+                            </span>
+                            <span className="flex items-center gap-2 shrink-0">
+                              {version.hasOriginal && (
+                                <a
+                                  href={getDocumentRawUrl(version.id)}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="hover:underline"
+                                >
+                                  View original
+                                </a>
+                              )}
+                              <button
+                                type="button"
+                                className="text-destructive hover:underline"
+                                onClick={() => handleDelete(version.id)}
+                              >
+                                Delete
+                              </button>
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))}
         </div>
       )}
 
+      {/* Edit Metadata Dialog */}
+      <Dialog
+        open={editDialog.open}
+        onOpenChange={(open) => setEditDialog({ ...editDialog, open })}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Document</DialogTitle>
+            <DialogDescription>
+              Changes apply to the document and all of its chunks. The file is
+              not re-processed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-county">County</Label>
+              <Select
+                value={editDialog.county}
+                onValueChange={(value) =>
+                  setEditDialog({ ...editDialog, county: value as ColoradoCounty })
+                }
+              >
+                <SelectTrigger id="edit-county">
+                  <SelectValue placeholder="Select a county" />
+                </SelectTrigger>
+                <SelectContent>
+                  {COLORADO_COUNTIES.map((county) => (
+                    <SelectItem key={county} value={county}>
+                      {county}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-title">Document Title</Label>
+              <Input
+                id="edit-title"
+                value={editDialog.title}
+                onChange={(e) =>
+                  setEditDialog({ ...editDialog, title: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-year">Year</Label>
+              <Input
+                id="edit-year"
+                type="number"
+                min="1900"
+                max="2100"
+                value={editDialog.year}
+                onChange={(e) =>
+                  setEditDialog({ ...editDialog, year: e.target.value })
+                }
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setEditDialog({ ...editDialog, open: false, documentId: null })}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={confirmEdit}
+              disabled={isSaving || !editDialog.county || !editDialog.title.trim() || !editDialog.year}
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog
         open={deleteDialog.open}
@@ -264,7 +659,8 @@ export default function DocumentList({ onUploadClick }: DocumentListProps) {
             <DialogDescription>
               Are you sure you want to delete this document? This action cannot
               be undone. All associated chunks and embeddings will be removed
-              from the database.
+              from the database. Deleting the latest version makes the previous
+              version current again.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -13,12 +13,42 @@ import {
 } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { FileText, Upload, X, Loader2, AlertCircle } from "lucide-react";
-import { COLORADO_COUNTIES, type ColoradoCounty } from "@/lib/types";
+import {
+  FileText,
+  Upload,
+  X,
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+  XCircle,
+  History,
+  Eye,
+} from "lucide-react";
+import {
+  CHUNKING_STRATEGIES,
+  CHUNKING_STRATEGY_INFO,
+  COLORADO_COUNTIES,
+  type ChunkingOptions,
+  type ChunkingStrategyName,
+  type ColoradoCounty,
+  type DocumentPreview,
+  type UploadedDocument,
+} from "@/lib/types";
+import type { BulkUploadResponse, ChunkingSelection } from "@/lib/api-client";
 import { useToast } from "@/components/ui/use-toast";
+import ChunkingPreview from "@/components/chunking-preview";
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const MAX_ZIP_SIZE = 50 * 1024 * 1024; // 50MB
 const CURRENT_YEAR = 2025;
+const ACCEPTED_EXTENSIONS = [".md", ".markdown", ".pdf", ".docx", ".html", ".htm", ".zip"];
+
+const CHUNKING_OPTION_LABELS: Record<keyof ChunkingOptions, string> = {
+  chunkSize: "Chunk size",
+  overlap: "Overlap",
+  windowSize: "Window (sentences)",
+  stride: "Stride (sentences)",
+};
 
 interface DocumentMetadata {
   county: ColoradoCounty | "";
@@ -26,7 +56,17 @@ interface DocumentMetadata {
   year: number;
 }
 
-export default function DocumentUpload() {
+interface DocumentUploadProps {
+  supersedes?: UploadedDocument | null; // Upload as a new version of this document
+  onCancelNewVersion?: () => void;
+  onUploaded?: () => void;
+}
+
+export default function DocumentUpload({
+  supersedes,
+  onCancelNewVersion,
+  onUploaded,
+}: DocumentUploadProps) {
   const { toast } = useToast();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -37,32 +77,79 @@ export default function DocumentUpload() {
   });
   const [preview, setPreview] = useState<{
     content: string;
-    headers: string[];
     size: string;
   } | null>(null);
+  // Server-side dry run of the chunking, approved before uploading
+  const [chunkingPreview, setChunkingPreview] = useState<DocumentPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string>("");
+  const [bulkReport, setBulkReport] = useState<BulkUploadResponse | null>(null);
+  const [chunkingStrategy, setChunkingStrategy] =
+    useState<ChunkingStrategyName>("section-aware");
+  // Raw input values; blank options fall back to the strategy defaults
+  const [chunkingOptions, setChunkingOptions] = useState<
+    Partial<Record<keyof ChunkingOptions, string>>
+  >({});
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const isZip = selectedFile?.name.toLowerCase().endsWith(".zip") ?? false;
+
+  // A new version keeps the county and title of the document it replaces
+  useEffect(() => {
+    if (supersedes) {
+      setMetadata((current) => ({
+        ...current,
+        county: supersedes.county,
+        title: supersedes.title,
+      }));
+    }
+  }, [supersedes]);
+
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return bytes + " B";
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(2) + " KB";
     return (bytes / (1024 * 1024)).toFixed(2) + " MB";
   };
 
-  const extractHeaders = (content: string): string[] => {
-    const headerRegex = /^#{1,2}\s+(.+)$/gm;
-    const headers: string[] = [];
-    let match;
-    while ((match = headerRegex.exec(content)) !== null) {
-      headers.push(match[1]);
-    }
-    return headers.slice(0, 5); // Show first 5 headers
+  // Prefill the form from simple `key: value` frontmatter lines; the server
+  // does the full YAML parse and validation
+  const extractFrontmatterFields = (
+    content: string
+  ): Partial<DocumentMetadata> => {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+    if (!match) return {};
+
+    const fields: Partial<DocumentMetadata> = {};
+    match[1].split(/\r?\n/).forEach((line) => {
+      const pair = line.match(/^([\w-]+):\s*["']?(.*?)["']?\s*$/);
+      if (!pair) return;
+
+      const key = pair[1].toLowerCase();
+      const value = pair[2];
+      if (key === "county") {
+        const name = value.replace(/\s+county$/i, "").toLowerCase();
+        const county = COLORADO_COUNTIES.find((c) => c.toLowerCase() === name);
+        if (county) fields.county = county;
+      } else if (key === "title" || key === "document_title") {
+        fields.title = value;
+      } else if (key === "year" && !isNaN(parseInt(value, 10))) {
+        fields.year = parseInt(value, 10);
+      }
+    });
+
+    return fields;
   };
 
   const validateFile = (file: File): string | null => {
-    if (!file.name.endsWith(".md") && !file.name.endsWith(".markdown")) {
-      return "Only markdown files (.md, .markdown) are accepted";
+    const fileName = file.name.toLowerCase();
+    if (!ACCEPTED_EXTENSIONS.some((ext) => fileName.endsWith(ext))) {
+      return "Only markdown (.md, .markdown), PDF (.pdf), Word (.docx), HTML (.html) and ZIP (.zip) files are accepted";
+    }
+    if (fileName.endsWith(".zip")) {
+      return file.size > MAX_ZIP_SIZE
+        ? `Archive size must be less than ${formatFileSize(MAX_ZIP_SIZE)}`
+        : null;
     }
     if (file.size > MAX_FILE_SIZE) {
       return `File size must be less than ${formatFileSize(MAX_FILE_SIZE)}`;
@@ -72,6 +159,8 @@ export default function DocumentUpload() {
 
   const handleFile = async (file: File) => {
     setError("");
+    setBulkReport(null);
+    setChunkingPreview(null);
 
     const validationError = validateFile(file);
     if (validationError) {
@@ -81,14 +170,39 @@ export default function DocumentUpload() {
 
     setSelectedFile(file);
 
+    // ZIP archives are unpacked server-side; form values act as defaults
+    const fileName = file.name.toLowerCase();
+    if (fileName.endsWith(".zip")) {
+      setPreview({
+        content:
+          "Each document in the archive is processed separately. Add a manifest.json to set county, title and year per file; the county and year below are used as defaults.",
+        size: formatFileSize(file.size),
+      });
+      return;
+    }
+
+    // PDF and Word files are converted server-side; their text shows up in
+    // the chunking preview
+    if (fileName.endsWith(".pdf") || fileName.endsWith(".docx")) {
+      setPreview({
+        content: fileName.endsWith(".pdf")
+          ? "PDF text, headings and page numbers are extracted on the server. Preview the chunks to review them."
+          : "Word headings, lists and tables are converted on the server. Preview the chunks to review them.",
+        size: formatFileSize(file.size),
+      });
+      return;
+    }
+
     // Read file content for preview
     const reader = new FileReader();
     reader.onload = (e) => {
       const content = e.target?.result as string;
-      const headers = extractHeaders(content);
+      const frontmatterFields = extractFrontmatterFields(content);
+      if (Object.keys(frontmatterFields).length > 0) {
+        setMetadata((current) => ({ ...current, ...frontmatterFields }));
+      }
       setPreview({
         content: content.substring(0, 500),
-        headers,
         size: formatFileSize(file.size),
       });
     };
@@ -124,9 +238,10 @@ export default function DocumentUpload() {
   const handleClear = () => {
     setSelectedFile(null);
     setPreview(null);
+    setChunkingPreview(null);
     setMetadata({
-      county: "",
-      title: "",
+      county: supersedes?.county ?? "",
+      title: supersedes?.title ?? "",
       year: CURRENT_YEAR,
     });
     setError("");
@@ -135,30 +250,121 @@ export default function DocumentUpload() {
     }
   };
 
+  // Only send options the selected strategy accepts
+  const getChunkingSelection = (): ChunkingSelection => {
+    const options: ChunkingOptions = {};
+    CHUNKING_STRATEGY_INFO[chunkingStrategy].options.forEach((option) => {
+      const value = chunkingOptions[option];
+      if (value) options[option] = parseInt(value, 10);
+    });
+    return { chunkingStrategy, chunkingOptions: options };
+  };
+
+  // Chunk the file server-side without embedding it, for review before upload
+  const handlePreview = async () => {
+    if (!selectedFile) return;
+
+    setIsPreviewing(true);
+    setError("");
+
+    try {
+      const { previewUpload } = await import("@/lib/api-client");
+
+      setChunkingPreview(
+        await previewUpload(selectedFile, {
+          county: metadata.county || undefined,
+          title: metadata.title || undefined,
+          year: metadata.year,
+          ...getChunkingSelection(),
+        })
+      );
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to preview document";
+      setError(errorMessage);
+      console.error("Preview error:", err);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleBulkUpload = async (file: File) => {
+    const { uploadZipArchive } = await import("@/lib/api-client");
+
+    const report = await uploadZipArchive(file, {
+      county: metadata.county || undefined,
+      year: metadata.year,
+      ...getChunkingSelection(),
+    });
+
+    toast({
+      title: report.failed ? "Bulk upload finished with errors" : "Bulk upload complete",
+      description: report.message,
+      variant: report.failed ? "destructive" : "default",
+    });
+
+    // Clear form but keep the report visible
+    handleClear();
+    setBulkReport(report);
+    onUploaded?.();
+  };
+
   const handleUpload = async () => {
-    if (!selectedFile || !metadata.county || !metadata.title) return;
+    if (!selectedFile) return;
+    if (!isZip && (!metadata.county || !metadata.title)) return;
+    if (isZip && supersedes) {
+      setError("A new version must be a single document, not a ZIP archive");
+      return;
+    }
 
     setIsUploading(true);
     setError("");
 
     try {
+      if (isZip) {
+        await handleBulkUpload(selectedFile);
+        return;
+      }
+
       const { uploadDocument } = await import("@/lib/api-client");
 
       // Upload document with real API
       const result = await uploadDocument(selectedFile, {
-        county: metadata.county,
+        county: metadata.county as ColoradoCounty,
         title: metadata.title,
         year: metadata.year,
+        supersedes: supersedes?.id,
+        ...getChunkingSelection(),
       });
 
       // Show success toast
-      toast({
-        title: "Document uploaded successfully",
-        description: `"${metadata.title}" processed into ${result.chunkCount} chunks from ${result.sections?.length || 0} sections`,
-      });
+      if (result.duplicate) {
+        toast({
+          title: "Document already uploaded",
+          description: `This file matches existing document ${result.documentId}; nothing was reprocessed`,
+        });
+      } else {
+        toast({
+          title: result.supersededDocumentId
+            ? `Version ${result.version} uploaded successfully`
+            : "Document uploaded successfully",
+          description: `"${metadata.title}" processed into ${result.chunkCount} chunks from ${result.sections?.length || 0} sections${
+            result.pageCount ? ` (${result.pageCount} pages)` : ""
+          }${result.coverage ? `; ${result.coverage.percent}% of the text is in a chunk` : ""}`,
+        });
+      }
+
+      // Overlap and coverage warnings do not block the upload but should not go unnoticed
+      if (result.warnings && result.warnings.length > 0) {
+        toast({
+          title: "Upload warnings",
+          description: result.warnings.join("; "),
+          variant: "destructive",
+        });
+      }
 
       // Clear form
       handleClear();
+      onUploaded?.();
     } catch (err) {
       let errorMessage = "Failed to upload document. Please try again.";
 
@@ -179,10 +385,36 @@ export default function DocumentUpload() {
   };
 
   const isFormValid =
-    selectedFile && metadata.county && metadata.title && !isUploading;
+    selectedFile && (isZip || (metadata.county && metadata.title)) && !isUploading;
+
+  // Single documents are previewed and approved before they are embedded
+  const needsPreview = !isZip && !chunkingPreview;
 
   return (
     <div className="space-y-6">
+      {/* New Version Banner */}
+      {supersedes && (
+        <Alert>
+          <History className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            <span>
+              Uploading a new version of &quot;{supersedes.title}&quot; (currently v
+              {supersedes.version ?? 1}). The current version will be superseded and
+              excluded from search once the upload completes.
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={onCancelNewVersion}
+              disabled={isUploading}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* File Upload Area */}
       <Card>
         <CardContent className="pt-6">
@@ -200,7 +432,7 @@ export default function DocumentUpload() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".md,.markdown"
+              accept={ACCEPTED_EXTENSIONS.join(",")}
               onChange={handleFileInput}
               className="hidden"
             />
@@ -209,14 +441,15 @@ export default function DocumentUpload() {
               <Upload className="h-12 w-12 text-muted-foreground" />
               <div>
                 <p className="font-medium">
-                  Drag and drop your markdown file here
+                  Drag and drop your document here
                 </p>
                 <p className="text-sm text-muted-foreground">
                   or click to browse
                 </p>
               </div>
               <div className="text-xs text-muted-foreground space-y-1">
-                <p>Max 5MB • Markdown files (.md, .markdown)</p>
+                <p>Max 5MB • Markdown, PDF, Word (.docx) or HTML files</p>
+                <p>Or a .zip of documents (max 50MB) for bulk upload</p>
                 <p>Files should contain structured sections with headers</p>
               </div>
             </div>
@@ -262,7 +495,7 @@ export default function DocumentUpload() {
           <h3 className="font-semibold text-lg">Document Information</h3>
 
           <div className="space-y-2">
-            <Label htmlFor="county">County *</Label>
+            <Label htmlFor="county">{isZip ? "Default County" : "County *"}</Label>
             <Select
               value={metadata.county}
               onValueChange={(value) =>
@@ -292,7 +525,7 @@ export default function DocumentUpload() {
               onChange={(e) =>
                 setMetadata({ ...metadata, title: e.target.value })
               }
-              disabled={!selectedFile}
+              disabled={!selectedFile || isZip}
             />
           </div>
 
@@ -310,6 +543,53 @@ export default function DocumentUpload() {
               disabled={!selectedFile}
             />
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="chunking-strategy">Chunking Strategy</Label>
+            <Select
+              value={chunkingStrategy}
+              onValueChange={(value) => {
+                setChunkingStrategy(value as ChunkingStrategyName);
+                setChunkingOptions({});
+                setChunkingPreview(null);
+              }}
+              disabled={!selectedFile}
+            >
+              <SelectTrigger id="chunking-strategy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHUNKING_STRATEGIES.map((strategy) => (
+                  <SelectItem key={strategy} value={strategy}>
+                    {CHUNKING_STRATEGY_INFO[strategy].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {CHUNKING_STRATEGY_INFO[chunkingStrategy].description}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {CHUNKING_STRATEGY_INFO[chunkingStrategy].options.map((option) => (
+              <div key={option} className="space-y-2">
+                <Label htmlFor={`chunking-${option}`}>{CHUNKING_OPTION_LABELS[option]}</Label>
+                <Input
+                  id={`chunking-${option}`}
+                  type="number"
+                  min={option === "overlap" ? "0" : "1"}
+                  placeholder="Default"
+                  value={chunkingOptions[option] ?? ""}
+                  onChange={(e) => {
+                    setChunkingOptions({ ...chunkingOptions, [option]: e.target.value });
+                    setChunkingPreview(null);
+                  }}
+                  disabled={!selectedFile}
+                />
+              </div>
+            ))}
+          </div>
         </CardContent>
       </Card>
 
@@ -319,17 +599,6 @@ export default function DocumentUpload() {
           <CardContent className="pt-6 space-y-4">
             <h3 className="font-semibold text-lg">Preview</h3>
 
-            {preview.headers.length > 0 && (
-              <div>
-                <p className="text-sm font-medium mb-2">Detected Headers:</p>
-                <ul className="text-sm text-muted-foreground space-y-1">
-                  {preview.headers.map((header, index) => (
-                    <li key={index}>• {header}</li>
-                  ))}
-                </ul>
-              </div>
-            )}
-
             <div>
               <p className="text-sm font-medium mb-2">Content Preview:</p>
               <div className="bg-muted p-4 rounded-md text-sm font-mono overflow-x-auto">
@@ -341,24 +610,92 @@ export default function DocumentUpload() {
         </Card>
       )}
 
+      {/* Chunking Preview */}
+      {chunkingPreview && <ChunkingPreview preview={chunkingPreview} />}
+
+      {/* Bulk Upload Report */}
+      {bulkReport && bulkReport.files && (
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <h3 className="font-semibold text-lg">Bulk Upload Report</h3>
+            <p className="text-sm text-muted-foreground">{bulkReport.message}</p>
+
+            <ul className="text-sm space-y-2">
+              {bulkReport.files.map((file) => (
+                <li key={file.fileName} className="flex items-start gap-2">
+                  {file.success ? (
+                    <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600 shrink-0" />
+                  ) : (
+                    <XCircle className="h-4 w-4 mt-0.5 text-destructive shrink-0" />
+                  )}
+                  <div>
+                    <p className="font-medium">{file.fileName}</p>
+                    <p className="text-muted-foreground">
+                      {file.success
+                        ? file.duplicate
+                          ? `Already uploaded as ${file.documentId}`
+                          : `${file.chunkCount} chunks stored`
+                        : file.error}
+                    </p>
+                    {file.warnings?.map((warning) => (
+                      <p key={warning} className="text-xs text-amber-600">
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {[...(bulkReport.skipped || []).map((name) => `Skipped unsupported file: ${name}`), ...(bulkReport.warnings || [])].map(
+              (warning) => (
+                <p key={warning} className="text-xs text-muted-foreground">
+                  {warning}
+                </p>
+              )
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Action Button */}
-      <Button
-        onClick={handleUpload}
-        disabled={!isFormValid}
-        className="w-full"
-      >
-        {isUploading ? (
-          <>
-            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-            Uploading...
-          </>
-        ) : (
-          <>
-            <Upload className="h-4 w-4 mr-2" />
-            Upload Document
-          </>
-        )}
-      </Button>
+      {needsPreview ? (
+        <Button
+          onClick={handlePreview}
+          disabled={!selectedFile || isPreviewing}
+          className="w-full"
+        >
+          {isPreviewing ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Chunking...
+            </>
+          ) : (
+            <>
+              <Eye className="h-4 w-4 mr-2" />
+              Preview Chunks
+            </>
+          )}
+        </Button>
+      ) : (
+        <Button
+          onClick={handleUpload}
+          disabled={!isFormValid}
+          className="w-full"
+        >
+          {isUploading ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Uploading...
+            </>
+          ) : (
+            <>
+              <Upload className="h-4 w-4 mr-2" />
+              {isZip ? "Upload Archive" : "Approve and Upload"}
+            </>
+          )}
+        </Button>
+      )}
     </div>
   );
 }
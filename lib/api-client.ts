@@ -1,4 +1,14 @@
-import { ColoradoCounty, UploadedDocument } from './types';
+import {
+  ChunkingOptions,
+  ChunkingStrategyName,
+  ColoradoCounty,
+  CoverageReport,
+  DocumentDetail,
+  DocumentMetadata,
+  DocumentPreview,
+  RerankerName,
+  UploadedDocument,
+} from './types';
 
 /**
  * API Response Types
@@ -10,6 +20,42 @@ export interface UploadResponse {
   chunkCount?: number;
   vectorCount?: number;
   sections?: string[];
+  pageCount?: number;
+  metadata?: DocumentMetadata;
+  chunkingStrategy?: ChunkingStrategyName;
+  chunkingOptions?: ChunkingOptions;
+  version?: number;
+  supersededDocumentId?: string;
+  duplicate?: boolean;
+  coverage?: CoverageReport;
+  warnings?: string[];
+  message?: string;
+  error?: string;
+}
+
+export interface PreviewResponse extends DocumentPreview {
+  success: boolean;
+}
+
+export interface BulkFileReport {
+  fileName: string;
+  success: boolean;
+  documentId?: string;
+  chunkCount?: number;
+  vectorCount?: number;
+  duplicate?: boolean;
+  warnings?: string[];
+  error?: string;
+}
+
+export interface BulkUploadResponse {
+  success: boolean;
+  total?: number;
+  succeeded?: number;
+  failed?: number;
+  skipped?: string[];
+  warnings?: string[];
+  files?: BulkFileReport[];
   message?: string;
   error?: string;
 }
@@ -18,18 +64,68 @@ export interface ChatSource {
   county: string;
   documentTitle: string;
   section?: string;
+  pages?: string;
+}
+
+export interface ChatChunkScore {
+  id: string;
+  county: string;
+  documentTitle: string;
+  distance: number;
+  score?: number; // Hybrid search fused score
+  rerankScore?: number; // 0-1, when a reranker ran
 }
 
 export interface ChatMetadata {
   type: 'metadata';
   sources: ChatSource[];
   chunksUsed: number;
+  reranker?: RerankerName | null; // Reranker that ordered the chunks, null when off
+  chunks?: ChatChunkScore[]; // Absent when nothing was found
 }
 
 export interface DocumentsResponse {
   documents: UploadedDocument[];
 }
 
+export interface UpdateDocumentResponse {
+  success: boolean;
+  document?: UploadedDocument;
+  chunksUpdated?: number;
+  message?: string;
+  error?: string;
+}
+
+export interface ReprocessResponse {
+  success: boolean;
+  documentId?: string;
+  previousChunkCount?: number;
+  chunkCount?: number;
+  chunkingStrategy?: ChunkingStrategyName;
+  chunkingOptions?: ChunkingOptions;
+  message?: string;
+  error?: string;
+}
+
+export interface ReprocessProgress {
+  index: number;
+  total: number;
+  documentId: string;
+  title: string;
+  success: boolean;
+  skipped?: boolean;
+  previousChunkCount?: number;
+  chunkCount?: number;
+  error?: string;
+}
+
+export interface ReprocessSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
 export interface DeleteResponse {
   success: boolean;
   message?: string;
@@ -98,16 +194,41 @@ async function retryWithBackoff<T>(
   throw lastError!;
 }
 
+/**
+ * Chunking strategy and options sent with an upload
+ */
+export interface ChunkingSelection {
+  chunkingStrategy?: ChunkingStrategyName;
+  chunkingOptions?: ChunkingOptions;
+}
+
+/**
+ * Add chunking form fields to an upload
+ */
+function appendChunkingFields(formData: FormData, chunking: ChunkingSelection): void {
+  if (chunking.chunkingStrategy) {
+    formData.append('chunkingStrategy', chunking.chunkingStrategy);
+  }
+  if (chunking.chunkingOptions && Object.keys(chunking.chunkingOptions).length > 0) {
+    formData.append('chunkingOptions', JSON.stringify(chunking.chunkingOptions));
+  }
+}
+
 /**
  * Upload a document to the server
  *
- * @param file - The markdown file to upload
- * @param metadata - Document metadata (county, title, year)
+ * @param file - The markdown or PDF file to upload
+ * @param metadata - Document metadata (county, title, year) and optional chunking strategy
  * @returns Promise with upload response
  */
 export async function uploadDocument(
   file: File,
-  metadata: { county: ColoradoCounty; title: string; year: number }
+  metadata: {
+    county: ColoradoCounty;
+    title: string;
+    year: number;
+    supersedes?: string;
+  } & ChunkingSelection
 ): Promise<UploadResponse> {
   return retryWithBackoff(async () => {
     const formData = new FormData();
@@ -115,6 +236,10 @@ export async function uploadDocument(
     formData.append('county', metadata.county);
     formData.append('documentTitle', metadata.title);
     formData.append('year', metadata.year.toString());
+    if (metadata.supersedes) {
+      formData.append('supersedes', metadata.supersedes);
+    }
+    appendChunkingFields(formData, metadata);
 
     const response = await fetch('/api/upload', {
       method: 'POST',
@@ -135,16 +260,91 @@ export async function uploadDocument(
   });
 }
 
+/**
+ * Preview how a document would be chunked, without embedding or storing it
+ *
+ * @param file - The file to preview
+ * @param metadata - Optional metadata and the chunking strategy to preview
+ * @returns Promise with the chunks, section tree, size histogram and warnings
+ */
+export async function previewUpload(
+  file: File,
+  metadata: { county?: ColoradoCounty; title?: string; year?: number } & ChunkingSelection = {}
+): Promise<PreviewResponse> {
+  return retryWithBackoff(async () => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (metadata.county) formData.append('county', metadata.county);
+    if (metadata.title) formData.append('documentTitle', metadata.title);
+    if (metadata.year) formData.append('year', metadata.year.toString());
+    appendChunkingFields(formData, metadata);
+
+    const response = await fetch('/api/upload/preview', {
+      method: 'POST',
+      body: formData,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new APIError(
+        data.error || 'Preview failed',
+        response.status,
+        data.details
+      );
+    }
+
+    return data;
+  });
+}
+
+/**
+ * Upload a ZIP archive of documents for bulk processing
+ * Not retried: a retry after a partial failure would duplicate stored files
+ *
+ * @param file - The ZIP archive (may include manifest.json)
+ * @param defaults - Optional metadata and chunking strategy applied to every file in the archive
+ * @returns Promise with the per-file batch report
+ */
+export async function uploadZipArchive(
+  file: File,
+  defaults: { county?: ColoradoCounty; title?: string; year?: number } & ChunkingSelection = {}
+): Promise<BulkUploadResponse> {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (defaults.county) formData.append('county', defaults.county);
+  if (defaults.title) formData.append('documentTitle', defaults.title);
+  if (defaults.year) formData.append('year', defaults.year.toString());
+  appendChunkingFields(formData, defaults);
+
+  const response = await fetch('/api/upload/bulk', {
+    method: 'POST',
+    body: formData,
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new APIError(
+      data.error || 'Bulk upload failed',
+      response.status,
+      data.details
+    );
+  }
+
+  return data;
+}
+
 /**
  * Send a chat message and receive streaming response
  *
  * @param message - The user's message
- * @param options - Optional filters (county)
+ * @param options - Optional filters (county, as-of date for superseded versions) and per-document / per-county context caps
  * @returns ReadableStream of response chunks
  */
 export async function sendChatMessage(
   message: string,
-  options?: { county?: string }
+  options?: { county?: string; asOf?: string; maxPerDocument?: number; maxPerCounty?: number }
 ): Promise<ReadableStream<Uint8Array>> {
   const response = await fetch('/api/chat', {
     method: 'POST',
@@ -154,6 +354,9 @@ export async function sendChatMessage(
     body: JSON.stringify({
       message,
       county: options?.county,
+      asOf: options?.asOf,
+      maxPerDocument: options?.maxPerDocument,
+      maxPerCounty: options?.maxPerCounty,
     }),
   });
 
@@ -275,12 +478,184 @@ export async function fetchDocuments(): Promise<UploadedDocument[]> {
     const documents: UploadedDocument[] = (data.documents || []).map((doc: UploadedDocument) => ({
       ...doc,
       uploadedAt: new Date(doc.uploadedAt),
+      supersededAt: doc.supersededAt ? new Date(doc.supersededAt) : undefined,
     }));
 
     return documents;
   });
 }
 
+/**
+ * Fetch a document with its chunks, section tree and chunk statistics
+ *
+ * @param documentId - The document ID
+ * @returns Promise with the document detail
+ */
+export async function fetchDocumentDetail(documentId: string): Promise<DocumentDetail> {
+  return retryWithBackoff(async () => {
+    const response = await fetch(`/api/documents/${encodeURIComponent(documentId)}`);
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new APIError(
+        data.error || 'Failed to fetch document',
+        response.status,
+        data.details
+      );
+    }
+
+    return {
+      ...data,
+      document: {
+        ...data.document,
+        uploadedAt: new Date(data.document.uploadedAt),
+        supersededAt: data.document.supersededAt
+          ? new Date(data.document.supersededAt)
+          : undefined,
+      },
+    };
+  });
+}
+
+/**
+ * Get the URL serving a document's original uploaded file
+ *
+ * @param documentId - The document ID
+ * @param download - Download the file instead of displaying it inline
+ * @returns URL of the raw file route
+ */
+export function getDocumentRawUrl(documentId: string, download = false): string {
+  return `/api/documents/${encodeURIComponent(documentId)}/raw${download ? '?download=1' : ''}`;
+}
+
+/**
+ * Update a document's county, title and/or year
+ *
+ * @param documentId - The document ID to update
+ * @param metadata - Fields to change
+ * @returns Promise with the updated document
+ */
+export async function updateDocument(
+  documentId: string,
+  metadata: { county?: ColoradoCounty; title?: string; year?: number }
+): Promise<UpdateDocumentResponse> {
+  return retryWithBackoff(async () => {
+    const response = await fetch(`/api/documents/${documentId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(metadata),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new APIError(
+        data.error || 'Failed to update document',
+        response.status,
+        data.details
+      );
+    }
+
+    return data;
+  });
+}
+
+/**
+ * Re-chunk and re-embed a document from its stored original file
+ * Not retried: reprocessing re-embeds every chunk
+ *
+ * @param documentId - The document ID to reprocess
+ * @param chunking - Optional strategy to switch to (defaults to the stored one)
+ * @returns Promise with old and new chunk counts
+ */
+export async function reprocessDocument(
+  documentId: string,
+  chunking?: ChunkingSelection
+): Promise<ReprocessResponse> {
+  const response = await fetch(`/api/documents/${encodeURIComponent(documentId)}/reprocess`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(chunking ?? {}),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new APIError(
+      data.error || 'Failed to reprocess document',
+      response.status,
+      data.details
+    );
+  }
+
+  return data;
+}
+
+/**
+ * Reprocess every document with a stored original, reporting progress
+ *
+ * @param onProgress - Called after each document
+ * @param options - Optional county filter
+ * @returns Promise with the batch summary
+ */
+export async function reprocessAllDocuments(
+  onProgress: (progress: ReprocessProgress) => void,
+  options?: { county?: string }
+): Promise<ReprocessSummary> {
+  const response = await fetch('/api/documents/reprocess', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ county: options?.county }),
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({ error: 'Failed to reprocess documents' }));
+    throw new APIError(
+      data.error || 'Failed to reprocess documents',
+      response.status,
+      data.details
+    );
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // Process complete SSE messages (separated by \n\n)
+      buffer += decoder.decode(value, { stream: true });
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop() || '';
+
+      for (const message of messages) {
+        if (!message.startsWith('data: ')) continue;
+
+        const data = JSON.parse(message.slice(6));
+        if (data.type === 'progress') {
+          onProgress(data as ReprocessProgress);
+        } else if (data.type === 'complete') {
+          return data as ReprocessSummary;
+        } else if (data.type === 'error') {
+          throw new APIError(data.error || 'Failed to reprocess documents', 500);
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  throw new NetworkError('Reprocess stream ended before completion');
+}
+
 /**
  * Delete a document by ID
  *
@@ -0,0 +1,313 @@
+import JSZip from "jszip";
+import { RAG_CONFIG } from "./constants";
+import { isSupportedFile } from "./document-converter";
+import {
+  ChunkingRequest,
+  ingestDocument,
+  IngestionError,
+  IngestionFields,
+  resolveChunkingRequest,
+} from "./ingestion";
+import { Readable } from "stream";
+
+/**
+ * Per-file metadata from manifest.json
+ */
+export type ManifestEntry = IngestionFields;
+
+/**
+ * Outcome of ingesting a single archive entry
+ */
+export interface BulkFileReport {
+  fileName: string;
+  success: boolean;
+  documentId?: string;
+  chunkCount?: number;
+  vectorCount?: number;
+  duplicate?: boolean; // Identical file already uploaded; existing document returned
+  warnings?: string[];
+  error?: string;
+}
+
+/**
+ * Outcome of ingesting a whole archive
+ */
+export interface BulkIngestionReport {
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: string[]; // Entries that are not supported document files
+  warnings: string[];
+  files: BulkFileReport[];
+}
+
+const MANIFEST_FILE_NAME = "manifest.json";
+
+/**
+ * Get the file name without any directory prefix
+ */
+function baseName(path: string): string {
+  return path.split("/").pop() || path;
+}
+
+/**
+ * Parse manifest.json into a map of file path -> metadata
+ * Accepts either an object keyed by file path ({ "a.md": {...} }, optionally
+ * wrapped in "files") or an array of entries with a "file" property
+ */
+export function parseManifest(text: string): Map<string, ManifestEntry> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new IngestionError(`Invalid ${MANIFEST_FILE_NAME}: ${message}`, 400);
+  }
+
+  const manifest = new Map<string, ManifestEntry>();
+  const toEntry = (value: Record<string, unknown>): ManifestEntry => ({
+    county: value.county !== undefined ? String(value.county) : undefined,
+    title:
+      value.title !== undefined || value.documentTitle !== undefined
+        ? String(value.title ?? value.documentTitle)
+        : undefined,
+    year: value.year !== undefined ? String(value.year) : undefined,
+  });
+
+  const container =
+    raw && typeof raw === "object" && !Array.isArray(raw) && "files" in raw
+      ? (raw as { files: unknown }).files
+      : raw;
+
+  if (Array.isArray(container)) {
+    container.forEach((value) => {
+      if (value && typeof value === "object" && typeof value.file === "string") {
+        manifest.set(value.file, toEntry(value));
+      }
+    });
+  } else if (container && typeof container === "object") {
+    Object.entries(container as Record<string, unknown>).forEach(([file, value]) => {
+      if (value && typeof value === "object") {
+        manifest.set(file, toEntry(value as Record<string, unknown>));
+      }
+    });
+  } else {
+    throw new IngestionError(
+      `Invalid ${MANIFEST_FILE_NAME}: expected an object keyed by file name or an array of entries`,
+      400
+    );
+  }
+
+  return manifest;
+}
+
+/**
+ * Decompress an entry, giving up as soon as it inflates past maxBytes
+ * A crafted archive can understate its declared sizes, so the inflated bytes
+ * are counted rather than trusted
+ *
+ * @throws IngestionError (400) with tooLargeMessage once maxBytes is passed
+ */
+function readEntry(
+  entry: JSZip.JSZipObject,
+  maxBytes: number,
+  tooLargeMessage: string
+): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream("nodebuffer") as Readable;
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stream.destroy();
+        reject(new IngestionError(tooLargeMessage, 400));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => {
+      const buffer = Buffer.concat(chunks, size);
+      resolve(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+    });
+    stream.on("error", reject);
+  });
+}
+
+/**
+ * Ingest every supported document in a ZIP archive
+ * Each file is stored in its own transaction, so one bad file never rolls
+ * back the others. Metadata precedence per file: manifest entry, then batch
+ * defaults, then the file's frontmatter.
+ * The entry count is checked before anything is decompressed, and
+ * decompression stops at MAX_FILE_SIZE per file and
+ * MAX_ZIP_UNCOMPRESSED_SIZE in total, so a zip bomb cannot exhaust memory.
+ * Expects the database to be initialized by the caller
+ *
+ * @param data - Raw ZIP bytes
+ * @param defaults - Batch-wide metadata (e.g. a county for the whole archive)
+ * @param uploadedBy - Optional uploader recorded on every document
+ * @param chunking - Optional chunking strategy used for every document
+ * @returns Per-file success/failure report
+ */
+export async function ingestZipArchive(
+  data: ArrayBuffer,
+  defaults: IngestionFields = {},
+  uploadedBy?: string,
+  chunking?: ChunkingRequest
+): Promise<BulkIngestionReport> {
+  // Reject bad chunking options once, rather than failing every file
+  resolveChunkingRequest(chunking);
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new IngestionError(`Failed to read ZIP archive: ${message}`, 400);
+  }
+
+  // Counted before filtering, so folders and ignored files count too
+  const entryCount = Object.keys(zip.files).length;
+  if (entryCount > RAG_CONFIG.MAX_ZIP_ENTRIES) {
+    throw new IngestionError(
+      `ZIP archive contains ${entryCount} entries (max ${RAG_CONFIG.MAX_ZIP_ENTRIES})`,
+      400
+    );
+  }
+
+  const entries = Object.values(zip.files).filter(
+    (entry) =>
+      !entry.dir &&
+      !entry.name.startsWith("__MACOSX/") &&
+      !baseName(entry.name).startsWith(".")
+  );
+
+  // manifest.json lives in the archive root (or the only top-level folder)
+  const manifestEntry = entries.find(
+    (entry) => baseName(entry.name) === MANIFEST_FILE_NAME && entry.name.split("/").length <= 2
+  );
+
+  const skipped: string[] = [];
+  const documents = entries.filter((entry) => {
+    if (entry === manifestEntry) return false;
+    if (!isSupportedFile(entry.name)) {
+      skipped.push(entry.name);
+      return false;
+    }
+    return true;
+  });
+
+  if (documents.length === 0) {
+    throw new IngestionError("ZIP archive contains no supported documents", 400);
+  }
+
+  if (documents.length > RAG_CONFIG.MAX_BULK_FILES) {
+    throw new IngestionError(
+      `ZIP archive contains ${documents.length} documents (max ${RAG_CONFIG.MAX_BULK_FILES})`,
+      400
+    );
+  }
+
+  // Decompressed bytes left before the archive as a whole is too large
+  let uncompressedBudget = RAG_CONFIG.MAX_ZIP_UNCOMPRESSED_SIZE;
+  const maxUncompressedMB = RAG_CONFIG.MAX_ZIP_UNCOMPRESSED_SIZE / (1024 * 1024);
+  const totalTooLarge = `ZIP archive is too large once decompressed (max ${maxUncompressedMB}MB)`;
+
+  // Read an entry within both the per-file limit and what is left of the budget
+  const readWithinLimits = async (entry: JSZip.JSZipObject): Promise<ArrayBuffer> => {
+    const fileLimited = RAG_CONFIG.MAX_FILE_SIZE <= uncompressedBudget;
+    const entryData = await readEntry(
+      entry,
+      Math.min(RAG_CONFIG.MAX_FILE_SIZE, uncompressedBudget),
+      fileLimited
+        ? `${entry.name} is too large once decompressed (max ${RAG_CONFIG.MAX_FILE_SIZE / (1024 * 1024)}MB)`
+        : totalTooLarge
+    );
+    uncompressedBudget -= entryData.byteLength;
+    return entryData;
+  };
+
+  let manifest = new Map<string, ManifestEntry>();
+  if (manifestEntry) {
+    const manifestData = await readWithinLimits(manifestEntry);
+    manifest = parseManifest(new TextDecoder().decode(manifestData));
+  }
+
+  // Manifest entries may be keyed by full path or by bare file name
+  const warnings: string[] = [];
+  const matchedManifestKeys = new Set<string>();
+  const findManifestEntry = (path: string): ManifestEntry | undefined => {
+    for (const key of [path, baseName(path)]) {
+      if (manifest.has(key)) {
+        matchedManifestKeys.add(key);
+        return manifest.get(key);
+      }
+    }
+    return undefined;
+  };
+
+  console.log(
+    `[bulk-ingestion] Processing ${documents.length} documents (${skipped.length} skipped, manifest: ${manifestEntry ? "yes" : "no"})`
+  );
+
+  const files: BulkFileReport[] = [];
+
+  // Process sequentially to stay within embedding rate limits
+  for (const [index, entry] of documents.entries()) {
+    console.log(`[bulk-ingestion] File ${index + 1}/${documents.length}: ${entry.name}`);
+
+    try {
+      const entryData = await readWithinLimits(entry);
+      const manifestFields = findManifestEntry(entry.name) || {};
+
+      const result = await ingestDocument({
+        fileName: entry.name,
+        data: entryData,
+        fields: {
+          county: manifestFields.county ?? defaults.county,
+          title: manifestFields.title ?? defaults.title,
+          year: manifestFields.year ?? defaults.year,
+        },
+        uploadedBy,
+        chunking,
+      });
+
+      files.push({
+        fileName: entry.name,
+        success: true,
+        documentId: result.documentId,
+        chunkCount: result.chunkCount,
+        vectorCount: result.vectorCount,
+        duplicate: result.duplicate,
+        warnings: result.warnings.length > 0 ? result.warnings : undefined,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error(`[bulk-ingestion] Failed to ingest ${entry.name}: ${message}`);
+      files.push({ fileName: entry.name, success: false, error: message });
+    }
+  }
+
+  manifest.forEach((_entry, key) => {
+    if (!matchedManifestKeys.has(key)) {
+      warnings.push(`${MANIFEST_FILE_NAME} entry "${key}" does not match any file in the archive`);
+    }
+  });
+
+  const succeeded = files.filter((file) => file.success).length;
+
+  console.log(
+    `[bulk-ingestion] Completed: ${succeeded} succeeded, ${files.length - succeeded} failed`
+  );
+
+  return {
+    total: files.length,
+    succeeded,
+    failed: files.length - succeeded,
+    skipped,
+    warnings,
+    files,
+  };
+}
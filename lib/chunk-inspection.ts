@@ -0,0 +1,99 @@
+import { extractContextPrefix, measureChunkOverlap } from "./md-processor";
+import { StoredChunk } from "./db/document-store";
+import { formatPageRange, resolveHeadingPath } from "./retrieval";
+import { countTokens } from "./tokenizer";
+import {
+  ChunkDetail,
+  DocumentDetail,
+  SectionSummary,
+  UploadedDocument,
+} from "./types";
+
+/**
+ * Annotate stored chunks with character and token counts, overlap and context prefixes
+ * Chunks stored before token counts were recorded are counted here
+ */
+function describeChunks(chunks: StoredChunk[]): ChunkDetail[] {
+  return chunks.map((chunk, index) => {
+    const overlapLength =
+      index > 0 ? measureChunkOverlap(chunks[index - 1].content, chunk.content) : 0;
+
+    return {
+      ...chunk,
+      headingPath: resolveHeadingPath(
+        chunk.headingPath,
+        chunk.sectionHeader,
+        chunk.subsectionHeader
+      ),
+      pages: formatPageRange(chunk.pageStart, chunk.pageEnd),
+      charCount: chunk.content.length,
+      tokenCount: chunk.tokenCount ?? countTokens(chunk.content),
+      overlapLength,
+      contextPrefix: extractContextPrefix(chunk.content.slice(overlapLength)),
+    };
+  });
+}
+
+/**
+ * Rebuild the section tree from chunk breadcrumbs, in document order
+ */
+export function buildSectionTree(
+  chunks: Array<Pick<ChunkDetail, "headingPath" | "charCount">>
+): SectionSummary[] {
+  const sections: SectionSummary[] = [];
+
+  chunks.forEach((chunk) => {
+    const path = chunk.headingPath.length > 0 ? chunk.headingPath : ["(No section)"];
+    let siblings = sections;
+
+    path.forEach((title) => {
+      let node = siblings[siblings.length - 1];
+      if (!node || node.title !== title) {
+        node = { title, chunkCount: 0, charCount: 0, subsections: [] };
+        siblings.push(node);
+      }
+      node.chunkCount++;
+      node.charCount += chunk.charCount;
+      siblings = node.subsections;
+    });
+  });
+
+  return sections;
+}
+
+/**
+ * Build the document detail view: ordered chunks with overlap and
+ * embedding status, the section tree and size statistics
+ *
+ * @param document - The document
+ * @param storedChunks - Its chunks in chunk order
+ * @returns Document detail for the API and detail page
+ */
+export function buildDocumentDetail(
+  document: UploadedDocument,
+  storedChunks: StoredChunk[]
+): DocumentDetail {
+  const chunks = describeChunks(storedChunks);
+  const sizes = chunks.map((chunk) => chunk.charCount);
+  const totalChars = sizes.reduce((sum, size) => sum + size, 0);
+  const tokenSizes = chunks.map((chunk) => chunk.tokenCount);
+  const totalTokens = tokenSizes.reduce((sum, size) => sum + size, 0);
+
+  return {
+    document,
+    chunks,
+    sections: buildSectionTree(chunks),
+    stats: {
+      chunkCount: chunks.length,
+      embeddedCount: chunks.filter((chunk) => chunk.hasEmbedding).length,
+      totalChars,
+      minChars: sizes.length > 0 ? Math.min(...sizes) : 0,
+      maxChars: sizes.length > 0 ? Math.max(...sizes) : 0,
+      averageChars: sizes.length > 0 ? Math.round(totalChars / sizes.length) : 0,
+      totalTokens,
+      minTokens: tokenSizes.length > 0 ? Math.min(...tokenSizes) : 0,
+      maxTokens: tokenSizes.length > 0 ? Math.max(...tokenSizes) : 0,
+      averageTokens: tokenSizes.length > 0 ? Math.round(totalTokens / tokenSizes.length) : 0,
+    },
+  };
+}
@@ -0,0 +1,206 @@
+import { buildSectionTree } from "./chunk-inspection";
+import { RAG_CONFIG } from "./constants";
+import {
+  extractMarkdown,
+  IngestionError,
+  IngestionInput,
+  resolveChunkingRequest,
+  validateUploadFile,
+} from "./ingestion";
+import {
+  ChunkingReport,
+  findEmptySections,
+  LARGE_SECTION_CHUNK_COUNT,
+  measureCoverage,
+  processMarkdownDocument,
+} from "./md-processor";
+import { formatPageRange } from "./retrieval";
+import {
+  ChunkPreview,
+  CoverageReport,
+  DocumentMetadata,
+  DocumentPreview,
+  PreviewWarning,
+  SizeHistogramBucket,
+} from "./types";
+
+/**
+ * A file to preview: the same input as an upload, minus storage options
+ */
+export type PreviewInput = Pick<IngestionInput, "fileName" | "data" | "fields" | "chunking">;
+
+// Number of buckets the size histogram aims for
+const HISTOGRAM_BUCKETS = 10;
+
+// Characters of a merged fragment quoted in its warning
+const FRAGMENT_SNIPPET_LENGTH = 80;
+
+/**
+ * Format a breadcrumb for warning messages
+ */
+function formatBreadcrumb(headingPath: string[]): string {
+  return headingPath.length > 0 ? `"${headingPath.join(" > ")}"` : "the untitled section";
+}
+
+/**
+ * Group chunk sizes into equal-width token buckets from 0 to the largest chunk
+ * Widths are rounded up to a multiple of 10 tokens
+ */
+function buildSizeHistogram(tokenCounts: number[]): SizeHistogramBucket[] {
+  if (tokenCounts.length === 0) return [];
+
+  const largest = Math.max(...tokenCounts);
+  const width = Math.max(10, Math.ceil(largest / HISTOGRAM_BUCKETS / 10) * 10);
+  const buckets: SizeHistogramBucket[] = Array.from(
+    { length: Math.floor(largest / width) + 1 },
+    (_, index) => ({
+      minTokens: index * width,
+      maxTokens: (index + 1) * width - 1,
+      count: 0,
+    })
+  );
+
+  tokenCounts.forEach((count) => {
+    buckets[Math.floor(count / width)].count++;
+  });
+
+  return buckets;
+}
+
+/**
+ * Flag sections split into many chunks, fragments merged into a neighbour
+ * for being too small, headings with no content and text left out of every
+ * chunk
+ */
+function collectWarnings(
+  chunks: ChunkPreview[],
+  report: ChunkingReport,
+  content: string,
+  coverage: CoverageReport
+): PreviewWarning[] {
+  const warnings: PreviewWarning[] = [];
+
+  // Chunks per breadcrumb, in document order
+  const sectionChunks = new Map<string, { headingPath: string[]; count: number }>();
+  chunks.forEach((chunk) => {
+    const key = chunk.headingPath.join("\u0000");
+    const entry = sectionChunks.get(key) ?? { headingPath: chunk.headingPath, count: 0 };
+    entry.count++;
+    sectionChunks.set(key, entry);
+  });
+
+  sectionChunks.forEach(({ headingPath, count }) => {
+    if (count > LARGE_SECTION_CHUNK_COUNT) {
+      warnings.push({
+        type: "large-section",
+        headingPath,
+        message: `Section ${formatBreadcrumb(headingPath)} is split into ${count} chunks`,
+      });
+    }
+  });
+
+  report.mergedFragments.forEach((fragment) => {
+    const snippet =
+      fragment.content.length > FRAGMENT_SNIPPET_LENGTH
+        ? `${fragment.content.slice(0, FRAGMENT_SNIPPET_LENGTH)}...`
+        : fragment.content;
+    warnings.push({
+      type: "merged-fragment",
+      headingPath: fragment.headingPath,
+      message: `A ${fragment.tokenCount}-token fragment of ${formatBreadcrumb(fragment.headingPath)} is below the ${RAG_CONFIG.MIN_CHUNK_SIZE}-token minimum and was merged into the ${fragment.mergedInto} chunk: "${snippet}"`,
+    });
+  });
+
+  findEmptySections(content).forEach((headingPath) => {
+    warnings.push({
+      type: "empty-section",
+      headingPath,
+      message: `Heading ${formatBreadcrumb(headingPath)} has no content`,
+    });
+  });
+
+  if (coverage.percent < RAG_CONFIG.MIN_COVERAGE_PERCENT) {
+    warnings.push({
+      type: "low-coverage",
+      headingPath: [],
+      message: `Only ${coverage.percent}% of the document's text is in a chunk; missing: ${coverage.uncovered
+        .map((passage) => `"${passage}"`)
+        .join(", ")}`,
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Chunk a file exactly as an upload would, without embedding or storing
+ * anything, so the result can be reviewed before committing to the upload
+ * County, title and year only label the chunks, so they may still be missing
+ *
+ * @param input - File name, raw bytes, metadata fields and chunking request
+ * @returns Chunks, section tree, size histogram, coverage and warnings
+ * @throws IngestionError with the HTTP status to respond with
+ */
+export async function previewDocument(input: PreviewInput): Promise<DocumentPreview> {
+  const { fileName, data, fields } = input;
+
+  validateUploadFile(fileName, data.byteLength);
+  const chunking = resolveChunkingRequest(input.chunking);
+
+  const { content, format, pageCount, frontmatter } = await extractMarkdown(fileName, data);
+
+  if (content.trim().length === 0) {
+    throw new IngestionError("File content is empty", 400);
+  }
+
+  const metadata = {
+    ...frontmatter.metadata,
+    county: fields.county || frontmatter.metadata.county,
+    title: fields.title || frontmatter.metadata.title || fileName,
+    year: Number(fields.year) || frontmatter.metadata.year,
+  } as DocumentMetadata;
+
+  const report: ChunkingReport = { mergedFragments: [] };
+  let documentChunks;
+  try {
+    documentChunks = processMarkdownDocument(content, metadata, "preview", chunking, report);
+  } catch (error) {
+    console.error("[preview] Error processing document:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new IngestionError(`Failed to process document: ${errorMessage}`, 500);
+  }
+
+  const chunks: ChunkPreview[] = documentChunks.map((chunk) => ({
+    chunkIndex: chunk.metadata.chunkIndex,
+    content: chunk.content,
+    headingPath: chunk.metadata.headingPath ?? [],
+    pages: formatPageRange(chunk.metadata.pageStart ?? null, chunk.metadata.pageEnd ?? null),
+    charCount: chunk.content.length,
+    tokenCount: chunk.metadata.tokenCount,
+    embeddingText: chunk.embeddingContent ?? null,
+  }));
+
+  const coverage = measureCoverage(content, documentChunks);
+  const tokenSizes = chunks.map((chunk) => chunk.tokenCount);
+  const totalTokens = tokenSizes.reduce((sum, size) => sum + size, 0);
+
+  return {
+    fileName,
+    format,
+    pageCount,
+    chunkingStrategy: chunking.strategy.name,
+    chunkingOptions: chunking.options,
+    chunks,
+    sections: buildSectionTree(chunks),
+    histogram: buildSizeHistogram(tokenSizes),
+    warnings: collectWarnings(chunks, report, content, coverage),
+    coverage,
+    stats: {
+      chunkCount: chunks.length,
+      totalTokens,
+      minTokens: tokenSizes.length > 0 ? Math.min(...tokenSizes) : 0,
+      maxTokens: tokenSizes.length > 0 ? Math.max(...tokenSizes) : 0,
+      averageTokens: tokenSizes.length > 0 ? Math.round(totalTokens / tokenSizes.length) : 0,
+    },
+  };
+}
@@ -0,0 +1,372 @@
+import { randomUUID } from "crypto";
+import { RAG_CONFIG } from "./constants";
+import {
+  ChunkingReport,
+  chunkMarkdownDocument,
+  collectSections,
+  resolvePageMarkers,
+  SectionSource,
+  splitIntoSentences,
+  splitOnParagraphs,
+  stripPageMarkers,
+} from "./md-processor";
+import { countTokens, decodeTokens, encodeTokens } from "./tokenizer";
+import {
+  ChunkingOptions,
+  ChunkingStrategyName,
+  CHUNKING_STRATEGIES,
+  CHUNKING_STRATEGY_INFO,
+  DocumentChunk,
+  DocumentMetadata,
+} from "./types";
+
+/**
+ * A way of splitting a markdown document into chunks
+ * Options are validated and merged with defaultOptions before chunk is called;
+ * strategies that drop content record it in the optional report
+ */
+export interface ChunkingStrategy {
+  name: ChunkingStrategyName;
+  defaultOptions: ChunkingOptions;
+  chunk(
+    content: string,
+    metadata: DocumentMetadata,
+    documentId: string,
+    options: ChunkingOptions,
+    report?: ChunkingReport
+  ): DocumentChunk[];
+}
+
+/**
+ * A strategy together with the options to run it with
+ */
+export interface ResolvedChunking {
+  strategy: ChunkingStrategy;
+  options: ChunkingOptions;
+}
+
+// text-embedding-3 models reject inputs above 8191 tokens
+const MAX_EMBEDDING_TOKENS = 8191;
+
+/**
+ * Position and page range of a chunk within its document
+ */
+interface ChunkPlacement {
+  sectionHeader?: string;
+  subsectionHeader?: string;
+  headingPath?: string[];
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+/**
+ * Create a chunk; chunkIndex and totalChunks are set by numberChunks
+ */
+function createChunk(
+  documentId: string,
+  metadata: DocumentMetadata,
+  content: string,
+  placement: ChunkPlacement
+): DocumentChunk {
+  return {
+    id: randomUUID(),
+    documentId,
+    content,
+    metadata: {
+      ...metadata,
+      documentTitle: metadata.title,
+      chunkIndex: 0,
+      totalChunks: 0,
+      tokenCount: countTokens(content),
+      ...placement,
+    },
+  };
+}
+
+/**
+ * Set chunkIndex and totalChunks once all chunks are known
+ */
+function numberChunks(chunks: DocumentChunk[]): DocumentChunk[] {
+  chunks.forEach((chunk, index) => {
+    chunk.metadata.chunkIndex = index;
+    chunk.metadata.totalChunks = chunks.length;
+  });
+  return chunks;
+}
+
+/**
+ * The original strategy: heading sections, then paragraphs, then sentences,
+ * with a character overlap between consecutive chunks
+ */
+const sectionAwareStrategy: ChunkingStrategy = {
+  name: "section-aware",
+  defaultOptions: {
+    chunkSize: RAG_CONFIG.CHUNK_SIZE,
+    overlap: RAG_CONFIG.CHUNK_OVERLAP,
+  },
+  chunk(content, metadata, documentId, options, report) {
+    return chunkMarkdownDocument(content, metadata, documentId, options, report);
+  },
+};
+
+/**
+ * Fixed-size token windows over the whole document, ignoring structure
+ * Headers stay in the text; each chunk is filed under the section it starts in
+ */
+const fixedTokenStrategy: ChunkingStrategy = {
+  name: "fixed-token",
+  defaultOptions: { chunkSize: 256, overlap: 32 },
+  chunk(content, metadata, documentId, options) {
+    const chunkSize = options.chunkSize!;
+    const overlap = options.overlap ?? 0;
+    const sections = collectSections(content);
+
+    // Token stream of the document, with the section and page of every token
+    const tokens: number[] = [];
+    const tokenSections: number[] = [];
+    const tokenPages: Array<number | undefined> = [];
+
+    sections.forEach((section, sectionIndex) => {
+      const heading = section.title ? `${"#".repeat(section.level)} ${section.title}` : "";
+      let page = section.currentPage;
+
+      for (const line of [heading, ...section.content.split("\n")]) {
+        const resolved = resolvePageMarkers(line, page);
+        page = resolved.currentPage;
+        const isBlank = line.trim().length === 0;
+        if (resolved.text.length === 0 && !isBlank) continue; // Page marker
+
+        for (const token of encodeTokens(`${line}\n`)) {
+          tokens.push(token);
+          tokenSections.push(sectionIndex);
+          tokenPages.push(isBlank ? undefined : page);
+        }
+      }
+    });
+
+    const chunks: DocumentChunk[] = [];
+    const step = chunkSize - overlap;
+
+    for (let start = 0; start < tokens.length; start += step) {
+      const end = Math.min(start + chunkSize, tokens.length);
+      const text = decodeTokens(tokens.slice(start, end))
+        .replace(/^\uFFFD+|\uFFFD+$/g, "") // Partial characters split across windows
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+
+      if (text.length > 0) {
+        const pages = tokenPages
+          .slice(start, end)
+          .filter((page): page is number => page !== undefined);
+        const section = sections[tokenSections[start]];
+
+        chunks.push(
+          createChunk(documentId, metadata, text, {
+            sectionHeader: section.sectionHeader,
+            subsectionHeader: section.subsectionHeader,
+            headingPath: section.headingPath,
+            pageStart: pages.length > 0 ? Math.min(...pages) : undefined,
+            pageEnd: pages.length > 0 ? Math.max(...pages) : undefined,
+          })
+        );
+      }
+
+      if (end === tokens.length) break;
+    }
+
+    return numberChunks(chunks);
+  },
+};
+
+/**
+ * One chunk per section, with no overlap
+ * Sections above chunkSize tokens are split on paragraphs so every chunk
+ * can still be embedded
+ */
+const wholeSectionStrategy: ChunkingStrategy = {
+  name: "whole-section",
+  defaultOptions: { chunkSize: 8000 },
+  chunk(content, metadata, documentId, options) {
+    const maxTokens = options.chunkSize!;
+    const chunks: DocumentChunk[] = [];
+
+    collectSections(content).forEach((section) => {
+      const body = stripPageMarkers(section.content);
+      if (body.length === 0) return;
+
+      const prefixTokens = countTokens(section.contextPrefix);
+      const pieces =
+        prefixTokens + countTokens(body) <= maxTokens
+          ? [section.content]
+          : splitOnParagraphs(section.content, maxTokens - prefixTokens);
+
+      let currentPage = section.currentPage;
+      pieces.forEach((piece) => {
+        const resolved = resolvePageMarkers(piece, currentPage);
+        currentPage = resolved.currentPage;
+        if (resolved.text.length === 0) return;
+
+        // Every piece of a split section gets the prefix: there is no overlap to carry it
+        chunks.push(
+          createChunk(documentId, metadata, section.contextPrefix + resolved.text, {
+            sectionHeader: section.sectionHeader,
+            subsectionHeader: section.subsectionHeader,
+            headingPath: section.headingPath,
+            pageStart: resolved.pageStart,
+            pageEnd: resolved.pageEnd,
+          })
+        );
+      });
+    });
+
+    return numberChunks(chunks);
+  },
+};
+
+/**
+ * Group a section's sentences, attaching whitespace and page markers to the
+ * preceding sentence (or the first one, when they open the section)
+ */
+function collectSentences(section: SectionSource): string[] {
+  const sentences: string[] = [];
+  let leading = "";
+
+  for (const piece of splitIntoSentences(section.content)) {
+    if (stripPageMarkers(piece).trim().length > 0) {
+      sentences.push(leading + piece);
+      leading = "";
+    } else if (sentences.length > 0) {
+      sentences[sentences.length - 1] += piece;
+    } else {
+      leading += piece;
+    }
+  }
+
+  return sentences;
+}
+
+/**
+ * Overlapping windows of windowSize sentences, advancing stride sentences at
+ * a time; windows never cross a section boundary
+ */
+const slidingSentenceStrategy: ChunkingStrategy = {
+  name: "sliding-sentence",
+  defaultOptions: { windowSize: 5, stride: 3 },
+  chunk(content, metadata, documentId, options) {
+    const windowSize = options.windowSize!;
+    const stride = options.stride!;
+    const chunks: DocumentChunk[] = [];
+
+    collectSections(content).forEach((section) => {
+      const sentences = collectSentences(section);
+
+      // Page in effect at the start of each sentence
+      const sentencePages: Array<number | undefined> = [];
+      let currentPage = section.currentPage;
+      sentences.forEach((sentence) => {
+        sentencePages.push(currentPage);
+        currentPage = resolvePageMarkers(sentence, currentPage).currentPage;
+      });
+
+      for (let start = 0; start < sentences.length; start += stride) {
+        const end = Math.min(start + windowSize, sentences.length);
+        const resolved = resolvePageMarkers(
+          sentences.slice(start, end).join(""),
+          sentencePages[start]
+        );
+
+        if (resolved.text.length > 0) {
+          // Later windows open with the repeated sentences, so only the first gets the prefix
+          const prefix = start === 0 ? section.contextPrefix : "";
+          chunks.push(
+            createChunk(documentId, metadata, prefix + resolved.text, {
+              sectionHeader: section.sectionHeader,
+              subsectionHeader: section.subsectionHeader,
+              headingPath: section.headingPath,
+              pageStart: resolved.pageStart,
+              pageEnd: resolved.pageEnd,
+            })
+          );
+        }
+
+        if (end === sentences.length) break;
+      }
+    });
+
+    return numberChunks(chunks);
+  },
+};
+
+const STRATEGIES: Record<ChunkingStrategyName, ChunkingStrategy> = {
+  "section-aware": sectionAwareStrategy,
+  "fixed-token": fixedTokenStrategy,
+  "whole-section": wholeSectionStrategy,
+  "sliding-sentence": slidingSentenceStrategy,
+};
+
+export const DEFAULT_CHUNKING_STRATEGY: ChunkingStrategyName = "section-aware";
+
+/**
+ * Check whether a value names a chunking strategy
+ */
+export function isChunkingStrategyName(value: unknown): value is ChunkingStrategyName {
+  return CHUNKING_STRATEGIES.includes(value as ChunkingStrategyName);
+}
+
+/**
+ * Validate a strategy name and options and merge in the strategy's defaults
+ *
+ * @param name - Strategy name (section-aware when omitted)
+ * @param options - Options object, e.g. parsed from a form field
+ * @returns The strategy and its effective options
+ * @throws Error describing the invalid name or option
+ */
+export function resolveChunking(name?: string, options?: unknown): ResolvedChunking {
+  const strategyName = name || DEFAULT_CHUNKING_STRATEGY;
+  if (!isChunkingStrategyName(strategyName)) {
+    throw new Error(
+      `Unknown chunking strategy "${strategyName}". Must be one of: ${CHUNKING_STRATEGIES.join(", ")}`
+    );
+  }
+
+  const strategy = STRATEGIES[strategyName];
+  const allowed = CHUNKING_STRATEGY_INFO[strategyName].options;
+
+  if (
+    options !== undefined &&
+    options !== null &&
+    (typeof options !== "object" || Array.isArray(options))
+  ) {
+    throw new Error("Chunking options must be an object");
+  }
+
+  const resolved: ChunkingOptions = { ...strategy.defaultOptions };
+  Object.entries((options as Record<string, unknown> | null) ?? {}).forEach(([key, value]) => {
+    if (!allowed.includes(key as keyof ChunkingOptions)) {
+      throw new Error(
+        `Option "${key}" is not supported by the ${strategyName} strategy (supported: ${allowed.join(", ")})`
+      );
+    }
+    if (value === undefined || value === null) return;
+
+    // Overlap may be zero; every other option must be at least 1
+    const minimum = key === "overlap" ? 0 : 1;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < minimum) {
+      throw new Error(`Option "${key}" must be an integer of at least ${minimum}`);
+    }
+    resolved[key as keyof ChunkingOptions] = value;
+  });
+
+  const { chunkSize = 0, overlap = 0, windowSize = 0, stride = 0 } = resolved;
+  if (overlap > 0 && overlap >= chunkSize) {
+    throw new Error('Option "overlap" must be smaller than chunkSize');
+  }
+  if (strategyName !== "section-aware" && chunkSize > MAX_EMBEDDING_TOKENS) {
+    throw new Error(`Option "chunkSize" must be at most ${MAX_EMBEDDING_TOKENS} tokens`);
+  }
+  if (stride > windowSize) {
+    throw new Error('Option "stride" must not be larger than windowSize');
+  }
+
+  return { strategy, options: resolved };
+}
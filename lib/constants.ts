@@ -6,6 +6,9 @@
  * - Distance operator: <=> (cosine distance) ONLY
  * - Embedding dimensions: 1536 (text-embedding-3-small with full dimensions)
  */
+
+import type { FusionMethod, RerankerName, SearchMode } from './types';
+
 export const RAG_CONFIG = {
   // Retrieval settings
   DEFAULT_TOP_K: 5,
@@ -14,17 +17,58 @@ export const RAG_CONFIG = {
   // Embedding settings
   EMBEDDING_MODEL: 'text-embedding-3-small',
   EMBEDDING_DIMENSIONS: 1536,  // Full dimensions for best quality
+  EMBEDDING_MIGRATION_BATCH_SIZE: 100,  // Chunks re-embedded per step of a model migration
+
+  // Vector index (see lib/db/vector-index.ts)
+  HNSW_MIN_ROWS: 10000,          // Corpora this large get an HNSW index; smaller ones IVFFlat
+  HNSW_M: 16,                    // Graph links per vector
+  HNSW_EF_CONSTRUCTION: 64,      // Candidate list size while building the graph
+  HNSW_EF_SEARCH: 100,           // Candidates examined per query; raise for recall, lower for speed
+  IVFFLAT_ROWS_PER_LIST: 1000,   // IVFFlat lists = rows / this
+  IVFFLAT_PROBES: 10,            // Lists searched per query; covers every list below HNSW_MIN_ROWS, so search is exact
+
+  // Hybrid search (see lib/rank-fusion.ts)
+  DEFAULT_SEARCH_MODE: 'hybrid' as SearchMode,
+  DEFAULT_FUSION: 'rrf' as FusionMethod,
+  HYBRID_CANDIDATES: 20,         // Chunks each retriever contributes before fusion
+  KEYWORD_WEIGHT: 0.5,           // Keyword share of the fused score (vector gets the rest)
+  RRF_K: 60,                     // Reciprocal rank fusion damping; higher flattens rank differences
+
+  // Reranking (see lib/reranking.ts)
+  DEFAULT_RERANKER: 'lexical' as RerankerName,  // RERANKER overrides; llm costs a chat call per question
+  RERANK_CANDIDATES: 30,         // Chunks retrieved for the reranker to choose DEFAULT_TOP_K from
+  RERANK_MODEL: 'gpt-4o-mini',   // Chat model scoring passages for the llm reranker; RERANK_MODEL overrides
+  RERANK_MAX_PASSAGE_TOKENS: 512,  // Passage tokens shown to the llm reranker
 
-  // Chunking settings
-  CHUNK_SIZE: 1000,              // Target characters per chunk
-  CHUNK_OVERLAP: 200,            // Character overlap between chunks
+  // Diversity (see lib/diversity.ts)
+  MMR_LAMBDA: 0.7,               // Relevance vs. novelty when picking chunks; 1 disables MMR
 
-  // Minimum chunk size in characters
-  MIN_CHUNK_SIZE: 200,
+  // Chunking settings (model tokens, counted with the embedding model's tokenizer)
+  CHUNK_SIZE: 256,               // Target tokens per chunk
+  CHUNK_OVERLAP: 50,             // Token overlap between chunks
+
+  // Minimum chunk size in tokens
+  MIN_CHUNK_SIZE: 50,
+
+  // Percentage of a document's text that must end up in a chunk before warning
+  MIN_COVERAGE_PERCENT: 99,
+
+  // Token budget for retrieved chunks in the LLM prompt
+  MAX_CONTEXT_TOKENS: 3000,
 
   // Maximum file size in bytes (5MB)
   MAX_FILE_SIZE: 5 * 1024 * 1024,
 
+  // Bulk ZIP upload limits
+  MAX_ZIP_SIZE: 50 * 1024 * 1024,  // 50MB archive
+  MAX_ZIP_UNCOMPRESSED_SIZE: 200 * 1024 * 1024,  // 200MB of files once decompressed
+  MAX_ZIP_ENTRIES: 1000,           // Entries of any kind, folders included, checked before anything is decompressed
+  MAX_BULK_FILES: 100,             // Documents per archive
+
+  // Duplicate detection
+  DUPLICATE_OVERLAP_THRESHOLD: 0.8,  // Share of chunks matching an existing document before warning
+  STALE_PROCESSING_MINUTES: 30,     // A processing upload this old is assumed crashed and no longer blocks its file
+
   // Distance operator (NEVER CHANGE THIS)
   DISTANCE_OPERATOR: '<=>' as const,  // Cosine distance operator
 } as const;
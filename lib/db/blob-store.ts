@@ -0,0 +1,112 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getClient } from './postgres-client';
+
+/**
+ * Where original uploaded files are kept
+ * - postgres: BYTEA rows in document_files (default, no extra infrastructure)
+ * - local: one file per document under BLOB_STORE_DIR
+ */
+export type BlobStoreBackend = 'postgres' | 'local';
+
+/**
+ * Storage for original uploaded files, keyed by document ID
+ */
+export interface BlobStore {
+  backend: BlobStoreBackend;
+  put(documentId: string, data: Uint8Array): Promise<void>;
+  get(documentId: string): Promise<Buffer | null>;
+  delete(documentId: string): Promise<void>;
+}
+
+const DEFAULT_BLOB_STORE_DIR = path.join(process.cwd(), '.data', 'blobs');
+
+/**
+ * Blob store backed by the document_files table
+ * Rows are removed with their document by ON DELETE CASCADE
+ */
+function createPostgresBlobStore(): BlobStore {
+  return {
+    backend: 'postgres',
+
+    async put(documentId, data) {
+      const pool = getClient();
+      await pool.query(
+        `
+        INSERT INTO document_files (document_id, data)
+        VALUES ($1, $2)
+        ON CONFLICT (document_id) DO UPDATE SET data = EXCLUDED.data
+        `,
+        [documentId, Buffer.from(data)]
+      );
+    },
+
+    async get(documentId) {
+      const pool = getClient();
+      const result = await pool.query<{ data: Buffer }>(
+        'SELECT data FROM document_files WHERE document_id = $1',
+        [documentId]
+      );
+      return result.rows.length > 0 ? result.rows[0].data : null;
+    },
+
+    async delete(documentId) {
+      const pool = getClient();
+      await pool.query('DELETE FROM document_files WHERE document_id = $1', [documentId]);
+    },
+  };
+}
+
+/**
+ * Blob store backed by the local filesystem
+ *
+ * @param directory - Directory holding one file per document ID
+ */
+function createLocalBlobStore(directory: string): BlobStore {
+  // Document IDs are generated server-side, but never let one escape the directory
+  const filePath = (documentId: string) =>
+    path.join(directory, path.basename(documentId));
+
+  return {
+    backend: 'local',
+
+    async put(documentId, data) {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(filePath(documentId), data);
+    },
+
+    async get(documentId) {
+      try {
+        return await fs.readFile(filePath(documentId));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(documentId) {
+      await fs.rm(filePath(documentId), { force: true });
+    },
+  };
+}
+
+/**
+ * Get a blob store
+ * Defaults to the BLOB_STORE environment variable (postgres when unset).
+ * Pass the backend recorded on a document to read files stored before a switch.
+ *
+ * @param backend - Backend to use instead of the configured default
+ * @returns BlobStore for the requested backend
+ */
+export function getBlobStore(backend?: BlobStoreBackend): BlobStore {
+  const selected = backend || process.env.BLOB_STORE || 'postgres';
+
+  switch (selected) {
+    case 'postgres':
+      return createPostgresBlobStore();
+    case 'local':
+      return createLocalBlobStore(process.env.BLOB_STORE_DIR || DEFAULT_BLOB_STORE_DIR);
+    default:
+      throw new Error(`Unknown BLOB_STORE "${selected}" (expected "postgres" or "local")`);
+  }
+}
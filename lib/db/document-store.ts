@@ -0,0 +1,663 @@
+import { getClient } from './postgres-client';
+import { BlobStoreBackend, getBlobStore } from './blob-store';
+import { RAG_CONFIG } from '../constants';
+import {
+  ChunkingOptions,
+  ChunkingStrategyName,
+  ColoradoCounty,
+  DocumentStatus,
+  UploadedDocument,
+} from '../types';
+
+/**
+ * Fields required to register a new document
+ */
+export interface NewDocument {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  contentHash: string;
+  format: string;
+  county: ColoradoCounty;
+  title: string;
+  year: number;
+  effectiveDate?: string;
+  sourceUrl?: string;
+  statuteReferences?: string[];
+  tags?: string[];
+  uploadedBy?: string;
+  pageCount?: number;
+  storageBackend?: BlobStoreBackend; // Where the original file is stored
+  versionGroupId?: string; // Omit to start a new version group
+  version?: number;
+  chunkingStrategy?: ChunkingStrategyName;
+  chunkingOptions?: ChunkingOptions;
+}
+
+/**
+ * An existing document sharing chunks with a newly stored one
+ */
+export interface DocumentOverlap {
+  documentId: string;
+  title: string;
+  fileName: string;
+  sharedChunks: number;
+  overlap: number; // Share of the new document's chunks found in this one (0-1)
+}
+
+/**
+ * A stored chunk as seen when inspecting a document
+ */
+export interface StoredChunk {
+  id: string;
+  chunkIndex: number;
+  content: string;
+  sectionHeader: string | null;
+  subsectionHeader: string | null;
+  headingPath: string[] | null; // Null for chunks stored before breadcrumbs were recorded
+  pageStart: number | null;
+  pageEnd: number | null;
+  tokenCount: number | null; // Null for chunks stored before token counts were recorded
+  embeddingText: string | null; // Null when the content itself was embedded
+  embeddingProvider: string | null;
+  embeddingModel: string | null;
+  hasEmbedding: boolean;
+}
+
+/**
+ * Editable document metadata
+ */
+export interface DocumentMetadataUpdate {
+  county?: ColoradoCounty;
+  title?: string;
+  year?: number;
+}
+
+/**
+ * Raw row shape of the documents table
+ */
+interface DocumentRow {
+  id: string;
+  file_name: string;
+  file_size: string | number;
+  content_hash: string;
+  format: string;
+  county: string;
+  title: string;
+  year: number;
+  effective_date: Date | string | null;
+  source_url: string | null;
+  statute_references: string[] | null;
+  tags: string[] | null;
+  uploaded_by: string | null;
+  page_count: number | null;
+  storage_backend: BlobStoreBackend | null;
+  version_group_id: string | null;
+  version: number;
+  superseded_by: string | null;
+  superseded_at: Date | null;
+  chunking_strategy: ChunkingStrategyName | null;
+  chunking_options: ChunkingOptions | null;
+  status: DocumentStatus;
+  error_message: string | null;
+  chunk_count: number;
+  created_at: Date;
+}
+
+/**
+ * Format a DATE column as YYYY-MM-DD
+ * pg returns DATE values as local-midnight Date objects
+ */
+function formatDateColumn(value: Date | string | null): string | undefined {
+  if (!value) return undefined;
+  if (typeof value === 'string') return value.slice(0, 10);
+
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Map a documents row to the UploadedDocument API shape
+ */
+export function mapDocumentRow(row: DocumentRow): UploadedDocument {
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    fileSize: Number(row.file_size),
+    contentHash: row.content_hash,
+    format: row.format,
+    county: row.county as ColoradoCounty,
+    title: row.title,
+    year: row.year,
+    effectiveDate: formatDateColumn(row.effective_date),
+    sourceUrl: row.source_url || undefined,
+    statuteReferences: row.statute_references || undefined,
+    tags: row.tags || undefined,
+    uploadedBy: row.uploaded_by || undefined,
+    pageCount: row.page_count ?? undefined,
+    hasOriginal: row.storage_backend !== null,
+    versionGroupId: row.version_group_id || row.id,
+    version: row.version,
+    supersededBy: row.superseded_by || undefined,
+    supersededAt: row.superseded_at ? new Date(row.superseded_at) : undefined,
+    chunkingStrategy: row.chunking_strategy || undefined,
+    chunkingOptions: row.chunking_options || undefined,
+    status: row.status,
+    errorMessage: row.error_message || undefined,
+    uploadedAt: new Date(row.created_at),
+    chunksProcessed: row.chunk_count,
+  };
+}
+
+/**
+ * Error raised when a document would hold a file that already belongs to a
+ * ready or still-processing document (identical uploads racing each other,
+ * or a failed upload retried after its file was uploaded again)
+ */
+export class DuplicateContentError extends Error {
+  constructor(public existing: UploadedDocument) {
+    super(`Content already belongs to document ${existing.id} (${existing.status})`);
+    this.name = 'DuplicateContentError';
+  }
+}
+
+/**
+ * Register a new document in the 'processing' state
+ * Chunks reference this row, so it must exist before they are stored
+ * Only one ready or processing document may hold a content hash; uploads left
+ * processing for STALE_PROCESSING_MINUTES are assumed crashed and marked failed
+ *
+ * @param document - Document details
+ * @throws DuplicateContentError when another document holds the content hash
+ */
+export async function createDocument(document: NewDocument): Promise<void> {
+  const pool = getClient();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    await client.query(
+      `
+      UPDATE documents
+      SET status = 'failed',
+          error_message = 'Processing did not finish',
+          updated_at = NOW()
+      WHERE content_hash = $1
+        AND status = 'processing'
+        AND updated_at < NOW() - make_interval(mins => $2)
+      `,
+      [document.contentHash, RAG_CONFIG.STALE_PROCESSING_MINUTES]
+    );
+
+    await client.query(
+      `
+      INSERT INTO documents
+      (id, file_name, file_size, content_hash, format, county, title, year,
+       effective_date, source_url, statute_references, tags, uploaded_by,
+       page_count, storage_backend, version_group_id, version,
+       chunking_strategy, chunking_options, status)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
+              COALESCE($16, $1), $17, COALESCE($18, 'section-aware'),
+              COALESCE($19, '{}'::jsonb), 'processing')
+      `,
+      [
+        document.id,
+        document.fileName,
+        document.fileSize,
+        document.contentHash,
+        document.format,
+        document.county,
+        document.title,
+        document.year,
+        document.effectiveDate || null,
+        document.sourceUrl || null,
+        document.statuteReferences || null,
+        document.tags || null,
+        document.uploadedBy || null,
+        document.pageCount ?? null,
+        document.storageBackend || null,
+        document.versionGroupId || null,
+        document.version ?? 1,
+        document.chunkingStrategy || null,
+        document.chunkingOptions ? JSON.stringify(document.chunkingOptions) : null,
+      ]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+
+    // Lost a race with an identical upload (see the documents_content_hash_key index)
+    if ((error as { constraint?: string }).constraint === 'documents_content_hash_key') {
+      const existing = await client.query<DocumentRow>(
+        `SELECT * FROM documents WHERE content_hash = $1 AND status <> 'failed'`,
+        [document.contentHash]
+      );
+      if (existing.rows.length > 0) {
+        throw new DuplicateContentError(mapDocumentRow(existing.rows[0]));
+      }
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  console.log(`Registered document ${document.id} (${document.fileName})`);
+}
+
+/**
+ * Update a document's processing status
+ *
+ * @param documentId - The document ID
+ * @param status - New status
+ * @param details - Chunk count (when ready) or error message (when failed);
+ *   chunking strategy and options when reprocessing changed them
+ * @throws DuplicateContentError when moving a failed document to processing
+ *   or ready while another document holds the same file
+ */
+export async function updateDocumentStatus(
+  documentId: string,
+  status: DocumentStatus,
+  details: {
+    chunkCount?: number;
+    errorMessage?: string;
+    chunkingStrategy?: ChunkingStrategyName;
+    chunkingOptions?: ChunkingOptions;
+  } = {}
+): Promise<void> {
+  const pool = getClient();
+
+  try {
+    await pool.query(
+      `
+      UPDATE documents
+      SET status = $2,
+          chunk_count = COALESCE($3, chunk_count),
+          error_message = $4,
+          chunking_strategy = COALESCE($5, chunking_strategy),
+          chunking_options = COALESCE($6, chunking_options),
+          updated_at = NOW()
+      WHERE id = $1
+      `,
+      [
+        documentId,
+        status,
+        details.chunkCount ?? null,
+        details.errorMessage || null,
+        details.chunkingStrategy || null,
+        details.chunkingOptions ? JSON.stringify(details.chunkingOptions) : null,
+      ]
+    );
+  } catch (error) {
+    // Another document took this file while this one was failed (see the
+    // documents_content_hash_key index)
+    if ((error as { constraint?: string }).constraint === 'documents_content_hash_key') {
+      const existing = await pool.query<DocumentRow>(
+        `
+        SELECT other.*
+        FROM documents other
+        JOIN documents document ON other.content_hash = document.content_hash
+        WHERE document.id = $1 AND other.id <> $1 AND other.status <> 'failed'
+        `,
+        [documentId]
+      );
+      if (existing.rows.length > 0) {
+        throw new DuplicateContentError(mapDocumentRow(existing.rows[0]));
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Update a document's county, title and/or year, together with the copies
+ * denormalized onto its chunks, in one transaction
+ * Chunk text and embeddings are left alone: [Context: ...] prefixes are built
+ * from section headings only, so none of these fields appear in them
+ *
+ * @param documentId - The document ID
+ * @param update - Fields to change (omitted fields keep their value)
+ * @returns Promise<{ document, chunksUpdated } | null> - Updated document, or null if not found
+ */
+export async function updateDocumentMetadata(
+  documentId: string,
+  update: DocumentMetadataUpdate
+): Promise<{ document: UploadedDocument; chunksUpdated: number } | null> {
+  const pool = getClient();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const documentResult = await client.query<DocumentRow>(
+      `
+      UPDATE documents
+      SET county = COALESCE($2, county),
+          title = COALESCE($3, title),
+          year = COALESCE($4, year),
+          updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+      `,
+      [documentId, update.county ?? null, update.title ?? null, update.year ?? null]
+    );
+
+    if (documentResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const document = documentResult.rows[0];
+
+    const chunkResult = await client.query(
+      `
+      UPDATE document_chunks
+      SET county = $2, document_title = $3, year = $4
+      WHERE document_id = $1
+      `,
+      [documentId, document.county, document.title, document.year]
+    );
+
+    await client.query('COMMIT');
+
+    console.log(
+      `Updated metadata for document ${documentId} (${chunkResult.rowCount} chunks)`
+    );
+
+    return {
+      document: mapDocumentRow(document),
+      chunksUpdated: chunkResult.rowCount ?? 0,
+    };
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Mark a document as superseded by a newer version
+ * The old version stops being current from the new version's effective date
+ * (or now, when it has none)
+ *
+ * @param previousId - The document being replaced
+ * @param newId - The newer version
+ * @returns Promise<boolean> - False if the previous version was already superseded
+ */
+export async function supersedeDocument(previousId: string, newId: string): Promise<boolean> {
+  const pool = getClient();
+
+  const result = await pool.query(
+    `
+    UPDATE documents AS previous
+    SET superseded_by = latest.id,
+        superseded_at = COALESCE(latest.effective_date::timestamp, NOW()),
+        updated_at = NOW()
+    FROM documents AS latest
+    WHERE previous.id = $1
+      AND latest.id = $2
+      AND previous.superseded_by IS NULL
+    `,
+    [previousId, newId]
+  );
+
+  if (result.rowCount === 0) {
+    return false;
+  }
+
+  console.log(`Document ${previousId} superseded by ${newId}`);
+  return true;
+}
+
+/**
+ * List all documents (every version), newest first
+ *
+ * @returns Promise<UploadedDocument[]> - All registered documents
+ */
+export async function listDocuments(): Promise<UploadedDocument[]> {
+  const pool = getClient();
+
+  const result = await pool.query<DocumentRow>(`
+    SELECT *
+    FROM documents
+    ORDER BY created_at DESC
+  `);
+
+  return result.rows.map(mapDocumentRow);
+}
+
+/**
+ * Get a single document by ID
+ *
+ * @param documentId - The document ID
+ * @returns Promise<UploadedDocument | null> - The document, or null if not found
+ */
+export async function getDocument(documentId: string): Promise<UploadedDocument | null> {
+  const pool = getClient();
+
+  const result = await pool.query<DocumentRow>(
+    'SELECT * FROM documents WHERE id = $1',
+    [documentId]
+  );
+
+  return result.rows.length > 0 ? mapDocumentRow(result.rows[0]) : null;
+}
+
+/**
+ * Get a document's chunks in chunk order (without embedding vectors)
+ *
+ * @param documentId - The document ID
+ * @returns Promise<StoredChunk[]> - Chunks ordered by chunk_index
+ */
+export async function getDocumentChunks(documentId: string): Promise<StoredChunk[]> {
+  const pool = getClient();
+
+  const result = await pool.query(
+    `
+    SELECT
+      id,
+      chunk_index,
+      content,
+      section_header,
+      subsection_header,
+      heading_path,
+      page_start,
+      page_end,
+      token_count,
+      embedding_text,
+      embedding_provider,
+      embedding_model,
+      embedding IS NOT NULL as has_embedding
+    FROM document_chunks
+    WHERE document_id = $1
+    ORDER BY chunk_index
+    `,
+    [documentId]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    chunkIndex: row.chunk_index,
+    content: row.content,
+    sectionHeader: row.section_header,
+    subsectionHeader: row.subsection_header,
+    headingPath: row.heading_path,
+    pageStart: row.page_start,
+    pageEnd: row.page_end,
+    tokenCount: row.token_count,
+    embeddingText: row.embedding_text,
+    embeddingProvider: row.embedding_provider,
+    embeddingModel: row.embedding_model,
+    hasEmbedding: row.has_embedding,
+  }));
+}
+
+/**
+ * Find a previously uploaded document with identical file content
+ * Only ready documents count: failed uploads can be retried, and one still
+ * processing may yet fail (createDocument rejects a second copy meanwhile)
+ *
+ * @param contentHash - sha256 of the original file bytes
+ * @returns Promise<UploadedDocument | null> - The existing document, or null
+ */
+export async function findDocumentByHash(contentHash: string): Promise<UploadedDocument | null> {
+  const pool = getClient();
+
+  const result = await pool.query<DocumentRow>(
+    `
+    SELECT *
+    FROM documents
+    WHERE content_hash = $1 AND status = 'ready'
+    ORDER BY created_at ASC
+    LIMIT 1
+    `,
+    [contentHash]
+  );
+
+  return result.rows.length > 0 ? mapDocumentRow(result.rows[0]) : null;
+}
+
+/**
+ * Find documents for the same county and year whose chunks overlap a
+ * document's chunks (compared by normalized content hash)
+ * Other versions of the same document are expected to overlap and are skipped
+ *
+ * @param documentId - The newly stored document
+ * @param county - County to compare within
+ * @param year - Year to compare within
+ * @returns Promise<DocumentOverlap[]> - Overlapping documents, largest overlap first
+ */
+export async function findOverlappingDocuments(
+  documentId: string,
+  county: string,
+  year: number
+): Promise<DocumentOverlap[]> {
+  const pool = getClient();
+
+  const result = await pool.query(
+    `
+    WITH new_hashes AS (
+      SELECT DISTINCT content_hash
+      FROM document_chunks
+      WHERE document_id = $1
+    )
+    SELECT
+      d.id,
+      d.title,
+      d.file_name,
+      COUNT(DISTINCT c.content_hash) as shared,
+      (SELECT COUNT(*) FROM new_hashes) as total
+    FROM document_chunks c
+    JOIN documents d ON d.id = c.document_id
+    WHERE c.document_id <> $1
+      AND d.version_group_id IS DISTINCT FROM (SELECT version_group_id FROM documents WHERE id = $1)
+      AND d.county = $2
+      AND d.year = $3
+      AND c.content_hash IN (SELECT content_hash FROM new_hashes)
+    GROUP BY d.id, d.title, d.file_name
+    ORDER BY shared DESC
+    `,
+    [documentId, county, year]
+  );
+
+  return result.rows.map((row) => ({
+    documentId: row.id,
+    title: row.title,
+    fileName: row.file_name,
+    sharedChunks: parseInt(row.shared, 10),
+    overlap: parseInt(row.shared, 10) / Math.max(parseInt(row.total, 10), 1),
+  }));
+}
+
+/**
+ * Get the stored original file for a document
+ *
+ * @param documentId - The document ID
+ * @returns Promise<Buffer | null> - File bytes, or null if no original was stored
+ */
+export async function getDocumentFile(documentId: string): Promise<Buffer | null> {
+  const pool = getClient();
+
+  const result = await pool.query<{ storage_backend: BlobStoreBackend | null }>(
+    'SELECT storage_backend FROM documents WHERE id = $1',
+    [documentId]
+  );
+
+  const backend = result.rows[0]?.storage_backend;
+  if (!backend) {
+    return null;
+  }
+
+  return getBlobStore(backend).get(documentId);
+}
+
+/**
+ * Delete a document; its chunks (and a Postgres-stored original file) are
+ * removed by ON DELETE CASCADE, files in other blob stores are removed after
+ *
+ * @param documentId - The document ID
+ * @returns Promise<number | null> - Number of chunks deleted, or null if not found
+ */
+export async function deleteDocument(documentId: string): Promise<number | null> {
+  const pool = getClient();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const countResult = await client.query(
+      'SELECT COUNT(*) as count FROM document_chunks WHERE document_id = $1',
+      [documentId]
+    );
+    const chunkCount = parseInt(countResult.rows[0].count, 10);
+
+    // Keep the version chain intact: the version this one replaced now points
+    // at this one's successor, or becomes current again
+    await client.query(
+      `
+      UPDATE documents AS previous
+      SET superseded_by = deleted.superseded_by,
+          superseded_at = CASE WHEN deleted.superseded_by IS NULL THEN NULL ELSE previous.superseded_at END,
+          updated_at = NOW()
+      FROM documents AS deleted
+      WHERE deleted.id = $1 AND previous.superseded_by = $1
+      `,
+      [documentId]
+    );
+
+    const deleteResult = await client.query<{ storage_backend: BlobStoreBackend | null }>(
+      'DELETE FROM documents WHERE id = $1 RETURNING storage_backend',
+      [documentId]
+    );
+
+    await client.query('COMMIT');
+
+    if (deleteResult.rowCount === 0) {
+      return null;
+    }
+
+    const backend = deleteResult.rows[0].storage_backend;
+    if (backend && backend !== 'postgres') {
+      try {
+        await getBlobStore(backend).delete(documentId);
+      } catch (error) {
+        console.error(`Failed to delete original file for document ${documentId}:`, error);
+      }
+    }
+
+    console.log(`Deleted document ${documentId} and ${chunkCount} chunks`);
+    return chunkCount;
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+
+  } finally {
+    client.release();
+  }
+}
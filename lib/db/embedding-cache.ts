@@ -0,0 +1,71 @@
+import { getClient } from './postgres-client';
+
+/**
+ * A vector to cache, keyed by the sha256 of the text it embeds
+ */
+export interface CachedEmbedding {
+  textHash: string;
+  embedding: number[];
+}
+
+/**
+ * Look up cached embeddings for a model
+ *
+ * @param textHashes - sha256 hashes of the texts
+ * @param model - Embedding model the vectors must come from
+ * @param dimensions - Vector size the vectors must have
+ * @returns Vectors by text hash, for the hashes found
+ */
+export async function getCachedEmbeddings(
+  textHashes: string[],
+  model: string,
+  dimensions: number
+): Promise<Map<string, number[]>> {
+  const cached = new Map<string, number[]>();
+  if (textHashes.length === 0) return cached;
+
+  const pool = getClient();
+  const result = await pool.query<{ text_hash: string; embedding: string }>(
+    `
+    SELECT text_hash, embedding::text AS embedding
+    FROM embedding_cache
+    WHERE model = $1 AND dimensions = $2 AND text_hash = ANY($3)
+    `,
+    [model, dimensions, textHashes]
+  );
+
+  // pgvector's text form, "[1,2,3]", is valid JSON
+  result.rows.forEach((row) => cached.set(row.text_hash, JSON.parse(row.embedding)));
+  return cached;
+}
+
+/**
+ * Add embeddings to the cache; entries already cached are left as they are
+ *
+ * @param entries - Vectors with the hashes of their texts
+ * @param model - Embedding model the vectors came from
+ * @param dimensions - Vector size
+ */
+export async function cacheEmbeddings(
+  entries: CachedEmbedding[],
+  model: string,
+  dimensions: number
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const pool = getClient();
+  await pool.query(
+    `
+    INSERT INTO embedding_cache (text_hash, model, dimensions, embedding)
+    SELECT entry.text_hash, $1, $2, entry.embedding::vector
+    FROM unnest($3::text[], $4::text[]) AS entry(text_hash, embedding)
+    ON CONFLICT (text_hash, model, dimensions) DO NOTHING
+    `,
+    [
+      model,
+      dimensions,
+      entries.map((entry) => entry.textHash),
+      entries.map((entry) => `[${entry.embedding.join(',')}]`),
+    ]
+  );
+}
@@ -0,0 +1,436 @@
+import { PoolClient } from 'pg';
+import { getClient } from './postgres-client';
+import { chooseVectorIndex, VECTOR_INDEX_NAME, vectorIndexSql } from './vector-index';
+
+/**
+ * Lifecycle of an embedding migration
+ * - running: the re-embedding job is filling document_chunks.embedding_next
+ *   (or was interrupted and can be resumed)
+ * - ready: every chunk has a vector from the new model and they are indexed;
+ *   waiting for cutover
+ * - active: cut over; document_chunks.embedding holds this model's vectors
+ * - retired: an earlier active migration, replaced by a later one
+ * - failed / cancelled: stopped; failed migrations can be resumed
+ */
+export type EmbeddingMigrationStatus =
+  | 'running'
+  | 'ready'
+  | 'active'
+  | 'retired'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * A switch of every chunk to another embedding model
+ */
+export interface EmbeddingMigration {
+  id: number;
+  provider: string;
+  model: string;
+  dimensions: number;
+  requestsDimensions: boolean; // Whether the model is asked for this size (see EmbeddingProvider)
+  status: EmbeddingMigrationStatus;
+  totalChunks: number;
+  embeddedChunks: number;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date; // When every chunk had a new vector
+  activatedAt?: Date;
+}
+
+/**
+ * A chunk still lacking a vector from the migration's model
+ */
+export interface PendingChunk {
+  id: string;
+  text: string; // What storeDocumentChunks embeds: embedding text, else content
+}
+
+/**
+ * Error raised when a migration cannot be cut over in its current state
+ */
+export class EmbeddingCutoverError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingCutoverError';
+  }
+}
+
+/**
+ * Error raised when document_chunks could not be altered because long
+ * searches or uploads held it past SCHEMA_LOCK_TIMEOUT; try again later
+ */
+export class EmbeddingTableBusyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingTableBusyError';
+  }
+}
+
+// Statuses of migrations that are still in progress; only one may exist
+const OPEN_STATUSES: EmbeddingMigrationStatus[] = ['running', 'ready', 'failed'];
+
+// Where the open migration's vectors are staged, sized for its model, and
+// their index; cutover renames both into place
+const STAGING_COLUMN = 'embedding_next';
+const STAGING_INDEX_NAME = 'document_chunks_embedding_next_idx';
+
+// Altering document_chunks needs an exclusive lock, which queues every later
+// search behind it; give up rather than stall searches behind a long query
+const SCHEMA_LOCK_TIMEOUT = '5s';
+
+// A lock timeout as EmbeddingTableBusyError, anything else unchanged
+function asBusyError(error: unknown): unknown {
+  return (error as { code?: string } | null)?.code === '55P03' // lock_not_available
+    ? new EmbeddingTableBusyError(
+        'document_chunks is in use by long-running searches or uploads; try again shortly'
+      )
+    : error;
+}
+
+// Run statements that alter document_chunks in one transaction, bounded by
+// SCHEMA_LOCK_TIMEOUT
+async function alterChunksTable<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+  const pool = getClient();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    await client.query(`SET LOCAL lock_timeout = '${SCHEMA_LOCK_TIMEOUT}'`);
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw asBusyError(error);
+  } finally {
+    client.release();
+  }
+}
+
+// Row shape to EmbeddingMigration
+function toEmbeddingMigration(row: Record<string, unknown>): EmbeddingMigration {
+  return {
+    id: row.id as number,
+    provider: row.provider as string,
+    model: row.model as string,
+    dimensions: row.dimensions as number,
+    requestsDimensions: row.requests_dimensions as boolean,
+    status: row.status as EmbeddingMigrationStatus,
+    totalChunks: row.total_chunks as number,
+    embeddedChunks: row.embedded_chunks as number,
+    error: (row.error as string | null) ?? undefined,
+    createdAt: row.created_at as Date,
+    updatedAt: row.updated_at as Date,
+    completedAt: (row.completed_at as Date | null) ?? undefined,
+    activatedAt: (row.activated_at as Date | null) ?? undefined,
+  };
+}
+
+/**
+ * Start tracking a migration to another embedding model, adding the column
+ * its vectors are staged in (adding a nullable column rewrites nothing)
+ *
+ * @returns The new migration, or null if another migration is still open
+ * @throws EmbeddingTableBusyError if document_chunks stayed locked
+ */
+export async function createEmbeddingMigration(spec: {
+  provider: string;
+  model: string;
+  dimensions: number;
+  requestsDimensions: boolean;
+}): Promise<EmbeddingMigration | null> {
+  return alterChunksTable(async (client) => {
+    const result = await client.query(
+      `
+      INSERT INTO embedding_migrations
+        (provider, model, dimensions, requests_dimensions, status, total_chunks)
+      SELECT $1, $2, $3, $4, 'running', (SELECT COUNT(*) FROM document_chunks)
+      WHERE NOT EXISTS (SELECT 1 FROM embedding_migrations WHERE status = ANY($5))
+      RETURNING *
+      `,
+      [spec.provider, spec.model, spec.dimensions, spec.requestsDimensions, OPEN_STATUSES]
+    );
+    if (result.rows.length === 0) return null;
+
+    // Dimensions are a validated integer, so they are safe to inline
+    await client.query(`ALTER TABLE document_chunks DROP COLUMN IF EXISTS ${STAGING_COLUMN}`);
+    await client.query(
+      `ALTER TABLE document_chunks ADD COLUMN ${STAGING_COLUMN} vector(${Number(spec.dimensions)})`
+    );
+
+    return toEmbeddingMigration(result.rows[0]);
+  });
+}
+
+/**
+ * Get a migration by ID
+ */
+export async function getEmbeddingMigration(id: number): Promise<EmbeddingMigration | null> {
+  if (!Number.isInteger(id)) return null; // IDs from URLs may not be numbers
+
+  const pool = getClient();
+  const result = await pool.query('SELECT * FROM embedding_migrations WHERE id = $1', [id]);
+  return result.rows.length > 0 ? toEmbeddingMigration(result.rows[0]) : null;
+}
+
+/**
+ * List migrations, newest first
+ */
+export async function listEmbeddingMigrations(): Promise<EmbeddingMigration[]> {
+  const pool = getClient();
+  const result = await pool.query('SELECT * FROM embedding_migrations ORDER BY id DESC');
+  return result.rows.map(toEmbeddingMigration);
+}
+
+/**
+ * Get the migration whose model document_chunks.embedding currently holds
+ *
+ * @param client - Reads on this client's transaction (default: the pool)
+ * @returns The active migration, or null while the configured model is in use
+ */
+export async function getActiveEmbeddingMigration(
+  client: Pick<PoolClient, 'query'> = getClient()
+): Promise<EmbeddingMigration | null> {
+  const result = await client.query(
+    "SELECT * FROM embedding_migrations WHERE status = 'active' ORDER BY activated_at DESC LIMIT 1"
+  );
+  return result.rows.length > 0 ? toEmbeddingMigration(result.rows[0]) : null;
+}
+
+/**
+ * Set a migration's status, recording when it completed
+ *
+ * @param options - error: reason for a failure (cleared for any other status);
+ *   from: only change a migration currently in one of these statuses
+ * @returns Whether the migration was updated
+ */
+export async function updateEmbeddingMigrationStatus(
+  id: number,
+  status: EmbeddingMigrationStatus,
+  options: { error?: string; from?: EmbeddingMigrationStatus[] } = {}
+): Promise<boolean> {
+  const pool = getClient();
+  const result = await pool.query(
+    `
+    UPDATE embedding_migrations
+    SET status = $2,
+        error = $3,
+        completed_at = CASE WHEN $2 = 'ready' THEN NOW() ELSE completed_at END,
+        updated_at = NOW()
+    WHERE id = $1 AND ($4::text[] IS NULL OR status = ANY($4))
+    `,
+    [id, status, options.error ?? null, options.from ?? null]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Drop the staged vectors and their index, when a migration is cancelled
+ *
+ * @throws EmbeddingTableBusyError if document_chunks stayed locked
+ */
+export async function dropMigrationEmbeddings(): Promise<void> {
+  await alterChunksTable(async (client) => {
+    await client.query(`ALTER TABLE document_chunks DROP COLUMN IF EXISTS ${STAGING_COLUMN}`);
+  });
+}
+
+/**
+ * Recount a migration's progress; chunks uploaded or deleted since it started
+ * are included
+ */
+export async function refreshEmbeddingMigrationProgress(id: number): Promise<EmbeddingMigration | null> {
+  const pool = getClient();
+  const result = await pool.query(
+    `
+    UPDATE embedding_migrations
+    SET total_chunks = (SELECT COUNT(*) FROM document_chunks),
+        embedded_chunks = (SELECT COUNT(*) FROM document_chunks WHERE ${STAGING_COLUMN} IS NOT NULL),
+        updated_at = NOW()
+    WHERE id = $1
+    RETURNING *
+    `,
+    [id]
+  );
+  return result.rows.length > 0 ? toEmbeddingMigration(result.rows[0]) : null;
+}
+
+/**
+ * Get chunks the migration has not embedded yet, in a stable order so an
+ * interrupted job picks up where it stopped
+ *
+ * @param limit - Maximum chunks to return
+ */
+export async function getPendingChunks(limit: number): Promise<PendingChunk[]> {
+  const pool = getClient();
+  const result = await pool.query(
+    `
+    SELECT id, COALESCE(embedding_text, content) AS text
+    FROM document_chunks
+    WHERE ${STAGING_COLUMN} IS NULL
+    ORDER BY id
+    LIMIT $1
+    `,
+    [limit]
+  );
+  return result.rows.map((row) => ({ id: row.id, text: row.text }));
+}
+
+/**
+ * Stage vectors from the migration's model next to the vectors in use
+ * Nothing is stored once the migration has stopped running, so a cancelled
+ * job's last batch does not linger
+ */
+export async function saveMigrationEmbeddings(
+  id: number,
+  entries: Array<{ chunkId: string; embedding: number[] }>
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const pool = getClient();
+  await pool.query(
+    `
+    UPDATE document_chunks c
+    SET ${STAGING_COLUMN} = entry.embedding::vector
+    FROM unnest($2::text[], $3::text[]) AS entry(chunk_id, embedding)
+    WHERE c.id = entry.chunk_id
+      AND EXISTS (SELECT 1 FROM embedding_migrations WHERE id = $1 AND status = 'running')
+    `,
+    [
+      id,
+      entries.map((entry) => entry.chunkId),
+      entries.map((entry) => `[${entry.embedding.join(',')}]`),
+    ]
+  );
+}
+
+/**
+ * Index the staged vectors, sized for the whole corpus (see
+ * chooseVectorIndex), unless a valid index already exists
+ * The index is built concurrently, so searches and uploads carry on; a build
+ * that failed part way leaves an invalid index, which is rebuilt
+ */
+export async function buildMigrationIndex(): Promise<void> {
+  const pool = getClient();
+
+  const existing = await pool.query(
+    'SELECT indisvalid FROM pg_index WHERE indexrelid = to_regclass($1)',
+    [STAGING_INDEX_NAME]
+  );
+  if (existing.rows[0]?.indisvalid) return;
+
+  await pool.query(`DROP INDEX CONCURRENTLY IF EXISTS ${STAGING_INDEX_NAME}`);
+  const countResult = await pool.query('SELECT COUNT(*) AS count FROM document_chunks');
+  await pool.query(
+    vectorIndexSql(chooseVectorIndex(parseInt(countResult.rows[0].count)), {
+      name: STAGING_INDEX_NAME,
+      column: STAGING_COLUMN,
+      concurrently: true,
+    })
+  );
+}
+
+/**
+ * Switch document_chunks to a ready migration's vectors
+ * The staged column and its index were filled and built while searches used
+ * the old ones, so the switch only changes the catalog: the old vector and
+ * model columns are dropped, the staged ones renamed into place, and the model
+ * columns re-added with the new model as their value for every existing row
+ * (a constant default is stored once, not written to each row). Uploads are
+ * held off while chunks are checked; searches wait only for the rename.
+ *
+ * @returns The activated migration, or null if it does not exist
+ * @throws EmbeddingCutoverError if the migration is not ready, chunks were
+ *   added since it finished, or its index is missing (resume it first)
+ * @throws EmbeddingTableBusyError if document_chunks stayed locked
+ */
+export async function activateEmbeddingMigration(id: number): Promise<EmbeddingMigration | null> {
+  if (!Number.isInteger(id)) return null;
+
+  return alterChunksTable(async (client) => {
+    // Block uploads and deletes so no chunk can slip in without a new vector;
+    // searches carry on until the catalog changes below
+    await client.query('LOCK TABLE document_chunks IN SHARE ROW EXCLUSIVE MODE');
+
+    const migrationResult = await client.query(
+      'SELECT * FROM embedding_migrations WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+    if (migrationResult.rows.length === 0) {
+      return null;
+    }
+
+    const migration = toEmbeddingMigration(migrationResult.rows[0]);
+    if (migration.status !== 'ready') {
+      throw new EmbeddingCutoverError(
+        `Embedding migration ${id} is ${migration.status}; only a ready migration can be cut over`
+      );
+    }
+
+    const missingResult = await client.query(
+      `SELECT COUNT(*) AS count FROM document_chunks WHERE ${STAGING_COLUMN} IS NULL`
+    );
+    const missing = parseInt(missingResult.rows[0].count);
+    if (missing > 0) {
+      throw new EmbeddingCutoverError(
+        `${missing} chunks were added after embedding migration ${id} finished; resume it before cutting over`
+      );
+    }
+
+    const indexResult = await client.query(
+      'SELECT indisvalid FROM pg_index WHERE indexrelid = to_regclass($1)',
+      [STAGING_INDEX_NAME]
+    );
+    if (!indexResult.rows[0]?.indisvalid) {
+      throw new EmbeddingCutoverError(
+        `The index for embedding migration ${id} is missing or invalid; resume it to rebuild the index`
+      );
+    }
+
+    // DDL takes no parameters; values are quoted, and dimensions are an integer column
+    const provider = client.escapeLiteral(migration.provider);
+    const model = client.escapeLiteral(migration.model);
+    const dimensions = Number(migration.dimensions);
+
+    // Dropping the old column drops its index too
+    await client.query(`
+      ALTER TABLE document_chunks
+      DROP COLUMN embedding,
+      DROP COLUMN embedding_provider,
+      DROP COLUMN embedding_model,
+      DROP COLUMN embedding_dimensions
+    `);
+    await client.query(`ALTER TABLE document_chunks RENAME COLUMN ${STAGING_COLUMN} TO embedding`);
+    await client.query(`ALTER INDEX ${STAGING_INDEX_NAME} RENAME TO ${VECTOR_INDEX_NAME}`);
+    await client.query(`
+      ALTER TABLE document_chunks
+      ADD COLUMN embedding_provider TEXT DEFAULT ${provider},
+      ADD COLUMN embedding_model TEXT DEFAULT ${model},
+      ADD COLUMN embedding_dimensions INTEGER DEFAULT ${dimensions}
+    `);
+    // Existing rows keep the value; new chunks record their own model
+    await client.query(`
+      ALTER TABLE document_chunks
+      ALTER COLUMN embedding_provider DROP DEFAULT,
+      ALTER COLUMN embedding_model DROP DEFAULT,
+      ALTER COLUMN embedding_dimensions DROP DEFAULT
+    `);
+
+    await client.query(
+      "UPDATE embedding_migrations SET status = 'retired', updated_at = NOW() WHERE status = 'active'"
+    );
+    const activated = await client.query(
+      `
+      UPDATE embedding_migrations
+      SET status = 'active', activated_at = NOW(), updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+      `,
+      [id]
+    );
+
+    return toEmbeddingMigration(activated.rows[0]);
+  });
+}
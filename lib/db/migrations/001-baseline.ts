@@ -0,0 +1,170 @@
+import { SchemaMigration } from '../migrator';
+
+/**
+ * The schema initDatabase used to create on every call
+ * Every statement is idempotent, so databases set up that way (including ones
+ * from before some columns existed) are brought up to date rather than failing
+ */
+export const baseline: SchemaMigration = {
+  version: 1,
+  name: 'baseline',
+  up: `
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- One row per uploaded file
+CREATE TABLE IF NOT EXISTS documents (
+  id TEXT PRIMARY KEY,
+  file_name TEXT NOT NULL,
+  file_size BIGINT NOT NULL DEFAULT 0,
+  content_hash TEXT,
+  format TEXT NOT NULL DEFAULT 'markdown',
+  county TEXT NOT NULL,
+  title TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  effective_date DATE,
+  source_url TEXT,
+  statute_references TEXT[],
+  tags TEXT[],
+  uploaded_by TEXT,
+  page_count INTEGER,
+  storage_backend TEXT,
+  version_group_id TEXT,
+  version INTEGER NOT NULL DEFAULT 1,
+  superseded_by TEXT REFERENCES documents(id) ON DELETE SET NULL,
+  superseded_at TIMESTAMP,
+  chunking_strategy TEXT NOT NULL DEFAULT 'section-aware',
+  chunking_options JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'processing',
+  error_message TEXT,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS storage_backend TEXT,
+ADD COLUMN IF NOT EXISTS version_group_id TEXT,
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS superseded_by TEXT REFERENCES documents(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS chunking_strategy TEXT NOT NULL DEFAULT 'section-aware',
+ADD COLUMN IF NOT EXISTS chunking_options JSONB NOT NULL DEFAULT '{}';
+
+-- Original uploads when BLOB_STORE=postgres
+CREATE TABLE IF NOT EXISTS document_files (
+  document_id TEXT PRIMARY KEY REFERENCES documents(id) ON DELETE CASCADE,
+  data BYTEA NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Vectors by sha256 of the embedded text; no fixed size, so any model's vectors fit
+CREATE TABLE IF NOT EXISTS embedding_cache (
+  text_hash TEXT NOT NULL,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  embedding vector NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (text_hash, model, dimensions)
+);
+
+CREATE TABLE IF NOT EXISTS document_chunks (
+  id TEXT PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  embedding vector(1536),
+  county TEXT NOT NULL,
+  document_title TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  total_chunks INTEGER NOT NULL,
+  section_header TEXT,
+  subsection_header TEXT,
+  heading_path TEXT[],
+  page_start INTEGER,
+  page_end INTEGER,
+  token_count INTEGER,
+  embedding_text TEXT,
+  embedding_provider TEXT,
+  embedding_model TEXT,
+  embedding_dimensions INTEGER,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS heading_path TEXT[],
+ADD COLUMN IF NOT EXISTS page_start INTEGER,
+ADD COLUMN IF NOT EXISTS page_end INTEGER,
+ADD COLUMN IF NOT EXISTS token_count INTEGER,
+ADD COLUMN IF NOT EXISTS embedding_text TEXT,
+ADD COLUMN IF NOT EXISTS embedding_provider TEXT,
+ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER;
+
+-- Chunks embedded before providers were recorded all came from OpenAI
+UPDATE document_chunks
+SET embedding_provider = 'openai', embedding_model = 'text-embedding-3-small', embedding_dimensions = 1536
+WHERE embedding_model IS NULL AND embedding IS NOT NULL;
+
+-- Hash of whitespace-normalized chunk content, used to spot overlapping uploads
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS content_hash TEXT
+GENERATED ALWAYS AS (md5(lower(btrim(regexp_replace(content, '\\s+', ' ', 'g'))))) STORED;
+
+-- Documents for chunks stored before the documents table existed
+INSERT INTO documents (id, file_name, county, title, year, status, chunk_count, created_at)
+SELECT
+  document_id,
+  LOWER(REGEXP_REPLACE(MIN(document_title), '\\s+', '-', 'g')) || '.md',
+  MIN(county),
+  MIN(document_title),
+  MIN(year),
+  'ready',
+  COUNT(*),
+  MIN(created_at)
+FROM document_chunks
+GROUP BY document_id
+ON CONFLICT (id) DO NOTHING;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'document_chunks_document_id_fkey'
+  ) THEN
+    ALTER TABLE document_chunks
+    ADD CONSTRAINT document_chunks_document_id_fkey
+    FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+-- Every document starts its own version group
+UPDATE documents SET version_group_id = id WHERE version_group_id IS NULL;
+
+-- vector_cosine_ops matches the <=> operator; lists = 1 suits small datasets
+CREATE INDEX IF NOT EXISTS document_chunks_embedding_idx
+ON document_chunks USING ivfflat (embedding vector_cosine_ops)
+WITH (lists = 1);
+
+CREATE INDEX IF NOT EXISTS document_chunks_county_idx ON document_chunks(county);
+CREATE INDEX IF NOT EXISTS documents_version_group_idx ON documents(version_group_id);
+CREATE INDEX IF NOT EXISTS documents_content_hash_idx ON documents(content_hash);
+CREATE INDEX IF NOT EXISTS document_chunks_content_hash_idx ON document_chunks(content_hash);
+CREATE INDEX IF NOT EXISTS document_chunks_document_id_idx ON document_chunks(document_id);
+
+-- Switches of every chunk to another embedding model
+CREATE TABLE IF NOT EXISTS embedding_migrations (
+  id SERIAL PRIMARY KEY,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  requests_dimensions BOOLEAN NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running',
+  total_chunks INTEGER NOT NULL DEFAULT 0,
+  embedded_chunks INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP,
+  activated_at TIMESTAMP
+);
+`,
+};
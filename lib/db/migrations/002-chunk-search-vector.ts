@@ -0,0 +1,39 @@
+import { SchemaMigration } from '../migrator';
+
+/**
+ * Full-text search over chunks, for keyword retrieval (see lib/retrieval.ts)
+ * Content is weighted above the title and heading breadcrumb, so a term in
+ * the body outranks one that only appears in the breadcrumb. Chunks without
+ * a breadcrumb fall back to their section and subsection, as in
+ * resolveHeadingPath.
+ */
+export const chunkSearchVector: SchemaMigration = {
+  version: 2,
+  name: 'chunk_search_vector',
+  up: `
+-- array_to_string is only STABLE, which generated columns refuse; joining
+-- text elements always gives the same result, so the wrapper is IMMUTABLE
+CREATE OR REPLACE FUNCTION heading_path_text(headings TEXT[]) RETURNS TEXT
+LANGUAGE sql IMMUTABLE PARALLEL SAFE
+AS $$ SELECT array_to_string(headings, ' ') $$;
+
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', content), 'A') ||
+  setweight(
+    to_tsvector(
+      'english',
+      coalesce(document_title, '') || ' ' || coalesce(
+        heading_path_text(heading_path),
+        coalesce(section_header, '') || ' ' || coalesce(subsection_header, '')
+      )
+    ),
+    'B'
+  )
+) STORED;
+
+CREATE INDEX IF NOT EXISTS document_chunks_search_vector_idx
+ON document_chunks USING GIN (search_vector);
+`,
+};
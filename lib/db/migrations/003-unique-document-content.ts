@@ -0,0 +1,34 @@
+import { SchemaMigration } from '../migrator';
+
+/**
+ * One live document per file: identical uploads racing past the duplicate
+ * check now conflict on insert instead of both being stored (see
+ * createDocument). Duplicates that already slipped in are marked failed,
+ * keeping a ready copy over a processing one, then the earliest.
+ */
+export const uniqueDocumentContent: SchemaMigration = {
+  version: 3,
+  name: 'unique_document_content',
+  up: `
+UPDATE documents d
+SET status = 'failed',
+    error_message = 'Duplicate of ' || ranked.kept_id || ' (marked failed by schema migration 3)',
+    updated_at = NOW()
+FROM (
+  SELECT
+    id,
+    FIRST_VALUE(id) OVER same_content AS kept_id,
+    ROW_NUMBER() OVER same_content AS position
+  FROM documents
+  WHERE content_hash IS NOT NULL AND status <> 'failed'
+  WINDOW same_content AS (
+    PARTITION BY content_hash
+    ORDER BY (status = 'ready') DESC, created_at ASC, id ASC
+  )
+) ranked
+WHERE d.id = ranked.id AND ranked.position > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS documents_content_hash_key
+ON documents(content_hash) WHERE status <> 'failed';
+`,
+};
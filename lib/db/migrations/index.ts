@@ -0,0 +1,13 @@
+import { SchemaMigration } from '../migrator';
+import { baseline } from './001-baseline';
+import { chunkSearchVector } from './002-chunk-search-vector';
+import { uniqueDocumentContent } from './003-unique-document-content';
+
+/**
+ * Every schema migration; add new ones here with the next version number
+ */
+export const schemaMigrations: SchemaMigration[] = [
+  baseline,
+  chunkSearchVector,
+  uniqueDocumentContent,
+];
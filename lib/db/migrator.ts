@@ -0,0 +1,201 @@
+import { createHash } from 'crypto';
+import { Pool } from 'pg';
+import { schemaMigrations } from './migrations';
+
+/**
+ * A versioned schema change, applied once in its own transaction
+ * Migrations are append-only: once released, change the schema with a new
+ * migration rather than editing an old one
+ */
+export interface SchemaMigration {
+  version: number; // Applied in ascending order
+  name: string;
+  up: string; // SQL, may hold several statements
+}
+
+/**
+ * A migration recorded in schema_migrations
+ */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: Date;
+  modified: boolean; // The checked-in SQL changed after it was applied
+}
+
+/**
+ * Applied and pending migrations
+ */
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Array<{ version: number; name: string }>;
+}
+
+const SCHEMA_MIGRATIONS_DDL = `CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  checksum TEXT NOT NULL,
+  applied_at TIMESTAMP DEFAULT NOW()
+)`;
+
+/**
+ * sha256 of a migration's SQL, to spot migrations edited after release
+ */
+function checksum(migration: SchemaMigration): string {
+  return createHash('sha256').update(migration.up).digest('hex');
+}
+
+/**
+ * Migrations checked into the repo, in the order they apply
+ *
+ * @throws Error if two migrations share a version
+ */
+export function getSchemaMigrations(): SchemaMigration[] {
+  const sorted = [...schemaMigrations].sort((a, b) => a.version - b.version);
+  sorted.forEach((migration, index) => {
+    if (index > 0 && sorted[index - 1].version === migration.version) {
+      throw new Error(`Duplicate schema migration version: ${migration.version}`);
+    }
+  });
+  return sorted;
+}
+
+/**
+ * Read schema_migrations; empty before any migration has run
+ */
+async function readAppliedMigrations(
+  pool: Pool
+): Promise<Map<number, { name: string; checksum: string; appliedAt: Date }>> {
+  const exists = await pool.query("SELECT to_regclass('schema_migrations') IS NOT NULL AS exists");
+  const applied = new Map<number, { name: string; checksum: string; appliedAt: Date }>();
+  if (!exists.rows[0].exists) return applied;
+
+  const result = await pool.query(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+  result.rows.forEach((row) =>
+    applied.set(row.version, { name: row.name, checksum: row.checksum, appliedAt: row.applied_at })
+  );
+  return applied;
+}
+
+/**
+ * Report which migrations have been applied and which are pending
+ */
+export async function getMigrationStatus(pool: Pool): Promise<MigrationStatus> {
+  const migrations = getSchemaMigrations();
+  const applied = await readAppliedMigrations(pool);
+
+  return {
+    applied: Array.from(applied.entries()).map(([version, row]) => {
+      const migration = migrations.find((candidate) => candidate.version === version);
+      return {
+        version,
+        name: row.name,
+        appliedAt: row.appliedAt,
+        modified: migration !== undefined && checksum(migration) !== row.checksum,
+      };
+    }),
+    pending: migrations
+      .filter((migration) => !applied.has(migration.version))
+      .map(({ version, name }) => ({ version, name })),
+  };
+}
+
+/**
+ * Apply pending migrations in version order, each in its own transaction
+ * together with its schema_migrations row, so a failed migration leaves
+ * nothing half-applied. Concurrent runs (several uploads initializing at once,
+ * or several app instances) wait on an advisory lock and then find nothing
+ * left to do.
+ *
+ * @returns The migrations applied by this run
+ * @throws Error naming the migration that failed
+ */
+export async function runMigrations(pool: Pool): Promise<Array<{ version: number; name: string }>> {
+  const client = await pool.connect();
+  const applied: Array<{ version: number; name: string }> = [];
+
+  try {
+    // Serializes migration runs across processes
+    await client.query("SELECT pg_advisory_lock(hashtext('schema_migrations'))");
+
+    try {
+      await client.query(SCHEMA_MIGRATIONS_DDL);
+
+      const result = await client.query('SELECT version, checksum FROM schema_migrations');
+      const recorded = new Map<number, string>(
+        result.rows.map((row) => [row.version, row.checksum])
+      );
+
+      for (const migration of getSchemaMigrations()) {
+        const recordedChecksum = recorded.get(migration.version);
+        if (recordedChecksum !== undefined) {
+          if (recordedChecksum !== checksum(migration)) {
+            console.warn(
+              `Schema migration ${migration.version} (${migration.name}) was edited after it was applied`
+            );
+          }
+          continue;
+        }
+
+        console.log(`Applying schema migration ${migration.version} (${migration.name})...`);
+
+        try {
+          await client.query('BEGIN');
+          await client.query(migration.up);
+          await client.query(
+            'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+            [migration.version, migration.name, checksum(migration)]
+          );
+          await client.query('COMMIT');
+        } catch (error) {
+          await client.query('ROLLBACK');
+          throw new Error(
+            `Schema migration ${migration.version} (${migration.name}) failed: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`
+          );
+        }
+
+        applied.push({ version: migration.version, name: migration.name });
+      }
+    } finally {
+      await client.query("SELECT pg_advisory_unlock(hashtext('schema_migrations'))");
+    }
+
+    return applied;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Render every migration as one SQL script for psql or a hosted SQL editor;
+ * each migration runs in a transaction and is recorded in schema_migrations,
+ * so the runner skips it afterwards
+ * This is how lib/db/schema.sql is produced (npx ts-node migrate-db.ts schema)
+ */
+export function generateSchemaSql(): string {
+  const sections = getSchemaMigrations().map((migration) =>
+    [
+      `-- Migration ${migration.version}: ${migration.name}`,
+      'BEGIN;',
+      `${migration.up.trim().replace(/;$/, '')};`,
+      `INSERT INTO schema_migrations (version, name, checksum)\nVALUES (${migration.version}, '${migration.name.replace(/'/g, "''")}', '${checksum(migration)}')\nON CONFLICT (version) DO NOTHING;`,
+      'COMMIT;',
+    ].join('\n\n')
+  );
+
+  return [
+    [
+      '-- Generated from lib/db/migrations by `npx ts-node migrate-db.ts schema`; do not edit.',
+      '-- Sets up a new database: psql $DATABASE_URL -f lib/db/schema.sql',
+      '-- Existing databases: npx ts-node migrate-db.ts up',
+      '-- Embedding model cutovers (lib/db/embedding-migrations.ts) replace document_chunks.embedding',
+      '-- and its model columns at runtime, so a migrated database may hold vectors of another size.',
+    ].join('\n'),
+    `${SCHEMA_MIGRATIONS_DDL};`,
+    ...sections,
+  ].join('\n\n') + '\n';
+}
@@ -1,5 +1,5 @@
 import { Pool, PoolClient } from 'pg';
-import { RAG_CONFIG } from '../constants';
+import { runMigrations } from './migrator';
 
 if (!process.env.DATABASE_URL) {
   throw new Error('DATABASE_URL environment variable is not set');
@@ -39,73 +39,49 @@ export async function getPostgresClient(): Promise<PoolClient> {
   return await pool.connect();
 }
 
+let schemaReady: Promise<void> | null = null;
+
 /**
- * Initialize the database with pgvector extension and required tables
+ * Bring the database schema up to date by applying pending migrations
+ * (lib/db/migrations, see runMigrations)
+ * Only the first call in a process touches the database; later calls reuse
+ * its result, so callers can run this before every upload
  * CRITICAL: This must be called before any vector operations
  */
 export async function initDatabase(): Promise<void> {
-  const client = await pool.connect();
+  if (!schemaReady) {
+    schemaReady = migrateDatabase().catch((error) => {
+      schemaReady = null; // Let the next call retry
+      throw error;
+    });
+  }
+  return schemaReady;
+}
 
+// Apply pending migrations and log the result
+async function migrateDatabase(): Promise<void> {
   try {
     console.log('Connecting to PostgreSQL...');
 
-    // Create pgvector extension
-    console.log('Initializing pgvector extension...');
-    await client.query('CREATE EXTENSION IF NOT EXISTS vector');
-
-    // Create document_chunks table with proper schema
-    console.log('Creating document_chunks table...');
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS document_chunks (
-        id TEXT PRIMARY KEY,
-        document_id TEXT NOT NULL,
-        content TEXT NOT NULL,
-        embedding vector(${RAG_CONFIG.EMBEDDING_DIMENSIONS}),
-        county TEXT NOT NULL,
-        document_title TEXT NOT NULL,
-        year INTEGER NOT NULL,
-        chunk_index INTEGER NOT NULL,
-        total_chunks INTEGER NOT NULL,
-        section_header TEXT,
-        subsection_header TEXT,
-        created_at TIMESTAMP DEFAULT NOW()
-      )
-    `);
-
-    // CRITICAL: Create index with vector_cosine_ops (for <=> operator)
-    // Use lists=1 for small datasets (< 1000 rows) to avoid index scan issues
-    console.log('Creating vector index with cosine distance...');
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS document_chunks_embedding_idx
-      ON document_chunks USING ivfflat (embedding vector_cosine_ops)
-      WITH (lists = 1)
-    `);
-
-    // Create index for filtering by county
-    console.log('Creating county index...');
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS document_chunks_county_idx
-      ON document_chunks(county)
-    `);
-
-    // Create index for document_id lookups
-    console.log('Creating document_id index...');
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS document_chunks_document_id_idx
-      ON document_chunks(document_id)
-    `);
-
-    console.log('Database initialization completed successfully');
+    const applied = await runMigrations(pool);
+    console.log(
+      applied.length > 0
+        ? `Applied ${applied.length} schema migration(s): ${applied.map((migration) => migration.version).join(', ')}`
+        : 'Database schema is up to date'
+    );
 
     // Log current stats
-    const stats = await client.query('SELECT COUNT(*) as count FROM document_chunks');
-    console.log(`Current document chunks in database: ${stats.rows[0].count}`);
-
+    const stats = await pool.query(`
+      SELECT
+        (SELECT COUNT(*) FROM documents) as documents,
+        (SELECT COUNT(*) FROM document_chunks) as chunks
+    `);
+    console.log(
+      `Current documents in database: ${stats.rows[0].documents} (${stats.rows[0].chunks} chunks)`
+    );
   } catch (error) {
     console.error('Error initializing database:', error);
     throw new Error(`Failed to initialize database: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  } finally {
-    client.release();
   }
 }
 
@@ -1,4 +1,11 @@
+import { PoolClient } from 'pg';
 import { getClient } from './postgres-client';
+import {
+  applyVectorSearchSettings,
+  getVectorIndexInfo,
+  VECTOR_INDEX_NAME,
+  VectorIndexType,
+} from './vector-index';
 import { RAG_CONFIG } from '../constants';
 
 /**
@@ -72,62 +79,167 @@ export async function checkPgvectorExtension(): Promise<{
 }
 
 /**
- * Verify that the index uses vector_cosine_ops
+ * Measure how many of the exact nearest neighbours an index scan returns,
+ * using stored chunks as sample queries
+ * Each query runs twice: as an index scan with the search settings retrieval
+ * uses, and as an exact sequential scan
+ *
+ * @param filtered - Restrict each query to another county than its sample's,
+ *   as a county-filtered search does, so the nearest rows mostly fail the filter
+ * @returns Recall (0-1) and the number of queries it was measured over
  */
-export async function verifyVectorIndex(): Promise<{
+async function measureIndexRecall(
+  client: PoolClient,
+  samples: number,
+  k: number,
+  filtered: boolean = false
+): Promise<{ recall: number; queries: number }> {
+  const sampleResult = await client.query(
+    `
+    SELECT
+      s.embedding::text AS embedding,
+      COALESCE(
+        (SELECT o.county FROM document_chunks o WHERE o.county <> s.county ORDER BY random() LIMIT 1),
+        s.county
+      ) AS other_county
+    FROM (
+      SELECT embedding, county
+      FROM document_chunks
+      WHERE embedding IS NOT NULL
+      ORDER BY random()
+      LIMIT $1
+    ) s
+    `,
+    [samples]
+  );
+
+  const nearest = async (
+    embedding: string,
+    county: string | null,
+    useIndex: boolean
+  ): Promise<string[]> => {
+    await client.query('BEGIN');
+    try {
+      if (useIndex) {
+        await applyVectorSearchSettings(client, {}, k, county !== null);
+        await client.query('SET LOCAL enable_seqscan = off');
+      } else {
+        await client.query('SET LOCAL enable_indexscan = off');
+      }
+      const result = await client.query(
+        `
+        SELECT id FROM document_chunks
+        WHERE embedding IS NOT NULL AND ($3::text IS NULL OR county = $3)
+        ORDER BY embedding ${RAG_CONFIG.DISTANCE_OPERATOR} $1::vector
+        LIMIT $2
+        `,
+        [embedding, k, county]
+      );
+      return result.rows.map((row: { id: string }) => row.id);
+    } finally {
+      await client.query('COMMIT');
+    }
+  };
+
+  let found = 0;
+  let expected = 0;
+  for (const row of sampleResult.rows) {
+    const county = filtered ? row.other_county : null;
+    const exact = await nearest(row.embedding, county, false);
+    const approximate = new Set(await nearest(row.embedding, county, true));
+    expected += exact.length;
+    found += exact.filter((id) => approximate.has(id)).length;
+  }
+
+  return { recall: expected > 0 ? found / expected : 1, queries: sampleResult.rows.length };
+}
+
+/**
+ * Verify that the index uses vector_cosine_ops, and report its type and
+ * recall against exact search, both unfiltered and filtered by county
+ *
+ * @param options - samples: chunks used as test queries; k: neighbours compared per query
+ */
+export async function verifyVectorIndex(
+  options: { samples?: number; k?: number } = {}
+): Promise<{
   success: boolean;
   exists: boolean;
   usesCosinOps?: boolean;
+  indexType?: VectorIndexType;
+  recall?: number; // Share of exact top-k neighbours the index returned
+  filteredRecall?: number; // The same, for county-filtered searches
+  recallQueries?: number;
   details?: string;
   message: string;
 }> {
+  const { samples = 20, k = RAG_CONFIG.DEFAULT_TOP_K * 2 } = options;
+
   try {
     const pool = getClient();
     const client = await pool.connect();
 
-    // Check if index exists and get its details
-    const result = await client.query(`
-      SELECT
-        i.indexname,
-        pg_get_indexdef(i.indexrelid) as indexdef
-      FROM pg_indexes i
-      WHERE i.tablename = 'document_chunks'
-        AND i.indexname = 'document_chunks_embedding_idx'
-    `);
-
-    client.release();
-
-    if (result.rows.length === 0) {
-      console.log('✗ Vector index not found');
-      return {
-        success: true,
-        exists: false,
-        message: 'Index document_chunks_embedding_idx does not exist',
-      };
-    }
-
-    const indexDef = result.rows[0].indexdef;
-    const usesCosinOps = indexDef.includes('vector_cosine_ops');
-
-    if (usesCosinOps) {
-      console.log('✓ Vector index exists and uses vector_cosine_ops');
+    try {
+      // Check if index exists and get its details
+      const result = await client.query(`
+        SELECT
+          i.indexname,
+          i.indexdef
+        FROM pg_indexes i
+        WHERE i.tablename = 'document_chunks'
+          AND i.indexname = '${VECTOR_INDEX_NAME}'
+      `);
+
+      if (result.rows.length === 0) {
+        console.log('✗ Vector index not found');
+        return {
+          success: true,
+          exists: false,
+          message: `Index ${VECTOR_INDEX_NAME} does not exist`,
+        };
+      }
+
+      const indexDef: string = result.rows[0].indexdef;
+      const usesCosinOps = indexDef.includes('vector_cosine_ops');
+      const indexType = (await getVectorIndexInfo())?.type;
+
+      if (!usesCosinOps) {
+        console.log('✗ Vector index exists but does not use vector_cosine_ops');
+        console.log('Index definition:', indexDef);
+        return {
+          success: true,
+          exists: true,
+          usesCosinOps: false,
+          indexType,
+          details: indexDef,
+          message: 'Index exists but not using vector_cosine_ops (should be recreated)',
+        };
+      }
+
+      const { recall, queries } = await measureIndexRecall(client, samples, k);
+      const { recall: filteredRecall } = await measureIndexRecall(client, samples, k, true);
+      const recallText =
+        queries > 0
+          ? `recall@${k} ${(recall * 100).toFixed(1)}% (county-filtered ${(filteredRecall * 100).toFixed(
+              1
+            )}%) over ${queries} queries`
+          : 'no vectors to measure recall';
+
+      console.log(`✓ Vector index exists (${indexType ?? 'unknown type'}) and uses vector_cosine_ops`);
+      console.log(`  ${recallText}`);
       return {
         success: true,
         exists: true,
         usesCosinOps: true,
+        indexType,
+        recall: queries > 0 ? recall : undefined,
+        filteredRecall: queries > 0 ? filteredRecall : undefined,
+        recallQueries: queries,
         details: indexDef,
-        message: 'Index correctly configured with vector_cosine_ops',
-      };
-    } else {
-      console.log('✗ Vector index exists but does not use vector_cosine_ops');
-      console.log('Index definition:', indexDef);
-      return {
-        success: true,
-        exists: true,
-        usesCosinOps: false,
-        details: indexDef,
-        message: 'Index exists but not using vector_cosine_ops (should be recreated)',
+        message: `Index correctly configured with vector_cosine_ops (${recallText})`,
       };
+    } finally {
+      client.release();
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -337,7 +449,15 @@ export async function runAllTests(): Promise<void> {
   console.log('=== Test Summary ===');
   console.log(`Connection: ${connectionTest.success ? '✓' : '✗'}`);
   console.log(`pgvector extension: ${extensionTest.installed ? '✓' : '✗'}`);
-  console.log(`Vector index: ${indexTest.exists && indexTest.usesCosinOps ? '✓' : '✗'}`);
+  console.log(
+    `Vector index: ${indexTest.exists && indexTest.usesCosinOps ? '✓' : '✗'}${
+      indexTest.indexType ? ` (${indexTest.indexType})` : ''
+    }${indexTest.recall !== undefined ? `, recall ${(indexTest.recall * 100).toFixed(1)}%` : ''}${
+      indexTest.filteredRecall !== undefined
+        ? `, filtered ${(indexTest.filteredRecall * 100).toFixed(1)}%`
+        : ''
+    }`
+  );
   console.log(`Table stats: ${statsTest.success ? '✓' : '✗'}`);
   console.log(`Data rows: ${statsTest.totalRows || 0}`);
   console.log('');
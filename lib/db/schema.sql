@@ -1,45 +1,246 @@
--- Enable the pgvector extension
+-- Generated from lib/db/migrations by `npx ts-node migrate-db.ts schema`; do not edit.
+-- Sets up a new database: psql $DATABASE_URL -f lib/db/schema.sql
+-- Existing databases: npx ts-node migrate-db.ts up
+-- Embedding model cutovers (lib/db/embedding-migrations.ts) replace document_chunks.embedding
+-- and its model columns at runtime, so a migrated database may hold vectors of another size.
+
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  checksum TEXT NOT NULL,
+  applied_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Migration 1: baseline
+
+BEGIN;
+
 CREATE EXTENSION IF NOT EXISTS vector;
 
--- Create a table for storing document chunks with embeddings
+-- One row per uploaded file
+CREATE TABLE IF NOT EXISTS documents (
+  id TEXT PRIMARY KEY,
+  file_name TEXT NOT NULL,
+  file_size BIGINT NOT NULL DEFAULT 0,
+  content_hash TEXT,
+  format TEXT NOT NULL DEFAULT 'markdown',
+  county TEXT NOT NULL,
+  title TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  effective_date DATE,
+  source_url TEXT,
+  statute_references TEXT[],
+  tags TEXT[],
+  uploaded_by TEXT,
+  page_count INTEGER,
+  storage_backend TEXT,
+  version_group_id TEXT,
+  version INTEGER NOT NULL DEFAULT 1,
+  superseded_by TEXT REFERENCES documents(id) ON DELETE SET NULL,
+  superseded_at TIMESTAMP,
+  chunking_strategy TEXT NOT NULL DEFAULT 'section-aware',
+  chunking_options JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'processing',
+  error_message TEXT,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS storage_backend TEXT,
+ADD COLUMN IF NOT EXISTS version_group_id TEXT,
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS superseded_by TEXT REFERENCES documents(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS chunking_strategy TEXT NOT NULL DEFAULT 'section-aware',
+ADD COLUMN IF NOT EXISTS chunking_options JSONB NOT NULL DEFAULT '{}';
+
+-- Original uploads when BLOB_STORE=postgres
+CREATE TABLE IF NOT EXISTS document_files (
+  document_id TEXT PRIMARY KEY REFERENCES documents(id) ON DELETE CASCADE,
+  data BYTEA NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Vectors by sha256 of the embedded text; no fixed size, so any model's vectors fit
+CREATE TABLE IF NOT EXISTS embedding_cache (
+  text_hash TEXT NOT NULL,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  embedding vector NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (text_hash, model, dimensions)
+);
+
 CREATE TABLE IF NOT EXISTS document_chunks (
-    id SERIAL PRIMARY KEY,
-    document_name TEXT NOT NULL,
-    chunk_text TEXT NOT NULL,
-    chunk_index INTEGER NOT NULL,
-    embedding VECTOR(1536), -- OpenAI ada-002 embedding dimension
-    metadata JSONB,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+  id TEXT PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  embedding vector(1536),
+  county TEXT NOT NULL,
+  document_title TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  total_chunks INTEGER NOT NULL,
+  section_header TEXT,
+  subsection_header TEXT,
+  heading_path TEXT[],
+  page_start INTEGER,
+  page_end INTEGER,
+  token_count INTEGER,
+  embedding_text TEXT,
+  embedding_provider TEXT,
+  embedding_model TEXT,
+  embedding_dimensions INTEGER,
+  created_at TIMESTAMP DEFAULT NOW()
 );
 
--- Create an index for vector similarity search
-CREATE INDEX IF NOT EXISTS document_chunks_embedding_idx
-ON document_chunks
-USING ivfflat (embedding vector_cosine_ops)
-WITH (lists = 100);
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS heading_path TEXT[],
+ADD COLUMN IF NOT EXISTS page_start INTEGER,
+ADD COLUMN IF NOT EXISTS page_end INTEGER,
+ADD COLUMN IF NOT EXISTS token_count INTEGER,
+ADD COLUMN IF NOT EXISTS embedding_text TEXT,
+ADD COLUMN IF NOT EXISTS embedding_provider TEXT,
+ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER;
+
+-- Chunks embedded before providers were recorded all came from OpenAI
+UPDATE document_chunks
+SET embedding_provider = 'openai', embedding_model = 'text-embedding-3-small', embedding_dimensions = 1536
+WHERE embedding_model IS NULL AND embedding IS NOT NULL;
 
--- Create an index on document_name for faster queries
-CREATE INDEX IF NOT EXISTS document_chunks_document_name_idx
-ON document_chunks (document_name);
+-- Hash of whitespace-normalized chunk content, used to spot overlapping uploads
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS content_hash TEXT
+GENERATED ALWAYS AS (md5(lower(btrim(regexp_replace(content, '\s+', ' ', 'g'))))) STORED;
 
--- Create a function to update the updated_at timestamp
-CREATE OR REPLACE FUNCTION update_updated_at_column()
-RETURNS TRIGGER AS $$
+-- Documents for chunks stored before the documents table existed
+INSERT INTO documents (id, file_name, county, title, year, status, chunk_count, created_at)
+SELECT
+  document_id,
+  LOWER(REGEXP_REPLACE(MIN(document_title), '\s+', '-', 'g')) || '.md',
+  MIN(county),
+  MIN(document_title),
+  MIN(year),
+  'ready',
+  COUNT(*),
+  MIN(created_at)
+FROM document_chunks
+GROUP BY document_id
+ON CONFLICT (id) DO NOTHING;
+
+DO $$
 BEGIN
-    NEW.updated_at = CURRENT_TIMESTAMP;
-    RETURN NEW;
-END;
-$$ language 'plpgsql';
-
--- Create a trigger to automatically update the updated_at column
-CREATE TRIGGER update_document_chunks_updated_at
-BEFORE UPDATE ON document_chunks
-FOR EACH ROW
-EXECUTE FUNCTION update_updated_at_column();
-
--- Example query for similarity search:
--- SELECT id, document_name, chunk_text, 1 - (embedding <=> '[your_query_embedding_vector]'::vector) as similarity
--- FROM document_chunks
--- ORDER BY embedding <=> '[your_query_embedding_vector]'::vector
--- LIMIT 5;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'document_chunks_document_id_fkey'
+  ) THEN
+    ALTER TABLE document_chunks
+    ADD CONSTRAINT document_chunks_document_id_fkey
+    FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+-- Every document starts its own version group
+UPDATE documents SET version_group_id = id WHERE version_group_id IS NULL;
+
+-- vector_cosine_ops matches the <=> operator; lists = 1 suits small datasets
+CREATE INDEX IF NOT EXISTS document_chunks_embedding_idx
+ON document_chunks USING ivfflat (embedding vector_cosine_ops)
+WITH (lists = 1);
+
+CREATE INDEX IF NOT EXISTS document_chunks_county_idx ON document_chunks(county);
+CREATE INDEX IF NOT EXISTS documents_version_group_idx ON documents(version_group_id);
+CREATE INDEX IF NOT EXISTS documents_content_hash_idx ON documents(content_hash);
+CREATE INDEX IF NOT EXISTS document_chunks_content_hash_idx ON document_chunks(content_hash);
+CREATE INDEX IF NOT EXISTS document_chunks_document_id_idx ON document_chunks(document_id);
+
+-- Switches of every chunk to another embedding model
+CREATE TABLE IF NOT EXISTS embedding_migrations (
+  id SERIAL PRIMARY KEY,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  requests_dimensions BOOLEAN NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running',
+  total_chunks INTEGER NOT NULL DEFAULT 0,
+  embedded_chunks INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP,
+  activated_at TIMESTAMP
+);
+
+INSERT INTO schema_migrations (version, name, checksum)
+VALUES (1, 'baseline', '3e7f03e35e585fe3ec16fbc40982c56e72262d85e794c90563cf9173cee1a79b')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- Migration 2: chunk_search_vector
+
+BEGIN;
+
+-- array_to_string is only STABLE, which generated columns refuse; joining
+-- text elements always gives the same result, so the wrapper is IMMUTABLE
+CREATE OR REPLACE FUNCTION heading_path_text(headings TEXT[]) RETURNS TEXT
+LANGUAGE sql IMMUTABLE PARALLEL SAFE
+AS $$ SELECT array_to_string(headings, ' ') $$;
+
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', content), 'A') ||
+  setweight(
+    to_tsvector(
+      'english',
+      coalesce(document_title, '') || ' ' || coalesce(
+        heading_path_text(heading_path),
+        coalesce(section_header, '') || ' ' || coalesce(subsection_header, '')
+      )
+    ),
+    'B'
+  )
+) STORED;
+
+CREATE INDEX IF NOT EXISTS document_chunks_search_vector_idx
+ON document_chunks USING GIN (search_vector);
+
+INSERT INTO schema_migrations (version, name, checksum)
+VALUES (2, 'chunk_search_vector', 'ebb51835b510bbdce73a5c09aeddedd2d159ef5a5715bd747d3417e972bbaa78')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
+
+-- Migration 3: unique_document_content
+
+BEGIN;
+
+UPDATE documents d
+SET status = 'failed',
+    error_message = 'Duplicate of ' || ranked.kept_id || ' (marked failed by schema migration 3)',
+    updated_at = NOW()
+FROM (
+  SELECT
+    id,
+    FIRST_VALUE(id) OVER same_content AS kept_id,
+    ROW_NUMBER() OVER same_content AS position
+  FROM documents
+  WHERE content_hash IS NOT NULL AND status <> 'failed'
+  WINDOW same_content AS (
+    PARTITION BY content_hash
+    ORDER BY (status = 'ready') DESC, created_at ASC, id ASC
+  )
+) ranked
+WHERE d.id = ranked.id AND ranked.position > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS documents_content_hash_key
+ON documents(content_hash) WHERE status <> 'failed';
+
+INSERT INTO schema_migrations (version, name, checksum)
+VALUES (3, 'unique_document_content', 'dd887ca4087997f149a06c7179863f78dc03a6638d6f63ee18891e3f0a9da0c0')
+ON CONFLICT (version) DO NOTHING;
+
+COMMIT;
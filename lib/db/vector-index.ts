@@ -0,0 +1,293 @@
+import { PoolClient } from 'pg';
+import { getClient } from './postgres-client';
+import { RAG_CONFIG } from '../constants';
+
+/**
+ * pgvector index types
+ * - ivfflat: clusters vectors into lists and scans the closest ones; cheap to
+ *   build, but the lists are fixed at build time, so it is rebuilt as the
+ *   corpus grows
+ * - hnsw: a navigable graph; better speed and recall at scale and unaffected
+ *   by growth, but slower to build and larger
+ */
+export type VectorIndexType = 'hnsw' | 'ivfflat';
+
+/**
+ * How the embedding index should be built
+ */
+export interface VectorIndexPlan {
+  type: VectorIndexType;
+  lists?: number; // ivfflat
+  m?: number; // hnsw
+  efConstruction?: number; // hnsw
+}
+
+/**
+ * The embedding index as it exists in the database
+ */
+export interface VectorIndexInfo extends VectorIndexPlan {
+  definition: string;
+}
+
+/**
+ * Outcome of an index check
+ */
+export interface VectorIndexStatus {
+  rowCount: number; // Chunks with an embedding
+  current: VectorIndexInfo | null;
+  planned: VectorIndexPlan;
+  rebuilt: boolean;
+}
+
+/**
+ * Per-query search tuning
+ */
+export interface VectorSearchSettings {
+  efSearch?: number; // hnsw candidates per query (default RAG_CONFIG.HNSW_EF_SEARCH)
+  probes?: number; // ivfflat lists per query (default RAG_CONFIG.IVFFLAT_PROBES)
+}
+
+export const VECTOR_INDEX_NAME = 'document_chunks_embedding_idx';
+
+// Built next to the live index, then swapped in
+const NEW_INDEX_NAME = `${VECTOR_INDEX_NAME}_new`;
+
+// IVFFlat list counts within this factor of the planned one are kept, so the
+// index is rebuilt a logarithmic number of times as the corpus grows
+const IVFFLAT_REBUILD_FACTOR = 2;
+
+// Largest hnsw.ef_search pgvector accepts
+const MAX_EF_SEARCH = 1000;
+
+// First pgvector release with iterative index scans
+const ITERATIVE_SCAN_VERSION = [0, 8];
+
+let checkInProgress: Promise<VectorIndexStatus> | null = null;
+let iterativeScanSupport: Promise<boolean> | null = null;
+
+/**
+ * Pick the index for a corpus: IVFFlat with one list per
+ * RAG_CONFIG.IVFFLAT_ROWS_PER_LIST rows below RAG_CONFIG.HNSW_MIN_ROWS, HNSW
+ * from there on
+ *
+ * @param rowCount - Chunks with an embedding
+ */
+export function chooseVectorIndex(rowCount: number): VectorIndexPlan {
+  if (rowCount >= RAG_CONFIG.HNSW_MIN_ROWS) {
+    return {
+      type: 'hnsw',
+      m: RAG_CONFIG.HNSW_M,
+      efConstruction: RAG_CONFIG.HNSW_EF_CONSTRUCTION,
+    };
+  }
+
+  return {
+    type: 'ivfflat',
+    lists: Math.max(1, Math.floor(rowCount / RAG_CONFIG.IVFFLAT_ROWS_PER_LIST)),
+  };
+}
+
+/**
+ * CREATE INDEX statement for a plan
+ * vector_cosine_ops matches the <=> operator used by every search
+ *
+ * @param options - name: index name; concurrently: build without blocking
+ *   writes; column: vector column to index (default embedding)
+ */
+export function vectorIndexSql(
+  plan: VectorIndexPlan,
+  options: { name?: string; concurrently?: boolean; column?: string } = {}
+): string {
+  const { name = VECTOR_INDEX_NAME, concurrently = false, column = 'embedding' } = options;
+  const withClause =
+    plan.type === 'hnsw'
+      ? `m = ${Math.floor(plan.m ?? RAG_CONFIG.HNSW_M)}, ef_construction = ${Math.floor(
+          plan.efConstruction ?? RAG_CONFIG.HNSW_EF_CONSTRUCTION
+        )}`
+      : `lists = ${Math.floor(plan.lists ?? 1)}`;
+
+  return `CREATE INDEX${concurrently ? ' CONCURRENTLY' : ''} ${name}
+    ON document_chunks USING ${plan.type} (${column} vector_cosine_ops)
+    WITH (${withClause})`;
+}
+
+/**
+ * Parse an index definition from pg_indexes
+ */
+function parseIndexDefinition(definition: string): VectorIndexInfo | null {
+  const type = /USING (hnsw|ivfflat)/i.exec(definition)?.[1]?.toLowerCase() as
+    | VectorIndexType
+    | undefined;
+  if (!type) return null;
+
+  const option = (key: string) => {
+    const match = new RegExp(`\\b${key}\\s*=\\s*'?(\\d+)`, 'i').exec(definition);
+    return match ? parseInt(match[1]) : undefined;
+  };
+
+  return type === 'hnsw'
+    ? { type, m: option('m'), efConstruction: option('ef_construction'), definition }
+    : { type, lists: option('lists'), definition };
+}
+
+/**
+ * Get the embedding index, or null if there is none
+ */
+export async function getVectorIndexInfo(): Promise<VectorIndexInfo | null> {
+  const pool = getClient();
+  const result = await pool.query(
+    `SELECT indexdef FROM pg_indexes WHERE tablename = 'document_chunks' AND indexname = $1`,
+    [VECTOR_INDEX_NAME]
+  );
+  return result.rows.length > 0 ? parseIndexDefinition(result.rows[0].indexdef) : null;
+}
+
+/**
+ * Whether the existing index is close enough to the plan to keep
+ */
+function matchesPlan(current: VectorIndexInfo | null, planned: VectorIndexPlan): boolean {
+  if (!current) return false;
+  // HNSW needs no rebuild as rows are added, and serves a shrunken corpus as well
+  if (current.type === 'hnsw') return true;
+  if (planned.type !== 'ivfflat') return false;
+
+  const lists = current.lists ?? 1;
+  const plannedLists = planned.lists ?? 1;
+  return lists * IVFFLAT_REBUILD_FACTOR > plannedLists && lists < plannedLists * IVFFLAT_REBUILD_FACTOR;
+}
+
+/**
+ * Rebuild the embedding index if the corpus has outgrown it (see
+ * chooseVectorIndex)
+ * The new index is built concurrently next to the live one, which keeps
+ * serving searches and accepting uploads, and then swapped in; only the swap
+ * takes a brief exclusive lock. Concurrent calls share one check.
+ *
+ * @param options - force: rebuild even if the index matches the plan
+ */
+export async function ensureVectorIndex(
+  options: { force?: boolean } = {}
+): Promise<VectorIndexStatus> {
+  if (!checkInProgress) {
+    checkInProgress = checkVectorIndex(options.force ?? false).finally(() => {
+      checkInProgress = null;
+    });
+  }
+  return checkInProgress;
+}
+
+async function checkVectorIndex(force: boolean): Promise<VectorIndexStatus> {
+  const pool = getClient();
+
+  const countResult = await pool.query(
+    'SELECT COUNT(*) AS count FROM document_chunks WHERE embedding IS NOT NULL'
+  );
+  const rowCount = parseInt(countResult.rows[0].count);
+  const current = await getVectorIndexInfo();
+  const planned = chooseVectorIndex(rowCount);
+
+  if (!force && matchesPlan(current, planned)) {
+    return { rowCount, current, planned, rebuilt: false };
+  }
+
+  console.log(
+    `Building ${planned.type} vector index for ${rowCount} chunks (was ${current?.type ?? 'none'})...`
+  );
+
+  // A concurrent build that failed leaves an invalid index behind
+  await pool.query(`DROP INDEX IF EXISTS ${NEW_INDEX_NAME}`);
+  await pool.query(vectorIndexSql(planned, { name: NEW_INDEX_NAME, concurrently: true }));
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(`DROP INDEX IF EXISTS ${VECTOR_INDEX_NAME}`);
+    await client.query(`ALTER INDEX ${NEW_INDEX_NAME} RENAME TO ${VECTOR_INDEX_NAME}`);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  console.log(`Vector index rebuilt as ${planned.type}`);
+  return { rowCount, current: await getVectorIndexInfo(), planned, rebuilt: true };
+}
+
+/**
+ * Check the index in the background after the corpus changed; failures are
+ * logged, never thrown, since searches work (more slowly) on any index
+ */
+export function scheduleVectorIndexCheck(): void {
+  ensureVectorIndex().catch((error) =>
+    console.error(
+      `Vector index check failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    )
+  );
+}
+
+/**
+ * Whether the installed pgvector can continue an index scan past its first
+ * batch of candidates (0.8 and later); checked once per process
+ */
+function supportsIterativeScan(client: PoolClient): Promise<boolean> {
+  if (!iterativeScanSupport) {
+    iterativeScanSupport = client
+      .query("SELECT extversion FROM pg_extension WHERE extname = 'vector'")
+      .then((result) => {
+        const [major = 0, minor = 0] = String(result.rows[0]?.extversion ?? '0')
+          .split('.')
+          .map((part) => parseInt(part) || 0);
+        return (
+          major > ITERATIVE_SCAN_VERSION[0] ||
+          (major === ITERATIVE_SCAN_VERSION[0] && minor >= ITERATIVE_SCAN_VERSION[1])
+        );
+      })
+      .catch((error) => {
+        iterativeScanSupport = null; // Check again next time
+        throw error;
+      });
+  }
+  return iterativeScanSupport;
+}
+
+/**
+ * Tune the index scan for the rest of the client's current transaction
+ * Both settings are applied, so they hold whichever index type exists.
+ * ef_search is raised to at least topK, since HNSW returns no more rows than
+ * it examines.
+ * Filters (county, model, current version) are applied to the rows the index
+ * returns, so an index scan that stopped after ef_search candidates (or the
+ * probed lists) could return fewer than topK rows. On pgvector 0.8+ the scan
+ * continues until enough rows pass; on older versions a selective filter
+ * falls back to exact search.
+ *
+ * @param client - Client inside a transaction (SET LOCAL has no effect otherwise)
+ * @param topK - Rows the search will return
+ * @param selectiveFilter - The query filters out most chunks (e.g. by county)
+ */
+export async function applyVectorSearchSettings(
+  client: PoolClient,
+  settings: VectorSearchSettings,
+  topK: number,
+  selectiveFilter: boolean = false
+): Promise<void> {
+  const efSearch = Math.min(
+    Math.max(Math.floor(settings.efSearch ?? RAG_CONFIG.HNSW_EF_SEARCH), topK, 1),
+    MAX_EF_SEARCH
+  );
+  const probes = Math.max(Math.floor(settings.probes ?? RAG_CONFIG.IVFFLAT_PROBES), 1);
+
+  // SET does not take parameters; both values are integers
+  await client.query(`SET LOCAL hnsw.ef_search = ${efSearch}`);
+  await client.query(`SET LOCAL ivfflat.probes = ${probes}`);
+
+  if (await supportsIterativeScan(client)) {
+    // IVFFlat only supports relaxed ordering; callers sort by distance anyway
+    await client.query('SET LOCAL hnsw.iterative_scan = strict_order');
+    await client.query('SET LOCAL ivfflat.iterative_scan = relaxed_order');
+  } else if (selectiveFilter) {
+    await client.query('SET LOCAL enable_indexscan = off');
+  }
+}
@@ -1,5 +1,12 @@
 import { getClient } from './postgres-client';
-import { generateEmbedding, generateEmbeddings } from '../embeddings';
+import {
+  beginEmbeddedTransaction,
+  EmbeddedTransaction,
+  EmbeddingCacheStats,
+  generateEmbedding,
+  generateEmbeddings,
+} from '../embeddings';
+import { applyVectorSearchSettings, scheduleVectorIndexCheck } from './vector-index';
 import { RAG_CONFIG } from '../constants';
 import { DocumentChunk } from '../types';
 
@@ -10,6 +17,8 @@ export interface QueryOptions {
   topK?: number;
   maxDistance?: number;
   county?: string;
+  efSearch?: number; // HNSW candidates per query (see applyVectorSearchSettings)
+  probes?: number; // IVFFlat lists per query
 }
 
 /**
@@ -25,6 +34,9 @@ export interface VectorSearchResult {
     year: number;
     sectionHeader?: string;
     subsectionHeader?: string;
+    headingPath?: string[];
+    pageStart?: number;
+    pageEnd?: number;
     chunkIndex: number;
     totalChunks: number;
   };
@@ -36,6 +48,7 @@ export interface VectorSearchResult {
 export interface StoreResult {
   success: boolean;
   vectorCount: number;
+  embeddingCache?: EmbeddingCacheStats; // Chunks whose vectors came from the cache
   error?: string;
 }
 
@@ -50,45 +63,69 @@ export interface DocumentStats {
 
 /**
  * Store document chunks with embeddings in PostgreSQL
+ * With replaceExisting, the document's current chunks are deleted in the same
+ * transaction, so readers see either the old or the new chunks, never a mix
  *
- * @param chunks - Array of document chunks to store
+ * @param chunks - Array of document chunks to store (all for one document when replacing)
+ * @param options - replaceExisting: swap out the document's existing chunks
  * @returns Promise<StoreResult> - Result of the store operation
  */
-export async function storeDocumentChunks(chunks: DocumentChunk[]): Promise<StoreResult> {
+export async function storeDocumentChunks(
+  chunks: DocumentChunk[],
+  options: { replaceExisting?: boolean } = {}
+): Promise<StoreResult> {
   if (!chunks || chunks.length === 0) {
     return { success: false, vectorCount: 0, error: 'No chunks provided' };
   }
 
-  const pool = getClient();
-  const client = await pool.connect();
+  console.log(`Storing ${chunks.length} document chunks...`);
 
+  // Generate embeddings for all chunks, then start the transaction
+  // Vectors must match the column's model; the lock keeps a cutover from
+  // changing it before this transaction commits
+  // Chunks with tables embed a row-per-line rendering instead of the raw markdown
+  const texts = chunks.map(chunk => chunk.embeddingContent ?? chunk.content);
+  let embeddingCache: EmbeddingCacheStats = { hits: 0, misses: 0 };
+  let transaction: EmbeddedTransaction<number[][]>;
   try {
-    console.log(`Storing ${chunks.length} document chunks...`);
-
-    // Start transaction
-    await client.query('BEGIN');
-
-    // Generate embeddings for all chunks
     console.log(`Generating embeddings for ${chunks.length} chunks...`);
-    console.log(`Using model: ${RAG_CONFIG.EMBEDDING_MODEL} with ${RAG_CONFIG.EMBEDDING_DIMENSIONS} dimensions`);
+    transaction = await beginEmbeddedTransaction('ROW EXCLUSIVE', provider => {
+      embeddingCache = { hits: 0, misses: 0 }; // Only the final attempt counts
+      return generateEmbeddings(texts, { provider, stats: embeddingCache });
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error generating embeddings:', errorMessage);
+    return { success: false, vectorCount: 0, error: errorMessage };
+  }
 
-    const texts = chunks.map(chunk => chunk.content);
-    const embeddings = await generateEmbeddings(texts);
+  const { client, provider, embedded: embeddings } = transaction;
 
+  try {
     if (embeddings.length !== chunks.length) {
       throw new Error(
         `Embedding count mismatch: expected ${chunks.length}, got ${embeddings.length}`
       );
     }
 
+    if (options.replaceExisting) {
+      const deleted = await client.query(
+        'DELETE FROM document_chunks WHERE document_id = $1',
+        [chunks[0].documentId]
+      );
+      console.log(`Replacing ${deleted.rowCount} existing chunks...`);
+    }
+
     console.log('Storing vectors in PostgreSQL...');
 
     // Prepare the insert query
     const query = `
       INSERT INTO document_chunks
       (id, document_id, content, embedding, county, document_title, year,
-       chunk_index, total_chunks, section_header, subsection_header)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       chunk_index, total_chunks, section_header, subsection_header,
+       page_start, page_end, token_count, embedding_text, heading_path,
+       embedding_provider, embedding_model, embedding_dimensions)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
     `;
 
     let storedCount = 0;
@@ -113,6 +150,14 @@ export async function storeDocumentChunks(chunks: DocumentChunk[]): Promise<Stor
         chunk.metadata.totalChunks,
         chunk.metadata.sectionHeader || null,
         chunk.metadata.subsectionHeader || null,
+        chunk.metadata.pageStart ?? null,
+        chunk.metadata.pageEnd ?? null,
+        chunk.metadata.tokenCount,
+        chunk.embeddingContent ?? null,
+        chunk.metadata.headingPath ?? [],
+        provider.name,
+        provider.model,
+        provider.dimensions,
       ]);
 
       storedCount++;
@@ -128,9 +173,13 @@ export async function storeDocumentChunks(chunks: DocumentChunk[]): Promise<Stor
 
     console.log(`Successfully stored ${storedCount} vectors`);
 
+    // A growing corpus eventually needs a larger or different index
+    scheduleVectorIndexCheck();
+
     return {
       success: true,
       vectorCount: storedCount,
+      embeddingCache,
     };
 
   } catch (error) {
@@ -211,24 +260,38 @@ export async function queryVectors(
     topK = RAG_CONFIG.DEFAULT_TOP_K,
     maxDistance = RAG_CONFIG.MAX_DISTANCE_THRESHOLD,
     county,
+    efSearch,
+    probes,
   } = options;
 
-  const pool = getClient();
-  const client = await pool.connect();
+  console.log(`Querying vectors for: "${queryText.substring(0, 50)}${queryText.length > 50 ? '...' : ''}"`);
+  if (county) {
+    console.log(`Filtering by county: ${county}`);
+  }
 
+  // Generate embedding for query text, then start the search's transaction,
+  // which holds the active model steady until the search has run
+  let transaction: EmbeddedTransaction<number[]>;
   try {
-    console.log(`Querying vectors for: "${queryText.substring(0, 50)}${queryText.length > 50 ? '...' : ''}"`);
-    if (county) {
-      console.log(`Filtering by county: ${county}`);
-    }
-
-    // Generate embedding for query text
     console.log(`Generating query embedding...`);
-    const queryEmbedding = await generateEmbedding(queryText);
+    transaction = await beginEmbeddedTransaction('ACCESS SHARE', provider =>
+      generateEmbedding(queryText, provider)
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error querying vectors:', errorMessage);
+    return [];
+  }
 
+  const { client, provider, embedded: queryEmbedding } = transaction;
+
+  try {
     // Format embedding for PostgreSQL
     const embeddingStr = `[${queryEmbedding.join(',')}]`;
 
+    // Vectors from another model are not comparable with the query's
+    const embeddingModel = provider.model;
+
     // CRITICAL: Use <=> operator (cosine distance) to match the index
     // Build query with optional county filter
     let query: string;
@@ -244,15 +307,18 @@ export async function queryVectors(
           year,
           section_header,
           subsection_header,
+          heading_path,
+          page_start,
+          page_end,
           chunk_index,
           total_chunks,
           embedding ${RAG_CONFIG.DISTANCE_OPERATOR} $1::vector AS distance
         FROM document_chunks
-        WHERE county = $2
+        WHERE county = $2 AND embedding_model = $3
         ORDER BY embedding ${RAG_CONFIG.DISTANCE_OPERATOR} $1::vector
-        LIMIT $3
+        LIMIT $4
       `;
-      queryParams = [embeddingStr, county, topK];
+      queryParams = [embeddingStr, county, embeddingModel, topK];
     } else {
       query = `
         SELECT
@@ -263,18 +329,28 @@ export async function queryVectors(
           year,
           section_header,
           subsection_header,
+          heading_path,
+          page_start,
+          page_end,
           chunk_index,
           total_chunks,
           embedding ${RAG_CONFIG.DISTANCE_OPERATOR} $1::vector AS distance
         FROM document_chunks
+        WHERE embedding_model = $2
         ORDER BY embedding ${RAG_CONFIG.DISTANCE_OPERATOR} $1::vector
-        LIMIT $2
+        LIMIT $3
       `;
-      queryParams = [embeddingStr, topK];
+      queryParams = [embeddingStr, embeddingModel, topK];
     }
 
     console.log(`Executing vector search with ${RAG_CONFIG.DISTANCE_OPERATOR} operator...`);
+    // Index tuning applies to this transaction only
+    await applyVectorSearchSettings(client, { efSearch, probes }, topK, Boolean(county));
     const result = await client.query(query, queryParams);
+    await client.query('COMMIT');
+
+    // Iterative IVFFlat scans return rows in roughly, not strictly, distance order
+    result.rows.sort((a, b) => a.distance - b.distance);
 
     console.log(`Found ${result.rows.length} results before distance filtering`);
 
@@ -291,6 +367,9 @@ export async function queryVectors(
           year: row.year,
           sectionHeader: row.section_header || undefined,
           subsectionHeader: row.subsection_header || undefined,
+          headingPath: row.heading_path ?? undefined,
+          pageStart: row.page_start ?? undefined,
+          pageEnd: row.page_end ?? undefined,
           chunkIndex: row.chunk_index,
           totalChunks: row.total_chunks,
         },
@@ -309,6 +388,7 @@ export async function queryVectors(
     return results;
 
   } catch (error) {
+    await client.query('ROLLBACK');
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error('Error querying vectors:', errorMessage);
     return [];
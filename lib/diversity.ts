@@ -0,0 +1,141 @@
+import { RAG_CONFIG } from './constants';
+import type { RetrievedChunk } from './retrieval';
+
+/**
+ * How many chunks to pick and how much to favour variety
+ */
+export interface DiversityOptions {
+  topK?: number; // Chunks to select (default RAG_CONFIG.DEFAULT_TOP_K)
+  lambda?: number; // Relevance vs. novelty, 0-1; 1 ranks by relevance alone (default RAG_CONFIG.MMR_LAMBDA)
+  maxPerDocument?: number; // Most chunks from one document (default: no cap)
+  maxPerCounty?: number; // Most chunks from one county (default: no cap)
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either has no length)
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Relevance of each chunk on a 0-1 scale, from the latest stage that scored
+ * every candidate: rerank score, fused hybrid score (relative to the best,
+ * since RRF scores are tiny), or cosine similarity to the query
+ * Gaps are kept rather than stretched to the full range, so a near-duplicate
+ * of a slightly better chunk doesn't outweigh a fresh one
+ */
+function relevanceScores(chunks: RetrievedChunk[]): number[] {
+  if (chunks.every((chunk) => chunk.rerankScore !== undefined)) {
+    return chunks.map((chunk) => chunk.rerankScore!);
+  }
+
+  if (chunks.every((chunk) => chunk.score !== undefined)) {
+    const max = Math.max(...chunks.map((chunk) => chunk.score!));
+    return chunks.map((chunk) => (max > 0 ? chunk.score! / max : 1));
+  }
+
+  return chunks.map((chunk) => 1 - chunk.distance);
+}
+
+/**
+ * Select chunks by Maximal Marginal Relevance
+ * Chunks are picked one at a time, each scoring
+ * lambda * relevance - (1 - lambda) * (highest similarity to a chunk already picked),
+ * so the neighbouring, overlapping chunks of one section stop filling the
+ * whole context and other documents and counties get a place. Similarity is
+ * the cosine of the chunks' embeddings; chunks without one only compete on
+ * relevance.
+ * Chunks that would exceed a per-document or per-county cap are passed over,
+ * so fewer than topK may be returned.
+ *
+ * @param chunks - Candidates, most relevant first
+ * @returns The selected chunks, in the order they were picked
+ */
+export function selectDiverseChunks(
+  chunks: RetrievedChunk[],
+  options: DiversityOptions = {}
+): RetrievedChunk[] {
+  const {
+    topK = RAG_CONFIG.DEFAULT_TOP_K,
+    lambda = RAG_CONFIG.MMR_LAMBDA,
+    maxPerDocument,
+    maxPerCounty,
+  } = options;
+
+  if (lambda < 0 || lambda > 1) {
+    throw new Error('MMR lambda must be between 0 and 1');
+  }
+
+  if (chunks.length === 0) {
+    return [];
+  }
+
+  const relevance = relevanceScores(chunks);
+  const remaining = chunks.map((_, index) => index);
+  const selected: number[] = [];
+  const maxSimilarity = chunks.map(() => 0);
+  const perDocument = new Map<string, number>();
+  const perCounty = new Map<string, number>();
+
+  while (selected.length < topK && remaining.length > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+
+    remaining.forEach((index, position) => {
+      const chunk = chunks[index];
+      if (maxPerDocument !== undefined && (perDocument.get(chunk.documentId) ?? 0) >= maxPerDocument) {
+        return;
+      }
+      if (maxPerCounty !== undefined && (perCounty.get(chunk.county) ?? 0) >= maxPerCounty) {
+        return;
+      }
+
+      const score = lambda * relevance[index] - (1 - lambda) * maxSimilarity[index];
+      // Strictly greater, so ties go to the earlier (more relevant) candidate
+      if (score > bestScore) {
+        bestScore = score;
+        best = position;
+      }
+    });
+
+    if (best === -1) break; // Every remaining chunk is capped
+
+    const [picked] = remaining.splice(best, 1);
+    const pickedChunk = chunks[picked];
+    selected.push(picked);
+    perDocument.set(pickedChunk.documentId, (perDocument.get(pickedChunk.documentId) ?? 0) + 1);
+    perCounty.set(pickedChunk.county, (perCounty.get(pickedChunk.county) ?? 0) + 1);
+
+    // Only the newest pick can raise a candidate's similarity to the selection
+    if (lambda < 1 && pickedChunk.embedding) {
+      remaining.forEach((index) => {
+        const embedding = chunks[index].embedding;
+        if (embedding) {
+          maxSimilarity[index] = Math.max(
+            maxSimilarity[index],
+            cosineSimilarity(pickedChunk.embedding!, embedding)
+          );
+        }
+      });
+    }
+  }
+
+  const result = selected.map((index) => chunks[index]);
+
+  const counties = new Set(result.map((chunk) => chunk.county)).size;
+  const documents = new Set(result.map((chunk) => chunk.documentId)).size;
+  console.log(
+    `MMR (lambda=${lambda}) selected ${result.length} of ${chunks.length} chunks from ${documents} document(s) in ${counties} county(ies)`
+  );
+
+  return result;
+}
@@ -0,0 +1,98 @@
+import { convertPdfToMarkdown } from "./pdf-processor";
+import { convertDocxToMarkdown } from "./docx-processor";
+import { convertHtmlToMarkdown } from "./html-processor";
+
+/**
+ * File extensions accepted by the upload pipeline
+ */
+export const SUPPORTED_FILE_EXTENSIONS = [
+  "md",
+  "markdown",
+  "pdf",
+  "docx",
+  "html",
+  "htm",
+] as const;
+
+export type SupportedFileExtension = typeof SUPPORTED_FILE_EXTENSIONS[number];
+
+/**
+ * Source format of an uploaded document
+ */
+export type DocumentFormat = "markdown" | "pdf" | "docx" | "html";
+
+/**
+ * Result of converting an uploaded file into markdown
+ */
+export interface ConversionResult {
+  markdown: string;
+  format: DocumentFormat;
+  pageCount?: number; // Paginated formats only
+  headingCount?: number; // Converted formats only
+}
+
+/**
+ * Content-Type used when serving the original file of each format
+ */
+export const DOCUMENT_CONTENT_TYPES: Record<DocumentFormat, string> = {
+  markdown: "text/plain; charset=utf-8", // Displayed inline by browsers, unlike text/markdown
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  html: "text/html; charset=utf-8",
+};
+
+/**
+ * Get the lowercase extension of a file name (without the dot)
+ */
+export function getFileExtension(fileName: string): string {
+  return fileName.toLowerCase().split(".").pop() || "";
+}
+
+/**
+ * Check whether a file name has a supported extension
+ */
+export function isSupportedFile(fileName: string): boolean {
+  return SUPPORTED_FILE_EXTENSIONS.includes(
+    getFileExtension(fileName) as SupportedFileExtension
+  );
+}
+
+/**
+ * Convert an uploaded file into markdown for processMarkdownDocument
+ * Markdown is decoded as-is; PDF, DOCX and HTML go through their converters
+ *
+ * @param fileName - Original file name (used to pick the converter)
+ * @param data - Raw file bytes
+ * @returns Markdown content and source format details
+ */
+export async function convertToMarkdown(
+  fileName: string,
+  data: ArrayBuffer
+): Promise<ConversionResult> {
+  const extension = getFileExtension(fileName);
+
+  switch (extension) {
+    case "pdf": {
+      const { markdown, pageCount, headingCount } = await convertPdfToMarkdown(data);
+      return { markdown, format: "pdf", pageCount, headingCount };
+    }
+    case "docx": {
+      const { markdown, headingCount } = await convertDocxToMarkdown(data);
+      return { markdown, format: "docx", headingCount };
+    }
+    case "html":
+    case "htm": {
+      const html = new TextDecoder("utf-8").decode(data);
+      const { markdown, headingCount } = convertHtmlToMarkdown(html);
+      return { markdown, format: "html", headingCount };
+    }
+    case "md":
+    case "markdown":
+      return {
+        markdown: new TextDecoder("utf-8").decode(data),
+        format: "markdown",
+      };
+    default:
+      throw new Error(`Unsupported file format: .${extension}`);
+  }
+}
@@ -0,0 +1,51 @@
+import mammoth from "mammoth";
+import { convertHtmlToMarkdown } from "./html-processor";
+
+/**
+ * Result of converting a Word document into markdown
+ */
+export interface DocxConversionResult {
+  markdown: string;
+  headingCount: number;
+  warnings: string[];
+}
+
+// Map common Word styles onto HTML headings so the section hierarchy survives
+const STYLE_MAP = [
+  "p[style-name='Title'] => h1:fresh",
+  "p[style-name='Subtitle'] => h2:fresh",
+];
+
+/**
+ * Convert a .docx file into structured markdown
+ * Word -> semantic HTML (mammoth) -> markdown (shared HTML converter)
+ *
+ * @param data - Raw .docx bytes
+ * @returns Markdown plus conversion stats and mammoth warnings
+ */
+export async function convertDocxToMarkdown(
+  data: ArrayBuffer | Uint8Array
+): Promise<DocxConversionResult> {
+  const result = await mammoth.convertToHtml(
+    { buffer: Buffer.from(data instanceof Uint8Array ? data : new Uint8Array(data)) },
+    { styleMap: STYLE_MAP }
+  );
+
+  const warnings = result.messages
+    .filter((message) => message.type === "warning")
+    .map((message) => message.message);
+
+  if (warnings.length > 0) {
+    console.warn(
+      `[docx-processor] ${warnings.length} conversion warning(s): ${warnings.slice(0, 3).join("; ")}`
+    );
+  }
+
+  const { markdown, headingCount } = convertHtmlToMarkdown(result.value);
+
+  return {
+    markdown,
+    headingCount,
+    warnings,
+  };
+}
@@ -0,0 +1,294 @@
+import { createEmbeddingProvider, getEmbeddingProvider } from './embedding-providers';
+import { generateEmbeddings, resetActiveEmbeddingProvider } from './embeddings';
+import {
+  activateEmbeddingMigration,
+  buildMigrationIndex,
+  createEmbeddingMigration,
+  dropMigrationEmbeddings,
+  EmbeddingCutoverError,
+  EmbeddingMigration,
+  EmbeddingTableBusyError,
+  getActiveEmbeddingMigration,
+  getEmbeddingMigration,
+  getPendingChunks,
+  refreshEmbeddingMigrationProgress,
+  saveMigrationEmbeddings,
+  updateEmbeddingMigrationStatus,
+} from './db/embedding-migrations';
+import { RAG_CONFIG } from './constants';
+
+/**
+ * Error for migration requests that cannot be carried out, with the HTTP
+ * status to respond with
+ */
+export class EmbeddingMigrationError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'EmbeddingMigrationError';
+  }
+}
+
+// pgvector cannot index vectors with more dimensions than this
+const MAX_INDEXED_DIMENSIONS = 2000;
+
+// Migrations whose job runs in this process
+const runningJobs = new Set<number>();
+
+/**
+ * Start migrating every chunk to another embedding model
+ * The re-embedding job runs in the background and stages the new vectors, and
+ * then their index, next to the ones in use, so search is unaffected until
+ * cutover
+ *
+ * @param spec - Provider name, plus the model and vector size (default: the
+ *   provider's configured model and size); a size given here is requested
+ *   from the model, and whether it was is recorded for the job and cutover
+ * @returns The new migration
+ * @throws EmbeddingMigrationError with the HTTP status to respond with
+ */
+export async function startEmbeddingMigration(spec: {
+  provider: string;
+  model?: string;
+  dimensions?: number;
+}): Promise<EmbeddingMigration> {
+  if (
+    spec.dimensions !== undefined &&
+    (!Number.isInteger(spec.dimensions) ||
+      spec.dimensions < 1 ||
+      spec.dimensions > MAX_INDEXED_DIMENSIONS)
+  ) {
+    throw new EmbeddingMigrationError(
+      `dimensions must be a whole number from 1 to ${MAX_INDEXED_DIMENSIONS}`,
+      400
+    );
+  }
+
+  let provider;
+  try {
+    provider = createEmbeddingProvider(spec.provider, {
+      model: spec.model,
+      dimensions: spec.dimensions,
+    });
+  } catch (error) {
+    throw new EmbeddingMigrationError(
+      error instanceof Error ? error.message : 'Invalid embedding provider',
+      400
+    );
+  }
+
+  // Read from the record rather than getActiveEmbeddingProvider, which
+  // refuses a configured size the column cannot hold; migrating fixes that
+  const active = (await getActiveEmbeddingMigration()) ?? {
+    model: getEmbeddingProvider().model,
+    dimensions: RAG_CONFIG.EMBEDDING_DIMENSIONS,
+  };
+  if (active.model === provider.model && active.dimensions === provider.dimensions) {
+    throw new EmbeddingMigrationError(
+      `Chunks are already embedded with ${provider.model} (${provider.dimensions} dimensions)`,
+      400
+    );
+  }
+
+  let migration;
+  try {
+    migration = await createEmbeddingMigration({
+      provider: provider.name,
+      model: provider.model,
+      dimensions: provider.dimensions,
+      requestsDimensions: provider.requestsDimensions,
+    });
+  } catch (error) {
+    if (error instanceof EmbeddingTableBusyError) {
+      throw new EmbeddingMigrationError(error.message, 409);
+    }
+    throw error;
+  }
+  if (!migration) {
+    throw new EmbeddingMigrationError(
+      'Another embedding migration is in progress; cut it over or cancel it first',
+      409
+    );
+  }
+
+  console.log(
+    `Starting embedding migration ${migration.id} to ${provider.name}/${provider.model} (${migration.totalChunks} chunks)`
+  );
+  void runEmbeddingMigration(migration.id);
+
+  return migration;
+}
+
+/**
+ * Re-embed the chunks a migration has not covered yet, in batches, until none
+ * are left or it is cancelled; the staged vectors are then indexed and the
+ * migration becomes ready
+ * Progress is stored after every batch, so a job stopped by a restart or an
+ * error continues where it left off when resumed. Errors mark the migration
+ * failed rather than being thrown.
+ */
+export async function runEmbeddingMigration(id: number): Promise<void> {
+  if (runningJobs.has(id)) return;
+  runningJobs.add(id);
+
+  try {
+    const migration = await getEmbeddingMigration(id);
+    if (!migration || migration.status !== 'running') return;
+
+    const provider = createEmbeddingProvider(migration.provider, {
+      model: migration.model,
+      dimensions: migration.dimensions,
+      requestDimensions: migration.requestsDimensions,
+    });
+
+    for (;;) {
+      const chunks = await getPendingChunks(RAG_CONFIG.EMBEDDING_MIGRATION_BATCH_SIZE);
+
+      if (chunks.length === 0) {
+        console.log(`Embedding migration ${id}: indexing the new vectors...`);
+        await buildMigrationIndex();
+        await refreshEmbeddingMigrationProgress(id);
+        if (await updateEmbeddingMigrationStatus(id, 'ready', { from: ['running'] })) {
+          console.log(`Embedding migration ${id} is ready for cutover`);
+        }
+        return;
+      }
+
+      const embeddings = await generateEmbeddings(
+        chunks.map(chunk => chunk.text),
+        { provider }
+      );
+      if (embeddings.length !== chunks.length) {
+        throw new Error(
+          `Embedding count mismatch: expected ${chunks.length}, got ${embeddings.length}`
+        );
+      }
+
+      await saveMigrationEmbeddings(
+        id,
+        chunks.map((chunk, index) => ({ chunkId: chunk.id, embedding: embeddings[index] }))
+      );
+
+      const progress = await refreshEmbeddingMigrationProgress(id);
+      if (!progress || progress.status !== 'running') {
+        console.log(`Embedding migration ${id} stopped (${progress?.status ?? 'deleted'})`);
+        return;
+      }
+
+      console.log(
+        `Embedding migration ${id}: ${progress.embeddedChunks}/${progress.totalChunks} chunks`
+      );
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Embedding migration ${id} failed:`, error);
+    await updateEmbeddingMigrationStatus(id, 'failed', { error: message, from: ['running'] }).catch(
+      (updateError) => console.error(`Failed to record embedding migration ${id} failure:`, updateError)
+    );
+  } finally {
+    runningJobs.delete(id);
+  }
+}
+
+/**
+ * Continue a migration that failed, was interrupted by a restart, or became
+ * incomplete because chunks were uploaded after it was ready
+ *
+ * @throws EmbeddingMigrationError with the HTTP status to respond with
+ */
+export async function resumeEmbeddingMigration(id: number): Promise<EmbeddingMigration> {
+  const migration = await getEmbeddingMigration(id);
+  if (!migration) {
+    throw new EmbeddingMigrationError(`Embedding migration not found: ${id}`, 404);
+  }
+
+  if (runningJobs.has(id)) {
+    return migration;
+  }
+
+  const resumed = await updateEmbeddingMigrationStatus(id, 'running', {
+    from: ['running', 'ready', 'failed'],
+  });
+  if (!resumed) {
+    throw new EmbeddingMigrationError(
+      `Embedding migration ${id} is ${migration.status} and cannot be resumed`,
+      409
+    );
+  }
+
+  console.log(`Resuming embedding migration ${id}`);
+  void runEmbeddingMigration(id);
+
+  return (await getEmbeddingMigration(id)) ?? migration;
+}
+
+/**
+ * Cancel a migration that has not been cut over, discarding its vectors
+ * A running job stops after its current batch
+ *
+ * @throws EmbeddingMigrationError with the HTTP status to respond with
+ */
+export async function cancelEmbeddingMigration(id: number): Promise<EmbeddingMigration> {
+  const migration = await getEmbeddingMigration(id);
+  if (!migration) {
+    throw new EmbeddingMigrationError(`Embedding migration not found: ${id}`, 404);
+  }
+
+  const cancelled = await updateEmbeddingMigrationStatus(id, 'cancelled', {
+    from: ['running', 'ready', 'failed'],
+  });
+  if (!cancelled) {
+    throw new EmbeddingMigrationError(
+      `Embedding migration ${id} is ${migration.status} and cannot be cancelled`,
+      409
+    );
+  }
+
+  try {
+    await dropMigrationEmbeddings();
+  } catch (error) {
+    // The next migration drops the staged column before adding its own
+    console.warn(
+      `Could not drop the vectors of cancelled embedding migration ${id}: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+  console.log(`Cancelled embedding migration ${id}`);
+
+  return (await getEmbeddingMigration(id)) ?? migration;
+}
+
+/**
+ * Switch search and new uploads to a ready migration's model
+ * The staged vectors and index are renamed into place in one transaction, so
+ * searches see either the old model's vectors or the new ones. Searches and
+ * uploads check the active model inside their own transactions (see
+ * beginEmbeddedTransaction), so other processes switch at once too.
+ *
+ * @throws EmbeddingMigrationError with the HTTP status to respond with
+ */
+export async function cutOverEmbeddingMigration(id: number): Promise<EmbeddingMigration> {
+  let migration;
+  try {
+    migration = await activateEmbeddingMigration(id);
+  } catch (error) {
+    if (error instanceof EmbeddingCutoverError || error instanceof EmbeddingTableBusyError) {
+      throw new EmbeddingMigrationError(error.message, 409);
+    }
+    throw error;
+  }
+
+  if (!migration) {
+    throw new EmbeddingMigrationError(`Embedding migration not found: ${id}`, 404);
+  }
+
+  resetActiveEmbeddingProvider();
+
+  console.log(
+    `Cut over to embedding migration ${id}: ${migration.provider}/${migration.model} (${migration.dimensions} dimensions)`
+  );
+  return migration;
+}
@@ -0,0 +1,278 @@
+import OpenAI from 'openai';
+import { RAG_CONFIG } from './constants';
+
+/**
+ * Where embeddings come from
+ * - openai: OpenAI's embeddings API (default)
+ * - openai-compatible: any server implementing OpenAI's /embeddings endpoint,
+ *   such as a local model server, at EMBEDDING_BASE_URL
+ * - local: deterministic feature hashing in-process; no network or API key,
+ *   for offline use and tests (matches words, not meaning)
+ */
+export type EmbeddingProviderName = 'openai' | 'openai-compatible' | 'local';
+
+/**
+ * Turns texts into vectors; retries and batching are handled by the caller
+ */
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  model: string; // Recorded with every chunk, so vectors from different models are never compared
+  dimensions: number;
+  requestsDimensions: boolean; // Whether requests ask the model for this size, rather than relying on its own
+  maxBatchSize: number; // Most texts accepted by a single embed() call
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Error raised when a model returns vectors of the wrong size; retrying
+ * cannot help, so callers fail at once
+ */
+export class EmbeddingDimensionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingDimensionsError';
+  }
+}
+
+// Model name recorded for vectors from the local provider; bump it if the
+// hashing below changes, since old and new vectors would not be comparable
+const LOCAL_MODEL = 'local-hashing-v1';
+
+// Common words carry little meaning and would dominate hashed vectors
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was',
+  'were', 'will', 'with',
+]);
+
+/**
+ * Embedding provider backed by the OpenAI SDK, for OpenAI itself or any
+ * OpenAI-compatible server
+ */
+function createOpenAIEmbeddingProvider(
+  name: EmbeddingProviderName,
+  options: {
+    apiKey: string;
+    baseURL?: string;
+    model: string;
+    dimensions: number; // Vector size the model must return
+    requestDimensions: boolean; // Whether to send it as the request's dimensions
+    maxBatchSize: number;
+  }
+): EmbeddingProvider {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+
+  return {
+    name,
+    model: options.model,
+    dimensions: options.dimensions,
+    requestsDimensions: options.requestDimensions,
+    maxBatchSize: options.maxBatchSize,
+
+    async embed(texts) {
+      const response = await client.embeddings.create({
+        model: options.model,
+        input: texts,
+        dimensions: options.requestDimensions ? options.dimensions : undefined,
+        encoding_format: 'float', // The SDK otherwise asks for base64, which not every server supports
+      });
+
+      if (!response.data || response.data.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} embeddings, got ${response.data?.length || 0}`);
+      }
+
+      const mismatched = response.data.find(item => item.embedding.length !== options.dimensions);
+      if (mismatched) {
+        throw new EmbeddingDimensionsError(
+          `${options.model} returned ${mismatched.embedding.length} dimensions, expected ${options.dimensions}${
+            !options.requestDimensions
+              ? ` (set EMBEDDING_DIMENSIONS=${options.dimensions} if the server can shorten vectors, or migrate to this model)`
+              : ''
+          }`
+        );
+      }
+
+      // Results carry the index of their input; not every server keeps the order
+      return [...response.data]
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    },
+  };
+}
+
+/**
+ * 32-bit FNV-1a hash of a string, varied by seed
+ */
+function hashFeature(feature: string, seed: number): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Lowercase words of a text, without stop words and with plurals folded
+ * Shared with the lexical reranker, so both match words the same way
+ */
+export function extractWords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter(word => !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 && /[^s]s$/.test(word) ? word.slice(0, -1) : word)); // Fold plurals
+}
+
+/**
+ * Embed text by hashing its words and adjacent word pairs into a fixed
+ * number of dimensions, weighted by sublinear term frequency, with a second
+ * hash choosing each feature's sign so collisions tend to cancel out
+ *
+ * @returns Unit-length vector
+ */
+function embedByHashing(text: string, dimensions: number): number[] {
+  const words = extractWords(text);
+
+  const counts = new Map<string, number>();
+  words.forEach((word, index) => {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+    if (index > 0) {
+      const pair = `${words[index - 1]} ${word}`;
+      counts.set(pair, (counts.get(pair) ?? 0) + 1);
+    }
+  });
+
+  // Text with no words (punctuation, stop words only) still needs a direction
+  if (counts.size === 0) {
+    counts.set(text.trim().toLowerCase(), 1);
+  }
+
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach((count, feature) => {
+    const sign = hashFeature(feature, 1) & 1 ? 1 : -1;
+    vector[hashFeature(feature, 0) % dimensions] += sign * (1 + Math.log(count));
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * Deterministic in-process embedding provider (see embedByHashing)
+ */
+function createLocalEmbeddingProvider(dimensions: number): EmbeddingProvider {
+  return {
+    name: 'local',
+    model: LOCAL_MODEL,
+    dimensions,
+    requestsDimensions: false, // Hashing produces any size; there is no model to ask
+    maxBatchSize: 1000,
+
+    async embed(texts) {
+      return texts.map(text => embedByHashing(text, dimensions));
+    },
+  };
+}
+
+/**
+ * Parse a vector size from the environment
+ *
+ * @returns The size, or undefined when unset
+ * @throws Error if set to anything but a positive integer
+ */
+function parseDimensions(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+
+  const dimensions = Number(value);
+  if (!Number.isInteger(dimensions) || dimensions <= 0) {
+    throw new Error(`EMBEDDING_DIMENSIONS must be a positive integer, got "${value}"`);
+  }
+  return dimensions;
+}
+
+/**
+ * Create an embedding provider
+ *
+ * Configuration (environment variables):
+ * - openai: OPENAI_API_KEY; EMBEDDING_MODEL overrides RAG_CONFIG.EMBEDDING_MODEL
+ * - openai-compatible: EMBEDDING_BASE_URL and EMBEDDING_MODEL, plus
+ *   EMBEDDING_API_KEY if the server requires one; EMBEDDING_DIMENSIONS asks
+ *   the server for that vector size (only sent when set, since not every
+ *   server accepts it), otherwise the model must natively return
+ *   RAG_CONFIG.EMBEDDING_DIMENSIONS
+ * - local: nothing
+ *
+ * @param name - Provider to create
+ * @param options - Model and vector size, overriding the environment and
+ *   RAG_CONFIG.EMBEDDING_DIMENSIONS (used when migrating to another model),
+ *   and whether to ask the model for that size (default: when the size was
+ *   given here or in EMBEDDING_DIMENSIONS; always for OpenAI, whose current
+ *   models shorten vectors on request)
+ * @throws Error if the name is unknown or its configuration is missing
+ */
+export function createEmbeddingProvider(
+  name: string,
+  options: { model?: string; dimensions?: number; requestDimensions?: boolean } = {}
+): EmbeddingProvider {
+  const dimensions = options.dimensions ?? RAG_CONFIG.EMBEDDING_DIMENSIONS;
+
+  switch (name) {
+    case 'openai': {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error(
+          'OPENAI_API_KEY environment variable is not set (set EMBEDDING_PROVIDER=local to embed offline)'
+        );
+      }
+      return createOpenAIEmbeddingProvider('openai', {
+        apiKey: process.env.OPENAI_API_KEY,
+        model: options.model || process.env.EMBEDDING_MODEL || RAG_CONFIG.EMBEDDING_MODEL,
+        dimensions,
+        requestDimensions: options.requestDimensions ?? true,
+        maxBatchSize: 100, // OpenAI's batch limit
+      });
+    }
+    case 'openai-compatible': {
+      const baseURL = process.env.EMBEDDING_BASE_URL;
+      const model = options.model || process.env.EMBEDDING_MODEL;
+      if (!baseURL || !model) {
+        throw new Error(
+          'EMBEDDING_BASE_URL and EMBEDDING_MODEL must be set for the openai-compatible embedding provider'
+        );
+      }
+      // A migration's recorded size replaces EMBEDDING_DIMENSIONS, and its
+      // recorded requestDimensions says whether to send it
+      const explicitDimensions =
+        options.dimensions ?? parseDimensions(process.env.EMBEDDING_DIMENSIONS);
+      return createOpenAIEmbeddingProvider('openai-compatible', {
+        apiKey: process.env.EMBEDDING_API_KEY || 'not-needed', // The SDK requires a key
+        baseURL,
+        model,
+        dimensions: explicitDimensions ?? RAG_CONFIG.EMBEDDING_DIMENSIONS,
+        requestDimensions: options.requestDimensions ?? explicitDimensions !== undefined,
+        maxBatchSize: 32, // Local servers often cap batches lower than OpenAI
+      });
+    }
+    case 'local':
+      return createLocalEmbeddingProvider(dimensions);
+    default:
+      throw new Error(
+        `Unknown EMBEDDING_PROVIDER "${name}" (expected "openai", "openai-compatible" or "local")`
+      );
+  }
+}
+
+let configuredProvider: EmbeddingProvider | null = null;
+
+/**
+ * Get the configured embedding provider
+ * Chosen by the EMBEDDING_PROVIDER environment variable (openai when unset)
+ * and created on first use, so a missing API key only fails the calls that
+ * need embeddings
+ * Once an embedding migration has been cut over, its model takes precedence
+ * (see getActiveEmbeddingProvider)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!configuredProvider) {
+    configuredProvider = createEmbeddingProvider(process.env.EMBEDDING_PROVIDER || 'openai');
+  }
+  return configuredProvider;
+}
@@ -1,13 +1,31 @@
 import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { PoolClient } from 'pg';
+import {
+  EmbeddingDimensionsError,
+  EmbeddingProvider,
+  createEmbeddingProvider,
+  getEmbeddingProvider,
+} from './embedding-providers';
+import { cacheEmbeddings, getCachedEmbeddings } from './db/embedding-cache';
+import { getClient } from './db/postgres-client';
+import { EmbeddingMigration, getActiveEmbeddingMigration } from './db/embedding-migrations';
 import { RAG_CONFIG } from './constants';
 
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('OPENAI_API_KEY environment variable is not set');
+/**
+ * How many texts were served from the embedding cache
+ */
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number; // Texts sent to the provider
 }
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// How long the active embedding model is trusted before checking the
+// database again; searches and uploads verify it anyway (see
+// beginEmbeddedTransaction), so this only bounds other callers' staleness
+const ACTIVE_PROVIDER_TTL_MS = 30 * 1000;
+
+let activeProvider: { provider: EmbeddingProvider; checkedAt: number } | null = null;
 
 /**
  * Sleep utility for exponential backoff
@@ -17,82 +35,327 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Generate embedding for a single text string
- * Uses OpenAI's text-embedding-3-small model with full 1536 dimensions
+ * Cache key for a text: sha256 of the exact text embedded
+ */
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// Hashing locally is cheaper than a database round trip, so the local
+// provider bypasses the cache
+function usesCache(provider: EmbeddingProvider): boolean {
+  return provider.name !== 'local';
+}
+
+/**
+ * Look up cached vectors for the provider's model
+ * A cache that cannot be read only costs provider calls, so errors are logged
+ * and treated as misses
+ */
+async function lookupCachedEmbeddings(
+  provider: EmbeddingProvider,
+  textHashes: string[]
+): Promise<Map<string, number[]>> {
+  if (!usesCache(provider)) return new Map();
+
+  try {
+    return await getCachedEmbeddings(textHashes, provider.model, provider.dimensions);
+  } catch (error) {
+    console.warn(
+      `Embedding cache lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+    return new Map();
+  }
+}
+
+/**
+ * Cache freshly generated vectors; errors are logged, never thrown
+ */
+async function storeCachedEmbeddings(
+  provider: EmbeddingProvider,
+  entries: Array<{ textHash: string; embedding: number[] }>
+): Promise<void> {
+  if (!usesCache(provider)) return;
+
+  try {
+    await cacheEmbeddings(entries, provider.model, provider.dimensions);
+  } catch (error) {
+    console.warn(
+      `Embedding cache update failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Get the configured provider for a database no migration has been cut over
+ * in, where document_chunks.embedding still has the schema's size
  *
- * @param text - The text to embed
- * @returns Promise<number[]> - The embedding vector (1536 dimensions)
+ * @throws EmbeddingDimensionsError if the configured size does not fit it
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
-  if (!text || text.trim().length === 0) {
-    throw new Error('Cannot generate embedding for empty text');
+function getUnmigratedEmbeddingProvider(): EmbeddingProvider {
+  const provider = getEmbeddingProvider();
+  if (provider.dimensions !== RAG_CONFIG.EMBEDDING_DIMENSIONS) {
+    throw new EmbeddingDimensionsError(
+      `EMBEDDING_DIMENSIONS is ${provider.dimensions}, but document_chunks.embedding holds ` +
+        `${RAG_CONFIG.EMBEDDING_DIMENSIONS}-dimension vectors; unset it, or start an embedding ` +
+        `migration to ${provider.model} with ${provider.dimensions} dimensions`
+    );
+  }
+  return provider;
+}
+
+/**
+ * Get the provider for the model document_chunks.embedding currently holds:
+ * the model of the last cut-over embedding migration, or the configured
+ * provider (see getEmbeddingProvider) when there is none
+ * Stored and query vectors must both come from this provider
+ *
+ * @throws EmbeddingDimensionsError if the configured provider's vectors do
+ *   not fit the column
+ */
+export async function getActiveEmbeddingProvider(): Promise<EmbeddingProvider> {
+  if (activeProvider && Date.now() - activeProvider.checkedAt < ACTIVE_PROVIDER_TTL_MS) {
+    return activeProvider.provider;
+  }
+
+  let migration: EmbeddingMigration | null;
+  try {
+    migration = await getActiveEmbeddingMigration();
+  } catch (error) {
+    // Before initDatabase has created embedding_migrations nothing can have
+    // been cut over
+    console.warn(
+      `Could not look up the active embedding model: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+    return getUnmigratedEmbeddingProvider();
   }
 
+  const provider = migration
+    ? createEmbeddingProvider(migration.provider, {
+        model: migration.model,
+        dimensions: migration.dimensions,
+        requestDimensions: migration.requestsDimensions,
+      })
+    : getUnmigratedEmbeddingProvider();
+
+  activeProvider = { provider, checkedAt: Date.now() };
+  return provider;
+}
+
+/**
+ * Forget the cached active provider, after a cutover
+ */
+export function resetActiveEmbeddingProvider(): void {
+  activeProvider = null;
+}
+
+// Embedding attempts before giving up on a model that keeps changing
+const MAX_EMBEDDED_TRANSACTION_ATTEMPTS = 3;
+
+/**
+ * Get the active provider, checked against the database on the client's
+ * transaction, and keep it active until the transaction ends
+ * The lock on document_chunks conflicts with the one a cutover needs, so no
+ * cutover can commit between this check and the caller's query or insert; a
+ * provider cached from before a cutover in another process is replaced.
+ *
+ * @param client - Client inside a transaction
+ * @param lockMode - ACCESS SHARE for searches, ROW EXCLUSIVE for writes
+ */
+async function getLockedEmbeddingProvider(
+  client: PoolClient,
+  lockMode: 'ACCESS SHARE' | 'ROW EXCLUSIVE'
+): Promise<EmbeddingProvider> {
+  await client.query(`LOCK TABLE document_chunks IN ${lockMode} MODE`);
+
+  const provider = await getActiveEmbeddingProvider();
+  const migration = await getActiveEmbeddingMigration(client);
+  const active = migration ?? getEmbeddingProvider();
+  if (provider.model === active.model && provider.dimensions === active.dimensions) {
+    return provider;
+  }
+
+  console.log(`Active embedding model changed to ${active.model}; refreshing`);
+  resetActiveEmbeddingProvider();
+  return getActiveEmbeddingProvider();
+}
+
+/**
+ * A transaction holding document_chunks locked, with vectors from the model
+ * the column holds
+ */
+export interface EmbeddedTransaction<T> {
+  client: PoolClient; // Inside BEGIN; the caller commits or rolls back, then releases it
+  provider: EmbeddingProvider;
+  embedded: T;
+}
+
+/**
+ * Embed with the active model, then open a transaction that locks
+ * document_chunks and confirms the model is still active
+ * The provider round trip (with its retries and rate-limit waits) happens
+ * before a connection is taken or the lock acquired, so it never holds up a
+ * cutover or index swap, nor the searches queued behind them. If a cutover
+ * changed the model meanwhile, the transaction is abandoned and the texts
+ * are embedded again with the new model.
+ *
+ * @param lockMode - ACCESS SHARE for searches, ROW EXCLUSIVE for writes
+ * @param embed - Embeds the caller's texts with the given provider
+ * @throws Error if the model changed on every attempt
+ */
+export async function beginEmbeddedTransaction<T>(
+  lockMode: 'ACCESS SHARE' | 'ROW EXCLUSIVE',
+  embed: (provider: EmbeddingProvider) => Promise<T>
+): Promise<EmbeddedTransaction<T>> {
+  let provider = await getActiveEmbeddingProvider();
+
+  for (let attempt = 1; attempt <= MAX_EMBEDDED_TRANSACTION_ATTEMPTS; attempt++) {
+    const embedded = await embed(provider);
+
+    const client = await getClient().connect();
+    let locked: EmbeddingProvider;
+    try {
+      await client.query('BEGIN');
+      locked = await getLockedEmbeddingProvider(client, lockMode);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      client.release();
+      throw error;
+    }
+
+    if (locked.model === provider.model && locked.dimensions === provider.dimensions) {
+      return { client, provider: locked, embedded };
+    }
+
+    await client.query('ROLLBACK');
+    client.release();
+    console.log(`Embedding model changed to ${locked.model} while embedding; embedding again`);
+    provider = locked;
+  }
+
+  throw new Error('The active embedding model kept changing; try again');
+}
+
+/**
+ * Embed one batch with the provider, retrying rate limits and transient
+ * errors with exponential backoff
+ *
+ * @param label - Describes the batch in log and error messages
+ * @returns One vector per text, each checked against the provider's dimensions
+ */
+async function embedWithRetries(
+  provider: EmbeddingProvider,
+  texts: string[],
+  label: string
+): Promise<number[][]> {
   const maxRetries = 3;
   let lastError: Error | null = null;
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      console.log(`Generating embedding (attempt ${attempt}/${maxRetries})...`);
+      const embeddings = await provider.embed(texts);
 
-      const response = await openai.embeddings.create({
-        model: RAG_CONFIG.EMBEDDING_MODEL,
-        input: text,
-        dimensions: RAG_CONFIG.EMBEDDING_DIMENSIONS,
-      });
-
-      if (!response.data || response.data.length === 0) {
-        throw new Error('No embedding data returned from OpenAI');
+      if (embeddings.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} embeddings, got ${embeddings.length}`);
       }
 
-      const embedding = response.data[0].embedding;
-
-      if (embedding.length !== RAG_CONFIG.EMBEDDING_DIMENSIONS) {
-        throw new Error(
-          `Expected ${RAG_CONFIG.EMBEDDING_DIMENSIONS} dimensions, got ${embedding.length}`
-        );
+      // Validate dimensions for all embeddings in batch
+      for (const embedding of embeddings) {
+        if (embedding.length !== provider.dimensions) {
+          throw new EmbeddingDimensionsError(
+            `Expected ${provider.dimensions} dimensions, got ${embedding.length}`
+          );
+        }
       }
 
-      console.log(`Successfully generated embedding with ${embedding.length} dimensions`);
-      return embedding;
+      return embeddings;
 
     } catch (error) {
       lastError = error instanceof Error ? error : new Error('Unknown error');
 
+      // The model returns this size every time, so retrying cannot help
+      if (error instanceof EmbeddingDimensionsError) {
+        throw error;
+      }
+
       // Check if it's a rate limit error
       if (error instanceof OpenAI.APIError && error.status === 429) {
         const waitTime = Math.pow(2, attempt) * 1000; // Exponential backoff
-        console.warn(`Rate limit hit, waiting ${waitTime}ms before retry...`);
+        console.warn(`Rate limit hit on ${label}, waiting ${waitTime}ms before retry...`);
         await sleep(waitTime);
         continue;
       }
 
       // Check for invalid API key
       if (error instanceof OpenAI.APIError && error.status === 401) {
-        throw new Error('Invalid OpenAI API key. Please check your OPENAI_API_KEY environment variable.');
+        throw new Error(
+          provider.name === 'openai'
+            ? 'Invalid OpenAI API key. Please check your OPENAI_API_KEY environment variable.'
+            : 'Embedding server rejected the API key. Please check your EMBEDDING_API_KEY environment variable.'
+        );
       }
 
       // For other errors, retry with backoff
       if (attempt < maxRetries) {
         const waitTime = Math.pow(2, attempt) * 1000;
-        console.warn(`Error generating embedding: ${lastError.message}. Retrying in ${waitTime}ms...`);
+        console.warn(`Error processing ${label}: ${lastError.message}. Retrying in ${waitTime}ms...`);
         await sleep(waitTime);
         continue;
       }
     }
   }
 
-  throw new Error(`Failed to generate embedding after ${maxRetries} attempts: ${lastError?.message}`);
+  throw new Error(`Failed to process ${label} after ${maxRetries} attempts: ${lastError?.message}`);
+}
+
+/**
+ * Generate embedding for a single text string
+ * Uses the embedding provider, or the embedding cache when the same text was
+ * embedded before
+ *
+ * @param text - The text to embed
+ * @param provider - Provider to use (default: the configured provider, see getEmbeddingProvider)
+ * @returns Promise<number[]> - The embedding vector (provider.dimensions dimensions)
+ */
+export async function generateEmbedding(
+  text: string,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number[]> {
+  if (!text || text.trim().length === 0) {
+    throw new Error('Cannot generate embedding for empty text');
+  }
+
+  const textHash = hashText(text);
+
+  const cached = (await lookupCachedEmbeddings(provider, [textHash])).get(textHash);
+  if (cached) {
+    console.log(`Using cached embedding (${provider.model})`);
+    return cached;
+  }
+
+  console.log(`Generating embedding with ${provider.name}/${provider.model}...`);
+
+  const [embedding] = await embedWithRetries(provider, [text], 'embedding');
+  await storeCachedEmbeddings(provider, [{ textHash, embedding }]);
+
+  console.log(`Successfully generated embedding with ${embedding.length} dimensions`);
+  return embedding;
 }
 
 /**
  * Generate embeddings for multiple text strings in batches
- * Processes in batches of 100 (OpenAI's limit) with progress logging
+ * Cached vectors are reused; only the remaining distinct texts are sent to the
+ * provider, in batches of its maximum size, and then cached
  *
  * @param texts - Array of text strings to embed
+ * @param options - provider: provider to use (default: the configured provider);
+ *   stats: incremented with the texts served from the cache and embedded
  * @returns Promise<number[][]> - Array of embedding vectors
  */
-export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+export async function generateEmbeddings(
+  texts: string[],
+  options: { provider?: EmbeddingProvider; stats?: EmbeddingCacheStats } = {}
+): Promise<number[][]> {
   if (!texts || texts.length === 0) {
     return [];
   }
@@ -104,87 +367,64 @@ export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
     throw new Error('No valid text found to generate embeddings');
   }
 
-  const batchSize = 100; // OpenAI's batch limit
-  const embeddings: number[][] = [];
-  const totalBatches = Math.ceil(validTexts.length / batchSize);
+  const { provider = getEmbeddingProvider(), stats } = options;
+  const textHashes = validTexts.map(hashText);
+  const cached = await lookupCachedEmbeddings(provider, textHashes);
 
-  console.log(`Generating embeddings for ${validTexts.length} texts...`);
-  console.log(`Using model: ${RAG_CONFIG.EMBEDDING_MODEL} with ${RAG_CONFIG.EMBEDDING_DIMENSIONS} dimensions`);
+  // Texts to embed, once per distinct text
+  const pending = new Map<string, string>();
+  textHashes.forEach((textHash, index) => {
+    if (!cached.has(textHash)) pending.set(textHash, validTexts[index]);
+  });
 
-  if (validTexts.length > 50) {
-    console.log(`Processing in ${totalBatches} batch(es) of up to ${batchSize} texts each...`);
+  const hits = textHashes.filter(textHash => cached.has(textHash)).length;
+  if (stats) {
+    stats.hits += hits;
+    stats.misses += validTexts.length - hits;
   }
 
-  for (let i = 0; i < validTexts.length; i += batchSize) {
-    const batch = validTexts.slice(i, i + batchSize);
-    const batchNum = Math.floor(i / batchSize) + 1;
-
-    const maxRetries = 3;
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        if (validTexts.length > 50) {
-          console.log(`Processing batch ${batchNum}/${totalBatches} (${batch.length} texts)...`);
-        }
-
-        const response = await openai.embeddings.create({
-          model: RAG_CONFIG.EMBEDDING_MODEL,
-          input: batch,
-          dimensions: RAG_CONFIG.EMBEDDING_DIMENSIONS,
-        });
+  console.log(`Generating embeddings for ${validTexts.length} texts...`);
+  if (usesCache(provider)) {
+    console.log(
+      `Embedding cache: ${hits}/${validTexts.length} hits (${Math.round((hits / validTexts.length) * 100)}%)`
+    );
+  }
 
-        if (!response.data || response.data.length !== batch.length) {
-          throw new Error(
-            `Expected ${batch.length} embeddings, got ${response.data?.length || 0}`
-          );
-        }
+  const pendingHashes = Array.from(pending.keys());
+  const pendingTexts = Array.from(pending.values());
+  const batchSize = provider.maxBatchSize;
+  const totalBatches = Math.ceil(pendingTexts.length / batchSize);
 
-        // Validate dimensions for all embeddings in batch
-        for (const item of response.data) {
-          if (item.embedding.length !== RAG_CONFIG.EMBEDDING_DIMENSIONS) {
-            throw new Error(
-              `Expected ${RAG_CONFIG.EMBEDDING_DIMENSIONS} dimensions, got ${item.embedding.length}`
-            );
-          }
-        }
+  if (pendingTexts.length > 0) {
+    console.log(
+      `Using ${provider.name} provider, model ${provider.model} with ${provider.dimensions} dimensions`
+    );
+  }
 
-        embeddings.push(...response.data.map(item => item.embedding));
-        break; // Success, exit retry loop
+  if (pendingTexts.length > 50) {
+    console.log(`Processing in ${totalBatches} batch(es) of up to ${batchSize} texts each...`);
+  }
 
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error('Unknown error');
+  for (let i = 0; i < pendingTexts.length; i += batchSize) {
+    const batch = pendingTexts.slice(i, i + batchSize);
+    const batchNum = Math.floor(i / batchSize) + 1;
 
-        // Check if it's a rate limit error
-        if (error instanceof OpenAI.APIError && error.status === 429) {
-          const waitTime = Math.pow(2, attempt) * 1000;
-          console.warn(`Rate limit hit on batch ${batchNum}, waiting ${waitTime}ms before retry...`);
-          await sleep(waitTime);
-          continue;
-        }
+    if (pendingTexts.length > 50) {
+      console.log(`Processing batch ${batchNum}/${totalBatches} (${batch.length} texts)...`);
+    }
 
-        // Check for invalid API key
-        if (error instanceof OpenAI.APIError && error.status === 401) {
-          throw new Error('Invalid OpenAI API key. Please check your OPENAI_API_KEY environment variable.');
-        }
+    const batchEmbeddings = await embedWithRetries(provider, batch, `batch ${batchNum}`);
+    const entries = batchEmbeddings.map((embedding, index) => ({
+      textHash: pendingHashes[i + index],
+      embedding,
+    }));
 
-        // For other errors, retry with backoff
-        if (attempt < maxRetries) {
-          const waitTime = Math.pow(2, attempt) * 1000;
-          console.warn(
-            `Error processing batch ${batchNum}: ${lastError.message}. Retrying in ${waitTime}ms...`
-          );
-          await sleep(waitTime);
-          continue;
-        } else {
-          throw new Error(
-            `Failed to process batch ${batchNum} after ${maxRetries} attempts: ${lastError.message}`
-          );
-        }
-      }
-    }
+    entries.forEach(entry => cached.set(entry.textHash, entry.embedding));
+    await storeCachedEmbeddings(provider, entries);
   }
 
+  const embeddings = textHashes.map(textHash => cached.get(textHash)!);
+
   console.log(`Successfully generated ${embeddings.length} embeddings`);
 
   return embeddings;
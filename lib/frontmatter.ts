@@ -0,0 +1,178 @@
+import matter from "gray-matter";
+import {
+  COLORADO_COUNTIES,
+  ColoradoCounty,
+  DocumentMetadata,
+} from "./types";
+
+/**
+ * Metadata fields that can be supplied through YAML frontmatter
+ */
+export type FrontmatterMetadata = Partial<DocumentMetadata>;
+
+/**
+ * Result of parsing frontmatter from a markdown document
+ */
+export interface FrontmatterResult {
+  content: string; // Document body with the frontmatter block removed
+  metadata: FrontmatterMetadata;
+  errors: Partial<Record<keyof DocumentMetadata, string>>;
+  hasFrontmatter: boolean;
+}
+
+// Accepted key spellings for each metadata field
+const KEY_ALIASES: Record<keyof DocumentMetadata, string[]> = {
+  county: ["county"],
+  title: ["title", "document_title", "documenttitle"],
+  year: ["year"],
+  effectiveDate: ["effective_date", "effectivedate", "effective"],
+  sourceUrl: ["source_url", "sourceurl", "source", "url"],
+  statuteReferences: [
+    "statute_references",
+    "statutereferences",
+    "statutes",
+    "statute",
+    "crs",
+  ],
+  tags: ["tags", "keywords"],
+};
+
+/**
+ * Look up a frontmatter value by any of its accepted key spellings
+ * Keys are compared case-insensitively with dashes treated as underscores
+ */
+function findValue(
+  data: Record<string, unknown>,
+  field: keyof DocumentMetadata
+): unknown {
+  const aliases = KEY_ALIASES[field];
+
+  for (const [key, value] of Object.entries(data)) {
+    const normalizedKey = key.toLowerCase().replace(/[-\s]/g, "_");
+    if (aliases.includes(normalizedKey) && value !== null && value !== "") {
+      return value;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Match a county name against COLORADO_COUNTIES
+ * Accepts any casing and an optional trailing "County"
+ */
+export function normalizeCounty(value: string): ColoradoCounty | undefined {
+  const name = value.replace(/\s+county$/i, "").trim().toLowerCase();
+  return COLORADO_COUNTIES.find((county) => county.toLowerCase() === name);
+}
+
+/**
+ * Normalize a list value given either as a YAML list or a comma-separated string
+ */
+function toStringList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : String(value).split(",");
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+/**
+ * Format a YAML date or date string as YYYY-MM-DD
+ */
+function toIsoDate(value: unknown): string | undefined {
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (isNaN(date.getTime())) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse YAML frontmatter from a markdown document
+ * Returns the body without the frontmatter block, the recognized metadata
+ * fields, and a validation error for each field that was present but invalid
+ *
+ * @param fileContent - Raw markdown content
+ * @returns Stripped content, metadata and per-field errors
+ */
+export function parseFrontmatter(fileContent: string): FrontmatterResult {
+  let parsed: matter.GrayMatterFile<string>;
+  try {
+    // Passing options bypasses gray-matter's cache, whose copies lack `matter`
+    // (so uploading the same file twice in one process would fail)
+    parsed = matter(fileContent, {});
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`Invalid YAML frontmatter: ${message}`);
+  }
+
+  const data = parsed.data as Record<string, unknown>;
+  const metadata: FrontmatterMetadata = {};
+  const errors: FrontmatterResult["errors"] = {};
+
+  const county = findValue(data, "county");
+  if (county !== undefined) {
+    const match = normalizeCounty(String(county));
+    if (match) {
+      metadata.county = match;
+    } else {
+      errors.county = `Invalid county "${county}". Must be one of: ${COLORADO_COUNTIES.join(", ")}`;
+    }
+  }
+
+  const title = findValue(data, "title");
+  if (title !== undefined) {
+    metadata.title = String(title).trim();
+  }
+
+  const effectiveDate = findValue(data, "effectiveDate");
+  if (effectiveDate !== undefined) {
+    const isoDate = toIsoDate(effectiveDate);
+    if (isoDate) {
+      metadata.effectiveDate = isoDate;
+    } else {
+      errors.effectiveDate = `Invalid effective date "${effectiveDate}"`;
+    }
+  }
+
+  const year = findValue(data, "year");
+  if (year !== undefined) {
+    const parsedYear = parseInt(String(year), 10);
+    if (!isNaN(parsedYear) && parsedYear >= 1900 && parsedYear <= 2100) {
+      metadata.year = parsedYear;
+    } else {
+      errors.year = `Invalid year "${year}". Must be a number between 1900 and 2100`;
+    }
+  } else if (metadata.effectiveDate) {
+    // Fall back to the year the document takes effect
+    metadata.year = parseInt(metadata.effectiveDate.slice(0, 4), 10);
+  }
+
+  const sourceUrl = findValue(data, "sourceUrl");
+  if (sourceUrl !== undefined) {
+    try {
+      const url = new URL(String(sourceUrl));
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        throw new Error("Unsupported protocol");
+      }
+      metadata.sourceUrl = url.toString();
+    } catch {
+      errors.sourceUrl = `Invalid source URL "${sourceUrl}"`;
+    }
+  }
+
+  const statuteReferences = findValue(data, "statuteReferences");
+  if (statuteReferences !== undefined) {
+    metadata.statuteReferences = toStringList(statuteReferences);
+  }
+
+  const tags = findValue(data, "tags");
+  if (tags !== undefined) {
+    metadata.tags = toStringList(tags);
+  }
+
+  return {
+    content: parsed.content.replace(/^\s*\n/, ""),
+    metadata,
+    errors,
+    hasFrontmatter: (parsed.matter ?? "").trim().length > 0, // Unset for empty files
+  };
+}
@@ -0,0 +1,105 @@
+import TurndownService from "turndown";
+
+/**
+ * Result of converting HTML into markdown
+ */
+export interface HtmlConversionResult {
+  markdown: string;
+  headingCount: number;
+}
+
+/**
+ * Collapse whitespace in a table cell and escape pipes so the cell
+ * cannot break the markdown table row
+ */
+function formatTableCell(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/\|/g, "\\|").trim();
+}
+
+/**
+ * Create a turndown instance configured for county documents
+ * ATX headings keep the H1–H6 hierarchy that parseMarkdownStructure reads
+ */
+function createTurndownService(): TurndownService {
+  const turndown = new TurndownService({
+    headingStyle: "atx",
+    bulletListMarker: "-",
+    codeBlockStyle: "fenced",
+    emDelimiter: "*",
+  });
+
+  // Page chrome carries no document content
+  turndown.remove(["script", "style", "noscript", "nav", "header", "footer", "form"]);
+
+  // Render every table as a markdown table, using the first row as header
+  // (Word tables rarely mark header cells, so <th> cannot be relied on)
+  turndown.addRule("table", {
+    filter: "table",
+    replacement: (_content, node) => {
+      const rows = Array.from((node as HTMLElement).querySelectorAll("tr"))
+        .map((row) =>
+          Array.from(row.querySelectorAll("th, td")).map((cell) =>
+            formatTableCell(cell.textContent || "")
+          )
+        )
+        .filter((cells) => cells.some((cell) => cell.length > 0));
+
+      if (rows.length === 0) {
+        return "";
+      }
+
+      const columnCount = Math.max(...rows.map((cells) => cells.length));
+      const toRow = (cells: string[]) =>
+        `| ${Array.from({ length: columnCount }, (_, i) => cells[i] || "").join(" | ")} |`;
+
+      const lines = [
+        toRow(rows[0]),
+        `| ${Array.from({ length: columnCount }, () => "---").join(" | ")} |`,
+        ...rows.slice(1).map(toRow),
+      ];
+
+      return `\n\n${lines.join("\n")}\n\n`;
+    },
+  });
+
+  return turndown;
+}
+
+/**
+ * Convert an HTML document into structured markdown
+ * Headings, lists and tables are preserved so the result chunks the same
+ * way as a hand-written markdown file
+ *
+ * @param html - Full HTML page or fragment
+ * @returns Markdown plus conversion stats
+ */
+export function convertHtmlToMarkdown(html: string): HtmlConversionResult {
+  // Only convert the page body when a full document is supplied
+  const bodyMatch = html.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+  let body = bodyMatch ? bodyMatch[1] : html;
+
+  // Promote the page title to H1 when the body has no top-level heading
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  if (titleMatch && !/<h1[\s>]/i.test(body)) {
+    body = `<h1>${titleMatch[1].trim()}</h1>\n${body}`;
+  }
+
+  const markdown = createTurndownService()
+    .turndown(body)
+    .replace(/^#{1,6}\s*$/gm, "") // Drop headings left empty by the source
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  if (markdown.length === 0) {
+    throw new Error("No text content found in HTML");
+  }
+
+  const headingCount = (markdown.match(/^#{1,6}\s+\S/gm) || []).length;
+
+  console.log(`[html-processor] Converted HTML with ${headingCount} headings`);
+
+  return {
+    markdown,
+    headingCount,
+  };
+}
@@ -0,0 +1,616 @@
+import { measureCoverage, processMarkdownDocument } from "./md-processor";
+import { resolveChunking, ResolvedChunking } from "./chunking-strategies";
+import { RAG_CONFIG } from "./constants";
+import {
+  ConversionResult,
+  convertToMarkdown,
+  DocumentFormat,
+  getFileExtension,
+  isSupportedFile,
+  SUPPORTED_FILE_EXTENSIONS,
+} from "./document-converter";
+import { parseFrontmatter } from "./frontmatter";
+import {
+  ChunkingOptions,
+  ChunkingStrategyName,
+  ColoradoCounty,
+  COLORADO_COUNTIES,
+  CoverageReport,
+  DocumentMetadata,
+  UploadedDocument,
+} from "./types";
+import { storeDocumentChunks } from "./db/vector-store";
+import { EmbeddingCacheStats } from "./embeddings";
+import {
+  createDocument,
+  DocumentOverlap,
+  DuplicateContentError,
+  findDocumentByHash,
+  findOverlappingDocuments,
+  getDocument,
+  supersedeDocument,
+  updateDocumentStatus,
+} from "./db/document-store";
+import { getBlobStore } from "./db/blob-store";
+import { createHash } from "crypto";
+
+/**
+ * Metadata supplied alongside a file (form fields or a bulk manifest entry)
+ * Any field left undefined falls back to the file's frontmatter
+ */
+export interface IngestionFields {
+  county?: string;
+  title?: string;
+  year?: string | number;
+}
+
+/**
+ * What to do when the exact same file was already uploaded
+ * - return-existing: skip processing and return the existing document
+ * - reject: fail with 409 Conflict
+ */
+export type DuplicatePolicy = "return-existing" | "reject";
+
+/**
+ * Requested chunking strategy and options, as received from the client
+ * Validated by resolveChunking; omitted fields use the section-aware defaults
+ */
+export interface ChunkingRequest {
+  strategy?: string;
+  options?: unknown;
+}
+
+/**
+ * A single file to ingest
+ */
+export interface IngestionInput {
+  fileName: string;
+  data: ArrayBuffer;
+  fields: IngestionFields;
+  uploadedBy?: string;
+  onDuplicate?: DuplicatePolicy; // Defaults to return-existing
+  supersedes?: string; // ID of the document this file is a new version of
+  chunking?: ChunkingRequest;
+}
+
+/**
+ * Result of ingesting a single file
+ */
+export interface IngestionResult {
+  documentId: string;
+  contentHash: string;
+  chunkCount: number;
+  vectorCount: number;
+  sections: string[];
+  pageCount?: number;
+  metadata: DocumentMetadata;
+  chunkingStrategy: ChunkingStrategyName;
+  chunkingOptions: ChunkingOptions;
+  version: number;
+  supersededDocumentId?: string;
+  duplicate: boolean; // True when an existing document was returned instead
+  overlaps: DocumentOverlap[]; // Same county/year documents sharing most chunks
+  coverage?: CoverageReport; // Share of the text that ended up in a chunk (not for duplicates)
+  embeddingCache?: EmbeddingCacheStats; // Chunks embedded from the cache (not for duplicates)
+  warnings: string[];
+}
+
+/**
+ * Error raised when a file cannot be ingested
+ * status mirrors the HTTP status the upload route responds with
+ */
+export class IngestionError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "IngestionError";
+  }
+}
+
+/**
+ * Compute the sha256 hash of raw file bytes
+ */
+export function hashContent(data: ArrayBuffer): string {
+  return createHash("sha256").update(new Uint8Array(data)).digest("hex");
+}
+
+/**
+ * Validate a file before reading it: supported extension and size limit
+ */
+export function validateUploadFile(fileName: string, fileSize: number): void {
+  if (!isSupportedFile(fileName)) {
+    throw new IngestionError(
+      `Invalid file format (must be one of: ${SUPPORTED_FILE_EXTENSIONS.map((ext) => `.${ext}`).join(", ")})`,
+      400
+    );
+  }
+
+  if (fileSize > RAG_CONFIG.MAX_FILE_SIZE) {
+    throw new IngestionError(
+      `File is too large (max ${RAG_CONFIG.MAX_FILE_SIZE / (1024 * 1024)}MB)`,
+      400
+    );
+  }
+}
+
+/**
+ * Validate a requested chunking strategy and options
+ *
+ * @throws IngestionError (400) for an unknown strategy or invalid options
+ */
+export function resolveChunkingRequest(request: ChunkingRequest = {}): ResolvedChunking {
+  try {
+    return resolveChunking(request.strategy, request.options);
+  } catch (error) {
+    throw new IngestionError(
+      error instanceof Error ? error.message : "Invalid chunking options",
+      400
+    );
+  }
+}
+
+/**
+ * Build a chunking request from the chunkingStrategy and chunkingOptions
+ * (JSON object) form fields
+ *
+ * @throws IngestionError (400) when chunkingOptions is not valid JSON
+ */
+export function parseChunkingFields(
+  strategy: string | null,
+  options: string | null
+): ChunkingRequest {
+  let parsedOptions: unknown;
+  if (options && options.trim().length > 0) {
+    try {
+      parsedOptions = JSON.parse(options);
+    } catch {
+      throw new IngestionError("Invalid chunkingOptions: expected a JSON object", 400);
+    }
+  }
+
+  return { strategy: strategy?.trim() || undefined, options: parsedOptions };
+}
+
+/**
+ * Get the chunk metadata of a stored document
+ */
+export function toDocumentMetadata(document: UploadedDocument): DocumentMetadata {
+  return {
+    county: document.county,
+    title: document.title,
+    year: document.year,
+    effectiveDate: document.effectiveDate,
+    sourceUrl: document.sourceUrl,
+    statuteReferences: document.statuteReferences,
+    tags: document.tags,
+  };
+}
+
+/**
+ * Resolve document metadata from explicit fields and frontmatter
+ * Explicit fields take precedence; frontmatter errors only matter for fields
+ * that were not supplied explicitly
+ */
+function resolveMetadata(
+  fields: IngestionFields,
+  frontmatter: ReturnType<typeof parseFrontmatter>
+): DocumentMetadata {
+  const { county: fieldCounty, title: fieldTitle } = fields;
+
+  // Validate county is a valid Colorado county
+  if (fieldCounty && !COLORADO_COUNTIES.includes(fieldCounty as ColoradoCounty)) {
+    throw new IngestionError(
+      `Invalid county. Must be one of: ${COLORADO_COUNTIES.join(", ")}`,
+      400
+    );
+  }
+
+  // Validate year is a valid number
+  const fieldYear =
+    fields.year !== undefined && fields.year !== ""
+      ? parseInt(String(fields.year), 10)
+      : undefined;
+  if (
+    fieldYear !== undefined &&
+    (isNaN(fieldYear) || fieldYear < 1900 || fieldYear > 2100)
+  ) {
+    throw new IngestionError(
+      "Invalid year. Must be a number between 1900 and 2100",
+      400
+    );
+  }
+
+  const explicit: Partial<Record<keyof DocumentMetadata, unknown>> = {
+    county: fieldCounty,
+    title: fieldTitle,
+    year: fieldYear,
+  };
+  const frontmatterErrors = Object.entries(frontmatter.errors)
+    .filter(([field]) => !explicit[field as keyof DocumentMetadata])
+    .map(([, message]) => message);
+
+  if (frontmatterErrors.length > 0) {
+    throw new IngestionError(
+      `Invalid frontmatter: ${frontmatterErrors.join("; ")}`,
+      400
+    );
+  }
+
+  const county = (fieldCounty as ColoradoCounty | undefined) || frontmatter.metadata.county;
+  const title = fieldTitle || frontmatter.metadata.title;
+  const year = fieldYear ?? frontmatter.metadata.year;
+
+  // Validate all required fields are present
+  if (!county || !title || !year) {
+    const missing = [!county && "county", !title && "documentTitle", !year && "year"]
+      .filter(Boolean);
+    throw new IngestionError(
+      `Missing required fields: ${missing.join(", ")}. Provide them as form fields or in the file's frontmatter`,
+      400
+    );
+  }
+
+  return {
+    ...frontmatter.metadata,
+    county,
+    title,
+    year,
+  };
+}
+
+/**
+ * Markdown body extracted from an uploaded file
+ */
+export interface ExtractedMarkdown {
+  content: string; // Markdown with frontmatter removed
+  format: DocumentFormat;
+  pageCount?: number;
+  frontmatter: ReturnType<typeof parseFrontmatter>;
+}
+
+/**
+ * Convert a file to markdown and strip its YAML frontmatter
+ * Shared by first-time ingestion and reprocessing of stored originals
+ *
+ * @param fileName - Original file name (used to pick the converter)
+ * @param data - Raw file bytes
+ * @returns Markdown body, source format and parsed frontmatter
+ * @throws IngestionError with the HTTP status to respond with
+ */
+export async function extractMarkdown(
+  fileName: string,
+  data: ArrayBuffer
+): Promise<ExtractedMarkdown> {
+  const fileExtension = getFileExtension(fileName);
+
+  // Read file content as markdown (other formats are converted first)
+  let converted: ConversionResult;
+  try {
+    converted = await convertToMarkdown(fileName, data);
+
+    if (converted.format !== "markdown") {
+      console.log(
+        `[ingestion] Converted ${converted.format.toUpperCase()} to markdown: ${converted.headingCount ?? 0} headings${
+          converted.pageCount ? `, ${converted.pageCount} pages` : ""
+        }`
+      );
+    }
+  } catch (error) {
+    console.error("[ingestion] Error reading file:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    const isMarkdown = fileExtension === "md" || fileExtension === "markdown";
+    throw new IngestionError(
+      isMarkdown
+        ? "Failed to read file content"
+        : `Failed to extract text from .${fileExtension} file: ${errorMessage}`,
+      isMarkdown ? 500 : 422
+    );
+  }
+
+  // Parse and strip YAML frontmatter so it is not chunked as body text
+  let frontmatter;
+  try {
+    frontmatter = parseFrontmatter(converted.markdown);
+  } catch (error) {
+    throw new IngestionError(
+      error instanceof Error ? error.message : "Invalid frontmatter",
+      400
+    );
+  }
+
+  return {
+    content: frontmatter.content,
+    format: converted.format,
+    pageCount: converted.pageCount,
+    frontmatter,
+  };
+}
+
+/**
+ * Answer an upload whose exact file is already stored under another document
+ * The existing chunks are kept as they are, whatever strategy was requested
+ *
+ * @throws IngestionError (409) when duplicates are rejected, the existing
+ *   document is still processing, or the upload was meant as a new version of
+ *   another document
+ */
+async function duplicateResult(
+  input: IngestionInput,
+  contentHash: string,
+  existing: UploadedDocument,
+  chunking: ResolvedChunking
+): Promise<IngestionResult> {
+  const { fileName, onDuplicate = "return-existing", supersedes } = input;
+
+  console.log(
+    `[ingestion] ${fileName} is identical to existing document ${existing.id} (${existing.fileName})`
+  );
+
+  if (onDuplicate === "reject") {
+    throw new IngestionError(
+      `Duplicate upload: this file was already uploaded as "${existing.title}" (${existing.id})`,
+      409
+    );
+  }
+
+  if (existing.status === "processing") {
+    throw new IngestionError(
+      `Duplicate upload: an identical file is still being processed as "${existing.title}" (${existing.id}); try again once it is ready`,
+      409
+    );
+  }
+
+  // Returning the existing document would silently leave the old version
+  // current, unless it already is the new version (a retried upload)
+  if (supersedes) {
+    const previousVersion = await getDocument(supersedes);
+    if (previousVersion?.supersededBy !== existing.id) {
+      throw new IngestionError(
+        `Cannot upload this file as a new version of ${supersedes}: it is identical to existing document "${existing.title}" (${existing.id})`,
+        409
+      );
+    }
+  }
+
+  const existingStrategy = existing.chunkingStrategy ?? "section-aware";
+  const warnings =
+    input.chunking?.strategy && existingStrategy !== chunking.strategy.name
+      ? [
+          `Existing document was chunked with the ${existingStrategy} strategy; reprocess it to use ${chunking.strategy.name}`,
+        ]
+      : [];
+
+  return {
+    documentId: existing.id,
+    contentHash,
+    chunkCount: existing.chunksProcessed ?? 0,
+    vectorCount: existing.chunksProcessed ?? 0,
+    sections: [],
+    pageCount: existing.pageCount,
+    metadata: toDocumentMetadata(existing),
+    chunkingStrategy: existingStrategy,
+    chunkingOptions: existing.chunkingOptions ?? {},
+    version: existing.version ?? 1,
+    duplicate: true,
+    overlaps: [],
+    warnings,
+  };
+}
+
+/**
+ * Ingest a single file: convert to markdown, apply frontmatter, chunk,
+ * embed and store
+ * Expects the database to be initialized by the caller
+ *
+ * @param input - File name, raw bytes and explicit metadata fields
+ * @returns Stored document details
+ * @throws IngestionError with the HTTP status to respond with
+ */
+export async function ingestDocument(input: IngestionInput): Promise<IngestionResult> {
+  const {
+    fileName,
+    data,
+    fields,
+    uploadedBy,
+    supersedes,
+  } = input;
+
+  validateUploadFile(fileName, data.byteLength);
+  const chunking = resolveChunkingRequest(input.chunking);
+
+  // Exact duplicates are detected before any conversion or embedding work
+  const contentHash = hashContent(data);
+  const existing = await findDocumentByHash(contentHash);
+
+  if (existing) {
+    return await duplicateResult(input, contentHash, existing, chunking);
+  }
+
+  // A new version must replace the current version of its document
+  const previousVersion = supersedes ? await getDocument(supersedes) : null;
+  if (supersedes && !previousVersion) {
+    throw new IngestionError(`Document to supersede not found: ${supersedes}`, 404);
+  }
+  if (previousVersion?.supersededBy) {
+    throw new IngestionError(
+      `Document ${previousVersion.id} is already superseded by ${previousVersion.supersededBy}; upload a new version of that document instead`,
+      409
+    );
+  }
+
+  const version = previousVersion ? (previousVersion.version ?? 1) + 1 : 1;
+
+  console.log(`[ingestion] Processing file: ${fileName}`);
+  console.log(`[ingestion] File size: ${(data.byteLength / 1024).toFixed(2)} KB`);
+
+  const { content: fileContent, format, pageCount, frontmatter } = await extractMarkdown(
+    fileName,
+    data
+  );
+
+  const metadata = resolveMetadata(fields, frontmatter);
+
+  console.log(
+    `[ingestion] County: ${metadata.county}, Title: ${metadata.title}, Year: ${metadata.year}`
+  );
+  if (frontmatter.hasFrontmatter) {
+    console.log(
+      `[ingestion] Frontmatter fields: ${Object.keys(frontmatter.metadata).join(", ") || "none recognized"}`
+    );
+  }
+
+  // Validate content is not empty
+  if (fileContent.trim().length === 0) {
+    throw new IngestionError("File content is empty", 400);
+  }
+
+  // Generate document ID before processing
+  const documentId = `doc_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+  // Process the document into chunks
+  let chunks;
+  try {
+    chunks = processMarkdownDocument(fileContent, metadata, documentId, chunking);
+  } catch (error) {
+    console.error("[ingestion] Error processing document:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new IngestionError(`Failed to process document: ${errorMessage}`, 500);
+  }
+
+  // Log chunk information with section headers visible
+  console.log(`[ingestion] Successfully created ${chunks.length} chunks`);
+
+  chunks.forEach((chunk, index) => {
+    const sectionInfo = chunk.metadata.headingPath?.length
+      ? ` [${chunk.metadata.headingPath.join(" > ")}]`
+      : "";
+    const pageInfo = chunk.metadata.pageStart
+      ? ` (p. ${chunk.metadata.pageStart}${chunk.metadata.pageEnd !== chunk.metadata.pageStart ? `-${chunk.metadata.pageEnd}` : ""})`
+      : "";
+    console.log(
+      `[ingestion] Chunk ${index + 1}/${chunks.length}${sectionInfo}${pageInfo}: ${chunk.content.substring(0, 100)}...`
+    );
+  });
+
+  const coverage = measureCoverage(fileContent, chunks);
+  console.log(
+    `[ingestion] Coverage: ${coverage.percent}% of ${coverage.sourceChars} source characters in at least one chunk`
+  );
+
+  // Extract unique sections for response
+  const sections = Array.from(
+    new Set(chunks.map((c) => c.metadata.sectionHeader).filter(Boolean))
+  ) as string[];
+
+  // Register the document before its chunks and original file (both reference it)
+  const blobStore = getBlobStore();
+  try {
+    await createDocument({
+      id: documentId,
+      fileName,
+      fileSize: data.byteLength,
+      contentHash,
+      format,
+      uploadedBy,
+      pageCount,
+      storageBackend: blobStore.backend,
+      versionGroupId: previousVersion?.versionGroupId,
+      version,
+      chunkingStrategy: chunking.strategy.name,
+      chunkingOptions: chunking.options,
+      ...metadata,
+    });
+  } catch (error) {
+    // An identical upload was registered since the duplicate check above
+    if (error instanceof DuplicateContentError) {
+      return await duplicateResult(input, contentHash, error.existing, chunking);
+    }
+    throw error;
+  }
+
+  // Keep the original upload so the exact source can be served later
+  try {
+    await blobStore.put(documentId, new Uint8Array(data));
+  } catch (error) {
+    console.error("[ingestion] Error storing original file:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    await updateDocumentStatus(documentId, "failed", { errorMessage });
+    throw new IngestionError(`Failed to store original file: ${errorMessage}`, 500);
+  }
+
+  // Store chunks with embeddings in PostgreSQL
+  console.log("[ingestion] Storing document chunks with embeddings...");
+  const storeResult = await storeDocumentChunks(chunks);
+
+  if (!storeResult.success) {
+    console.error("[ingestion] Error storing document chunks:", storeResult.error);
+    await updateDocumentStatus(documentId, "failed", {
+      errorMessage: storeResult.error,
+    });
+    throw new IngestionError(
+      `Failed to store document vectors: ${storeResult.error || "Unknown error"}`,
+      500
+    );
+  }
+
+  await updateDocumentStatus(documentId, "ready", {
+    chunkCount: storeResult.vectorCount,
+  });
+
+  console.log(
+    `[ingestion] Successfully stored ${storeResult.vectorCount} vectors in PostgreSQL`
+  );
+
+  // Warn (without failing) when most chunks already exist in another document
+  const overlaps = (
+    await findOverlappingDocuments(documentId, metadata.county, metadata.year)
+  ).filter((overlap) => overlap.overlap >= RAG_CONFIG.DUPLICATE_OVERLAP_THRESHOLD);
+
+  const warnings = overlaps.map(
+    (overlap) =>
+      `${Math.round(overlap.overlap * 100)}% of chunks match existing document "${overlap.title}" (${overlap.documentId})`
+  );
+
+  if (coverage.percent < RAG_CONFIG.MIN_COVERAGE_PERCENT) {
+    warnings.push(
+      `Only ${coverage.percent}% of the document's text ended up in a chunk; missing: ${coverage.uncovered
+        .map((passage) => `"${passage}"`)
+        .join(", ")}`
+    );
+  }
+
+  // Only retire the previous version once the new one is fully stored
+  if (previousVersion) {
+    const superseded = await supersedeDocument(previousVersion.id, documentId);
+    if (superseded) {
+      console.log(`[ingestion] Superseded document ${previousVersion.id}`);
+    } else {
+      warnings.push(
+        `Document ${previousVersion.id} was superseded by another upload in the meantime; both versions are current`
+      );
+    }
+  }
+
+  warnings.forEach((warning) => console.warn(`[ingestion] ${warning}`));
+
+  return {
+    documentId,
+    contentHash,
+    chunkCount: chunks.length,
+    vectorCount: storeResult.vectorCount,
+    sections,
+    pageCount,
+    metadata,
+    chunkingStrategy: chunking.strategy.name,
+    chunkingOptions: chunking.options,
+    version,
+    supersededDocumentId: previousVersion?.id,
+    duplicate: false,
+    overlaps,
+    coverage,
+    embeddingCache: storeResult.embeddingCache,
+    warnings,
+  };
+}
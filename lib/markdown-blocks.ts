@@ -0,0 +1,282 @@
+/**
+ * Block-level markdown structure used by the chunkers
+ * Tables, fenced code and lists are atomic: chunk boundaries fall between
+ * blocks, and an oversized block is split along its own structure (rows,
+ * lines, items) rather than at sentence ends.
+ */
+
+export type MarkdownBlockType = "paragraph" | "table" | "code" | "list";
+
+/**
+ * A block of non-blank lines, as character offsets into the scanned text
+ */
+export interface MarkdownBlock {
+  type: MarkdownBlockType;
+  start: number;
+  end: number; // Exclusive; the block's trailing newline is not included
+}
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d{1,9}[.)])\s+\S/;
+const PAGE_MARKER_LINE_REGEX = /^\s*<!-- page: \d+ -->\s*$/;
+
+/**
+ * Check whether line i opens a table: a row followed by a |---| separator
+ */
+function isTableStart(lines: string[], i: number): boolean {
+  return (
+    lines[i].includes("|") &&
+    i + 1 < lines.length &&
+    lines[i + 1].includes("|") &&
+    TABLE_SEPARATOR_REGEX.test(lines[i + 1])
+  );
+}
+
+/**
+ * Split markdown into paragraphs, tables, fenced code blocks and lists
+ * Blank lines separate blocks; a table, fence or list item also ends a paragraph
+ *
+ * @param text - Markdown text
+ * @returns Blocks in document order
+ */
+export function scanMarkdownBlocks(text: string): MarkdownBlock[] {
+  const lines = text.split("\n");
+  const lineStarts: number[] = [];
+  let offset = 0;
+  lines.forEach((line) => {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  });
+
+  const isBlank = (i: number) => lines[i].trim().length === 0;
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (isBlank(i)) {
+      i++;
+      continue;
+    }
+
+    const first = i;
+    let type: MarkdownBlockType;
+    const fence = lines[i].match(FENCE_REGEX);
+
+    if (fence) {
+      // Runs to the closing fence (or the end of the text if unclosed)
+      type = "code";
+      const marker = fence[1];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) i++;
+      i = Math.min(i + 1, lines.length);
+    } else if (isTableStart(lines, i)) {
+      type = "table";
+      i += 2;
+      // A page break inside a table does not end it
+      while (
+        i < lines.length &&
+        (lines[i].includes("|") ||
+          (PAGE_MARKER_LINE_REGEX.test(lines[i]) && lines[i + 1]?.includes("|")))
+      ) {
+        i++;
+      }
+    } else if (LIST_ITEM_REGEX.test(lines[i])) {
+      // Items, indented or lazy continuation lines, and blank lines between items
+      type = "list";
+      i++;
+      while (i < lines.length) {
+        if (!isBlank(i)) {
+          if (FENCE_REGEX.test(lines[i]) && !/^\s/.test(lines[i])) break;
+          i++;
+          continue;
+        }
+        let next = i;
+        while (next < lines.length && isBlank(next)) next++;
+        if (next < lines.length && (LIST_ITEM_REGEX.test(lines[next]) || /^\s+\S/.test(lines[next]))) {
+          i = next;
+        } else {
+          break;
+        }
+      }
+    } else {
+      type = "paragraph";
+      i++;
+      while (
+        i < lines.length &&
+        !isBlank(i) &&
+        !FENCE_REGEX.test(lines[i]) &&
+        !isTableStart(lines, i) &&
+        !LIST_ITEM_REGEX.test(lines[i])
+      ) {
+        i++;
+      }
+    }
+
+    // Trailing blank lines (inside an unclosed list) are not part of the block
+    let last = i - 1;
+    while (last > first && isBlank(last)) last--;
+
+    blocks.push({
+      type,
+      start: lineStarts[first],
+      end: lineStarts[last] + lines[last].length,
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Get the character ranges of a list's items (nested items stay with their parent)
+ *
+ * @param list - Text of a list block
+ */
+export function findListItems(list: string): Array<{ start: number; end: number }> {
+  const lines = list.split("\n");
+  const baseIndent = (lines[0].match(LIST_ITEM_REGEX)?.[1] ?? "").length;
+  const items: Array<{ start: number; end: number }> = [];
+  let offset = 0;
+
+  lines.forEach((line) => {
+    const match = line.match(LIST_ITEM_REGEX);
+    if (match && match[1].length <= baseIndent) {
+      items.push({ start: offset, end: offset + line.length });
+    } else if (items.length > 0 && line.trim().length > 0) {
+      items[items.length - 1].end = offset + line.length;
+    }
+    offset += line.length + 1;
+  });
+
+  return items;
+}
+
+/**
+ * Split an oversized table into row groups, repeating the header row and
+ * separator at the top of every group
+ * A single row larger than maxSize is kept whole: rows are never split
+ *
+ * @param table - Text of a table block
+ * @param maxSize - Maximum size per group
+ * @param measure - Size of a piece of text
+ */
+export function splitTableRows(
+  table: string,
+  maxSize: number,
+  measure: (text: string) => number
+): string[] {
+  const [header, separator, ...rows] = table.split("\n");
+  const head = `${header}\n${separator}`;
+  const groups: string[] = [];
+  let current: string[] = [];
+
+  rows.forEach((row) => {
+    if (current.length > 0 && measure([head, ...current, row].join("\n")) > maxSize) {
+      groups.push([head, ...current].join("\n"));
+      current = [];
+    }
+    current.push(row);
+  });
+
+  if (current.length > 0 || groups.length === 0) {
+    groups.push([head, ...current].join("\n"));
+  }
+
+  return groups;
+}
+
+/**
+ * Split an oversized fenced code block into line groups, each re-wrapped in
+ * the original fences
+ *
+ * @param code - Text of a code block, fences included
+ * @param maxSize - Maximum size per group
+ * @param measure - Size of a piece of text
+ */
+export function splitCodeBlock(
+  code: string,
+  maxSize: number,
+  measure: (text: string) => number
+): string[] {
+  const lines = code.split("\n");
+  const open = lines[0];
+  const marker = open.match(FENCE_REGEX)?.[1] ?? "```";
+  const hasClose = lines.length > 1 && lines[lines.length - 1].trim().startsWith(marker);
+  const body = lines.slice(1, hasClose ? -1 : undefined);
+  const close = hasClose ? lines[lines.length - 1] : marker;
+
+  const groups: string[] = [];
+  let current: string[] = [];
+  const wrap = (group: string[]) => [open, ...group, close].join("\n");
+
+  body.forEach((line) => {
+    if (current.length > 0 && measure(wrap([...current, line])) > maxSize) {
+      groups.push(wrap(current));
+      current = [];
+    }
+    current.push(line);
+  });
+
+  if (current.length > 0 || groups.length === 0) {
+    groups.push(wrap(current));
+  }
+
+  return groups;
+}
+
+/**
+ * Split a table row into trimmed cells, honouring escaped pipes
+ */
+function parseTableRow(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, "|").replace(/\*\*|__/g, ""));
+}
+
+/**
+ * Render a table as one line per row, pairing each cell with its column
+ * header, e.g. "Fee: Redemption; Amount: $1,500.00"
+ *
+ * @param table - Text of a table block
+ */
+export function renderTableAsText(table: string): string {
+  const rows = table
+    .split("\n")
+    .filter((line) => line.includes("|") && !TABLE_SEPARATOR_REGEX.test(line))
+    .map(parseTableRow);
+  const [header = [], ...dataRows] = rows;
+
+  return dataRows
+    .map((cells) =>
+      cells
+        .map((cell, index) => (cell && header[index] ? `${header[index]}: ${cell}` : cell))
+        .filter(Boolean)
+        .join("; ")
+    )
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Replace every table in text with its row-per-line rendering
+ * Used as the text to embed, since pipe-delimited rows embed poorly
+ *
+ * @param text - Chunk content
+ * @returns The rendered text, or null if the text contains no tables
+ */
+export function renderTablesAsText(text: string): string | null {
+  const tables = scanMarkdownBlocks(text).filter((block) => block.type === "table");
+  if (tables.length === 0) return null;
+
+  let rendered = "";
+  let position = 0;
+  tables.forEach((table) => {
+    rendered += text.slice(position, table.start) + renderTableAsText(text.slice(table.start, table.end));
+    position = table.end;
+  });
+
+  return rendered + text.slice(position);
+}
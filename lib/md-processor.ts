@@ -1,51 +1,149 @@
 import { RAG_CONFIG } from "./constants";
 import {
+  ChunkingOptions,
+  CoverageReport,
   DocumentMetadata,
   DocumentChunk,
   MarkdownSection,
 } from "./types";
+import type { ChunkingStrategy } from "./chunking-strategies";
+import {
+  findListItems,
+  MarkdownBlock,
+  renderTablesAsText,
+  scanMarkdownBlocks,
+  splitCodeBlock,
+  splitTableRows,
+} from "./markdown-blocks";
+import { countTokens, decodeTokens, encodeTokens } from "./tokenizer";
 import { randomUUID } from "crypto";
 
+// Matches the [Context: ...] line prepended to the first chunk of a section
+const CONTEXT_PREFIX_REGEX = /^\[Context: [^\n]*\]\n\n/;
+
+// Shorter matches between neighbouring chunks are treated as coincidence
+const MIN_DETECTED_OVERLAP = 10;
+
+// Passages listed in a coverage report, and characters quoted from each
+const MAX_UNCOVERED_PASSAGES = 5;
+const UNCOVERED_SNIPPET_LENGTH = 100;
+
+// Sections split into more chunks than this are logged (and flagged in previews)
+export const LARGE_SECTION_CHUNK_COUNT = 5;
+
+// Page markers are emitted by converters for paginated sources (PDF) so that
+// chunks can carry page numbers; they never end up in chunk content
+const PAGE_MARKER_REGEX = /^<!-- page: (\d+) -->$/;
+
 /**
- * Parse markdown structure to extract all headers and their content
- * Identifies H1, H2, H3 headers and their positions in the document
+ * Format a page marker line for insertion into converted markdown
  */
-export function parseMarkdownStructure(content: string): MarkdownSection[] {
-  const sections: MarkdownSection[] = [];
-  const lines = content.split("\n");
+export function formatPageMarker(pageNumber: number): string {
+  return `<!-- page: ${pageNumber} -->`;
+}
+
+/**
+ * Remove page markers from converted markdown
+ */
+export function stripPageMarkers(text: string): string {
+  return resolvePageMarkers(text, undefined).text;
+}
 
+/**
+ * Result of stripping page markers from a piece of text
+ */
+export interface PageResolution {
+  text: string;
+  pageStart?: number;
+  pageEnd?: number;
+  currentPage?: number; // Page in effect after this text
+}
+
+/**
+ * Remove page markers from text and record which pages its content spans
+ * currentPage carries the page in effect from preceding text
+ */
+export function resolvePageMarkers(
+  text: string,
+  currentPage: number | undefined
+): PageResolution {
+  const kept: string[] = [];
+  let page = currentPage;
+  let pageStart: number | undefined;
+  let pageEnd: number | undefined;
+
+  for (const line of text.split("\n")) {
+    const markerMatch = line.trim().match(PAGE_MARKER_REGEX);
+    if (markerMatch) {
+      page = parseInt(markerMatch[1], 10);
+      continue;
+    }
+
+    kept.push(line);
+    if (line.trim().length > 0 && page !== undefined) {
+      pageStart = pageStart ?? page;
+      pageEnd = page;
+    }
+  }
+
+  return {
+    text: kept.join("\n").replace(/\n{3,}/g, "\n\n").trim(),
+    pageStart,
+    pageEnd,
+    currentPage: page,
+  };
+}
+
+/**
+ * A heading line with its breadcrumb
+ */
+interface HeadingPosition {
+  level: number;
+  title: string;
+  headingPath: string[];
+  position: number;
+  lineIndex: number;
+}
+
+/**
+ * Find all H1–H6 headings, skipping "#" lines inside fenced code blocks
+ */
+function scanHeadings(lines: string[]): HeadingPosition[] {
+  const headerPositions: HeadingPosition[] = [];
   let currentPosition = 0;
-  const headerPositions: Array<{
-    level: number;
-    title: string;
-    position: number;
-    lineIndex: number;
-  }> = [];
-
-  // First pass: find all headers and their positions
+  let openFence: string | null = null;
+
+  // Enclosing H2–H6 headings of the current line, outermost first
+  const headingStack: Array<{ level: number; title: string }> = [];
+
   lines.forEach((line, index) => {
-    const h1Match = line.match(/^#\s+(.+)$/);
-    const h2Match = line.match(/^##\s+(.+)$/);
-    const h3Match = line.match(/^###\s+(.+)$/);
+    const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (openFence === null) {
+        openFence = fenceMatch[1];
+      } else if (fenceMatch[1].startsWith(openFence)) {
+        openFence = null;
+      }
+    }
+
+    const headerMatch = openFence === null ? line.match(/^(#{1,6})\s+(.+)$/) : null;
+
+    if (headerMatch) {
+      const level = headerMatch[1].length;
+      const title = headerMatch[2].replace(/\s+#+\s*$/, "").trim(); // Closing #s are optional
+
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      // The H1 is the document title, which citations already carry
+      if (level > 1) {
+        headingStack.push({ level, title });
+      }
 
-    if (h3Match) {
-      headerPositions.push({
-        level: 3,
-        title: h3Match[1].trim(),
-        position: currentPosition,
-        lineIndex: index,
-      });
-    } else if (h2Match) {
-      headerPositions.push({
-        level: 2,
-        title: h2Match[1].trim(),
-        position: currentPosition,
-        lineIndex: index,
-      });
-    } else if (h1Match) {
       headerPositions.push({
-        level: 1,
-        title: h1Match[1].trim(),
+        level,
+        title,
+        headingPath: headingStack.map((heading) => heading.title),
         position: currentPosition,
         lineIndex: index,
       });
@@ -54,6 +152,38 @@ export function parseMarkdownStructure(content: string): MarkdownSection[] {
     currentPosition += line.length + 1; // +1 for newline
   });
 
+  return headerPositions;
+}
+
+/**
+ * Parse markdown structure to extract all headers and their content
+ * Identifies H1–H6 headers and their positions in the document, skipping
+ * "#" lines inside fenced code blocks
+ * Any text before the first header is returned as a level 0 preamble section
+ */
+export function parseMarkdownStructure(content: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const lines = content.split("\n");
+
+  // First pass: find all headers, their positions and breadcrumbs
+  const headerPositions = scanHeadings(lines);
+
+  // Text before the first header becomes an untitled preamble section
+  if (headerPositions.length > 0) {
+    const preamble = lines.slice(0, headerPositions[0].lineIndex).join("\n").trim();
+
+    if (stripPageMarkers(preamble).length > 0) {
+      sections.push({
+        level: 0,
+        title: "",
+        headingPath: [],
+        content: preamble,
+        startPosition: 0,
+        endPosition: headerPositions[0].position,
+      });
+    }
+  }
+
   // Second pass: create sections with content
   headerPositions.forEach((header, index) => {
     const startLine = header.lineIndex + 1; // Content starts after header
@@ -73,6 +203,7 @@ export function parseMarkdownStructure(content: string): MarkdownSection[] {
       sections.push({
         level: header.level,
         title: header.title,
+        headingPath: header.headingPath,
         content: sectionContent,
         startPosition: header.position,
         endPosition: endPosition,
@@ -83,21 +214,99 @@ export function parseMarkdownStructure(content: string): MarkdownSection[] {
   return sections;
 }
 
+/**
+ * Find headings with no content of their own and no subheadings, such as a
+ * heading left behind when its text was moved elsewhere
+ * Page markers do not count as content
+ *
+ * @returns Breadcrumbs of the empty sections (H1 titles for H1 headings)
+ */
+export function findEmptySections(content: string): string[][] {
+  const lines = content.split("\n");
+  const headings = scanHeadings(lines);
+
+  return headings
+    .filter((heading, index) => {
+      const next = headings[index + 1];
+      if (next && next.level > heading.level) return false; // Parent of a subheading
+
+      const body = lines.slice(heading.lineIndex + 1, next ? next.lineIndex : lines.length);
+      return stripPageMarkers(body.join("\n")).length === 0;
+    })
+    .map((heading) => (heading.level > 1 ? heading.headingPath : [heading.title]));
+}
+
+/**
+ * Size of a piece of text in the unit chunk sizes are given in
+ */
+export type SizeMeasure = (text: string) => number;
+
+/**
+ * Split prose into sentences at ., ! or ? followed by whitespace, so that
+ * amounts like "$1,500.00" stay whole; single-letter abbreviations such as
+ * "C.R.S." are not treated as sentence ends
+ */
+function matchSentences(text: string): string[] {
+  if (text.length === 0) return [];
+  return text.split(/(?<=[.!?])(?<!\b[A-Z]\.)(?=\s)|(?<=\n)(?=[^\n])/);
+}
+
+/**
+ * Split text into sentences, keeping all whitespace so the pieces join back
+ * into the original text
+ * Page marker lines are returned as pieces of their own; tables, fenced code
+ * blocks and list items are returned whole
+ */
+export function splitIntoSentences(text: string): string[] {
+  const pieces: string[] = [];
+
+  // Markers contain "!", so set them aside before looking for sentence ends
+  text.split(/^([ \t]*<!-- page: \d+ -->[ \t]*)$/m).forEach((part, index) => {
+    if (index % 2 === 1) {
+      pieces.push(part);
+      return;
+    }
+
+    let position = 0;
+    scanMarkdownBlocks(part).forEach((block) => {
+      if (block.type === "paragraph") return;
+
+      const atomic =
+        block.type === "list"
+          ? findListItems(part.slice(block.start, block.end)).map((item) => ({
+              start: block.start + item.start,
+              end: block.start + item.end,
+            }))
+          : [block];
+
+      atomic.forEach((range) => {
+        pieces.push(...matchSentences(part.slice(position, range.start)));
+        pieces.push(part.slice(range.start, range.end));
+        position = range.end;
+      });
+    });
+    pieces.push(...matchSentences(part.slice(position)));
+  });
+
+  return pieces.length > 0 ? pieces : [text];
+}
+
 /**
  * Split text into chunks at sentence boundaries
  * Ensures no mid-sentence splits
  */
-function splitOnSentences(text: string, maxSize: number): string[] {
+export function splitOnSentences(
+  text: string,
+  maxSize: number,
+  measure: SizeMeasure = countTokens
+): string[] {
   const chunks: string[] = [];
   let currentChunk = "";
 
-  // Split on sentence boundaries (., !, ?) followed by space or newline
-  const sentences = text.match(/[^.!?]+[.!?]+|\n+|[^.!?\n]+$/g) || [text];
-
-  for (const sentence of sentences) {
+  for (const sentence of splitIntoSentences(text)) {
     if (
-      currentChunk.length + sentence.length > maxSize &&
-      currentChunk.length > 0
+      measure(currentChunk) + measure(sentence) > maxSize &&
+      currentChunk.trim().length > 0
     ) {
       chunks.push(currentChunk.trim());
       currentChunk = sentence;
@@ -114,57 +323,306 @@ function splitOnSentences(text: string, maxSize: number): string[] {
 }
 
 /**
- * Split text into chunks at paragraph boundaries
- * Falls back to sentence boundaries if paragraphs are too large
+ * Pack consecutive ranges of text into chunks of at most maxSize, keeping the
+ * original text between ranges; ranges too large on their own are handed to
+ * splitOversized
  */
-function splitOnParagraphs(text: string, maxSize: number): string[] {
+function packRanges<T extends { start: number; end: number }>(
+  text: string,
+  ranges: T[],
+  maxSize: number,
+  measure: SizeMeasure,
+  splitOversized: (range: T, rangeText: string) => string[]
+): string[] {
   const chunks: string[] = [];
-  const paragraphs = text.split(/\n\n+/);
-
-  for (const paragraph of paragraphs) {
-    if (paragraph.trim().length === 0) continue;
-
-    if (paragraph.length > maxSize) {
-      // Paragraph too large, split on sentences
-      const sentenceChunks = splitOnSentences(paragraph, maxSize);
-      chunks.push(...sentenceChunks);
-    } else if (
-      chunks.length > 0 &&
-      chunks[chunks.length - 1].length + paragraph.length < maxSize
-    ) {
-      // Append to previous chunk if it fits
-      chunks[chunks.length - 1] += "\n\n" + paragraph;
+  let current: { start: number; end: number } | null = null;
+
+  for (const range of ranges) {
+    const rangeText = text.slice(range.start, range.end);
+
+    if (measure(rangeText) > maxSize) {
+      if (current) chunks.push(text.slice(current.start, current.end));
+      current = null;
+      chunks.push(...splitOversized(range, rangeText));
+    } else if (current && measure(text.slice(current.start, range.end)) <= maxSize) {
+      // Append to the current chunk if it fits
+      current.end = range.end;
     } else {
-      // Start new chunk
-      chunks.push(paragraph);
+      if (current) chunks.push(text.slice(current.start, current.end));
+      current = { start: range.start, end: range.end };
     }
   }
 
+  if (current) chunks.push(text.slice(current.start, current.end));
   return chunks;
 }
 
+/**
+ * Split an oversized block along its own structure: tables by row groups
+ * with the header repeated, code by line groups, lists by item, and
+ * paragraphs (or single oversized items) by sentences
+ */
+function splitOversizedBlock(
+  block: MarkdownBlock,
+  blockText: string,
+  maxSize: number,
+  measure: SizeMeasure
+): string[] {
+  switch (block.type) {
+    case "table":
+      return splitTableRows(blockText, maxSize, measure);
+    case "code":
+      return splitCodeBlock(blockText, maxSize, measure);
+    case "list":
+      return packRanges(blockText, findListItems(blockText), maxSize, measure, (_item, itemText) =>
+        splitOnSentences(itemText, maxSize, measure)
+      );
+    default:
+      return splitOnSentences(blockText, maxSize, measure);
+  }
+}
+
+/**
+ * Split text into chunks at block boundaries (paragraphs, tables, fenced
+ * code and lists), never inside a table row, code block or list item
+ * Falls back to splitting a block along its structure if it is too large
+ */
+export function splitOnParagraphs(
+  text: string,
+  maxSize: number,
+  measure: SizeMeasure = countTokens
+): string[] {
+  return packRanges(text, scanMarkdownBlocks(text), maxSize, measure, (block, blockText) =>
+    splitOversizedBlock(block, blockText, maxSize, measure)
+  );
+}
+
+// Token overlap is not carried into or out of tables and fenced code:
+// a partial row or code line would only garble the neighbouring chunk
+function isAtomicBlock(block: MarkdownBlock | undefined): boolean {
+  return block?.type === "table" || block?.type === "code";
+}
+
+/**
+ * Check whether text opens with a table or fenced code block
+ */
+function startsWithAtomicBlock(text: string): boolean {
+  return isAtomicBlock(scanMarkdownBlocks(text)[0]);
+}
+
+/**
+ * Check whether text ends with a table or fenced code block
+ */
+function endsWithAtomicBlock(text: string): boolean {
+  return isAtomicBlock(scanMarkdownBlocks(text).at(-1));
+}
+
+/**
+ * Build the [Context: ...] line prepended to the first chunk of a section,
+ * e.g. "[Context: Step C > Application Steps > Fees]"
+ *
+ * @returns The prefix, or "" for sections outside any H2–H6 heading
+ */
+function formatContextPrefix(section: MarkdownSection): string {
+  return section.headingPath.length > 0
+    ? `[Context: ${section.headingPath.join(" > ")}]\n\n`
+    : "";
+}
+
+/**
+ * Get the text of the last `count` tokens (none when count is 0)
+ */
+function takeLastTokens(text: string, count: number): string {
+  if (count <= 0) return "";
+
+  return decodeTokens(encodeTokens(text).slice(-count))
+    .replace(/^\uFFFD+/, "") // Partial character cut by the token boundary
+    .trimStart();
+}
+
+/**
+ * Get the last `count` tokens of a chunk to repeat at the start of the next
+ * one, never including its [Context: ...] line (a short chunk's overlap would
+ * otherwise carry the previous section's breadcrumb into the next section)
+ */
+function takeOverlap(text: string, count: number): string {
+  const body = text.replace(CONTEXT_PREFIX_REGEX, "");
+  return endsWithAtomicBlock(body) ? "" : takeLastTokens(body, count);
+}
+
+/**
+ * Chunk header fields for a section: the top two breadcrumb levels (usually
+ * H2 and H3) as section and subsection, plus the full breadcrumb
+ */
+function sectionHeaders(section: MarkdownSection): {
+  sectionHeader?: string;
+  subsectionHeader?: string;
+  headingPath: string[];
+} {
+  return {
+    sectionHeader: section.headingPath[0],
+    subsectionHeader: section.headingPath[1],
+    headingPath: section.headingPath,
+  };
+}
+
+/**
+ * A section prepared for chunking, with the headers its chunks are filed under
+ */
+export interface SectionSource {
+  level: number; // 0 for the preamble, or when the document has no headers
+  title?: string;
+  sectionHeader?: string;
+  subsectionHeader?: string;
+  headingPath: string[]; // Enclosing H2–H6 titles, ending with this section's
+  contextPrefix: string; // [Context: ...] line, or "" outside any H2–H6
+  content: string; // Section body, page markers included
+  currentPage?: number; // Page in effect where the body starts
+}
+
+/**
+ * Split a document into sections with the same header and page tracking
+ * chunkMarkdownDocument uses, for strategies that chunk section by section
+ * A document without headers is returned as a single untitled section
+ */
+export function collectSections(content: string): SectionSource[] {
+  const sections = parseMarkdownStructure(content);
+
+  if (sections.length === 0) {
+    return [{ level: 0, headingPath: [], contextPrefix: "", content }];
+  }
+
+  const sources: SectionSource[] = [];
+
+  // Pick up any page marker that precedes the first header
+  let currentPage = resolvePageMarkers(
+    content.slice(0, sections[0].startPosition),
+    undefined
+  ).currentPage;
+
+  sections.forEach((section) => {
+    sources.push({
+      level: section.level,
+      title: section.title,
+      ...sectionHeaders(section),
+      contextPrefix: formatContextPrefix(section),
+      content: section.content,
+      currentPage,
+    });
+
+    currentPage = resolvePageMarkers(section.content, currentPage).currentPage;
+  });
+
+  return sources;
+}
+
+/**
+ * A piece of a section below MIN_CHUNK_SIZE, merged into a neighbouring chunk
+ */
+export interface MergedFragment {
+  headingPath: string[];
+  content: string;
+  tokenCount: number;
+  mergedInto: "previous" | "next";
+}
+
+/**
+ * What chunking had to adjust, collected when previewing an upload
+ */
+export interface ChunkingReport {
+  mergedFragments: MergedFragment[];
+}
+
+/**
+ * Merge pieces below MIN_CHUNK_SIZE tokens into a neighbour instead of
+ * keeping them as chunks of their own: into the previous piece, or into the
+ * next one when nothing precedes them or they introduce it (end with ":")
+ * Merged pieces may exceed the chunk size by up to MIN_CHUNK_SIZE tokens
+ *
+ * @param onMerge - Called with each merged fragment
+ */
+function mergeShortPieces(
+  pieces: string[],
+  onMerge?: (fragment: Omit<MergedFragment, "headingPath">) => void
+): string[] {
+  if (pieces.length < 2) return pieces;
+
+  const merged: string[] = [];
+  let carried = ""; // Fragments waiting to open the next piece
+
+  pieces.forEach((piece, index) => {
+    const text = stripPageMarkers(piece);
+    const tokenCount = countTokens(text);
+    const withCarried = carried ? `${carried}\n\n${piece}` : piece;
+
+    if (tokenCount >= RAG_CONFIG.MIN_CHUNK_SIZE) {
+      merged.push(withCarried);
+      carried = "";
+      return;
+    }
+
+    const isLast = index === pieces.length - 1;
+    const joinsNext = !isLast && (merged.length === 0 || /:$/.test(text));
+
+    if (joinsNext) {
+      carried = withCarried;
+    } else if (merged.length > 0) {
+      merged[merged.length - 1] += `\n\n${withCarried}`;
+      carried = "";
+    } else {
+      merged.push(withCarried); // Every piece was short
+      carried = "";
+    }
+
+    if (text.length > 0) {
+      onMerge?.({
+        content: text,
+        tokenCount,
+        mergedInto: joinsNext ? "next" : "previous",
+      });
+    }
+  });
+
+  return merged;
+}
+
 /**
  * Intelligently chunk a markdown document based on structure
- * Prefers H2 boundaries, falls back to H3, then paragraphs
+ * Splits at every heading (H1–H6), then at paragraphs, tables and lists
  * Implements overlapping chunks to preserve context
+ *
+ * @param options - chunkSize and overlap in tokens (defaults from RAG_CONFIG)
+ * @param report - Collects the fragments merged into neighbouring chunks
  */
 export function chunkMarkdownDocument(
   content: string,
   metadata: DocumentMetadata,
-  documentId: string
+  documentId: string,
+  options: Pick<ChunkingOptions, "chunkSize" | "overlap"> = {},
+  report?: ChunkingReport
 ): DocumentChunk[] {
+  const { chunkSize = RAG_CONFIG.CHUNK_SIZE, overlap = RAG_CONFIG.CHUNK_OVERLAP } = options;
   const sections = parseMarkdownStructure(content);
   const chunks: DocumentChunk[] = [];
   let previousChunkEnd = "";
 
   // If no sections found, treat entire document as one section
   if (sections.length === 0) {
-    const textChunks = splitOnParagraphs(content, RAG_CONFIG.CHUNK_SIZE);
+    const textChunks = splitOnParagraphs(content, chunkSize);
+    let currentPage: number | undefined;
+
+    textChunks.forEach((rawChunk) => {
+      const resolved = resolvePageMarkers(rawChunk, currentPage);
+      currentPage = resolved.currentPage;
+      if (resolved.text.length === 0) return;
+
+      const chunkContent = resolved.text;
 
-    textChunks.forEach((chunkContent, index) => {
       // Add overlap from previous chunk
       const contentWithOverlap =
-        index > 0 ? previousChunkEnd + chunkContent : chunkContent;
+        chunks.length > 0 && !startsWithAtomicBlock(resolved.text)
+          ? previousChunkEnd + chunkContent
+          : chunkContent;
 
       chunks.push({
         id: randomUUID(),
@@ -173,47 +631,53 @@ export function chunkMarkdownDocument(
         metadata: {
           ...metadata,
           documentTitle: metadata.title,
-          chunkIndex: index,
-          totalChunks: textChunks.length,
+          chunkIndex: chunks.length,
+          totalChunks: 0, // Will update at the end
+          pageStart: resolved.pageStart,
+          pageEnd: resolved.pageEnd,
+          tokenCount: countTokens(contentWithOverlap),
         },
       });
 
-      // Store last N characters for next chunk
-      previousChunkEnd = chunkContent.slice(-RAG_CONFIG.CHUNK_OVERLAP);
+      // Store the last `overlap` tokens for the next chunk
+      previousChunkEnd = takeOverlap(chunkContent, overlap);
+    });
+
+    chunks.forEach((chunk) => {
+      chunk.metadata.totalChunks = chunks.length;
     });
 
     return chunks;
   }
 
   // Process sections hierarchically
-  let currentH2: string | undefined;
   let sectionChunkCount = 0;
-  let isFirstChunkOfSection = true;
+
+  // Pick up any page marker that precedes the first header
+  let currentPage = resolvePageMarkers(
+    content.slice(0, sections[0].startPosition),
+    undefined
+  ).currentPage;
 
   sections.forEach((section) => {
-    // Track H2 headers for context
-    if (section.level === 2) {
-      currentH2 = section.title;
-      isFirstChunkOfSection = true;
-    }
 
     // Determine if section needs to be split
-    if (section.content.length <= RAG_CONFIG.CHUNK_SIZE) {
+    if (countTokens(section.content) <= chunkSize) {
       // Section fits in one chunk
-      let chunkContent = section.content;
+      const resolved = resolvePageMarkers(section.content, currentPage);
+      currentPage = resolved.currentPage;
+      if (resolved.text.length === 0) return;
+
+      let chunkContent = resolved.text;
 
       // Add context prefix for first chunk of section
-      if (isFirstChunkOfSection && currentH2) {
-        const contextPrefix =
-          section.level === 3
-            ? `[Context: ${currentH2} > ${section.title}]\n\n`
-            : `[Context: ${section.title}]\n\n`;
-        chunkContent = contextPrefix + chunkContent;
-      }
+      chunkContent = formatContextPrefix(section) + chunkContent;
 
       // Add overlap from previous chunk
       const contentWithOverlap =
-        chunks.length > 0 ? previousChunkEnd + chunkContent : chunkContent;
+        chunks.length > 0 && !startsWithAtomicBlock(resolved.text)
+          ? previousChunkEnd + chunkContent
+          : chunkContent;
 
       chunks.push({
         id: randomUUID(),
@@ -224,73 +688,68 @@ export function chunkMarkdownDocument(
           documentTitle: metadata.title,
           chunkIndex: chunks.length,
           totalChunks: 0, // Will update at the end
-          sectionHeader: section.level === 2 ? section.title : currentH2,
-          subsectionHeader: section.level === 3 ? section.title : undefined,
+          ...sectionHeaders(section),
+          pageStart: resolved.pageStart,
+          pageEnd: resolved.pageEnd,
+          tokenCount: countTokens(contentWithOverlap),
         },
       });
 
-      // Store last N characters for next chunk
-      previousChunkEnd = section.content.slice(-RAG_CONFIG.CHUNK_OVERLAP);
-      isFirstChunkOfSection = false;
+      // Store the last `overlap` tokens for the next chunk
+      previousChunkEnd = takeOverlap(resolved.text, overlap);
       sectionChunkCount = 1;
     } else {
       // Section too large, split it
-      const textChunks = splitOnParagraphs(
-        section.content,
-        RAG_CONFIG.CHUNK_SIZE
+      const textChunks = mergeShortPieces(
+        splitOnParagraphs(section.content, chunkSize),
+        (fragment) => report?.mergedFragments.push({ headingPath: section.headingPath, ...fragment })
       );
 
-      textChunks.forEach((chunkContent, index) => {
+      textChunks.forEach((rawChunk, index) => {
+        const resolved = resolvePageMarkers(rawChunk, currentPage);
+        currentPage = resolved.currentPage;
+        if (resolved.text.length === 0) return;
+
+        let chunkContent = resolved.text;
+
         // Add context prefix only to first chunk of section
-        if (index === 0 && isFirstChunkOfSection && currentH2) {
-          const contextPrefix =
-            section.level === 3
-              ? `[Context: ${currentH2} > ${section.title}]\n\n`
-              : `[Context: ${section.title}]\n\n`;
-          chunkContent = contextPrefix + chunkContent;
+        if (index === 0) {
+          chunkContent = formatContextPrefix(section) + chunkContent;
         }
 
         // Add overlap from previous chunk
         const contentWithOverlap =
-          chunks.length > 0 || index > 0
+          (chunks.length > 0 || index > 0) && !startsWithAtomicBlock(resolved.text)
             ? previousChunkEnd + chunkContent
             : chunkContent;
 
-        // Skip chunks that are too small (unless it's the only chunk)
-        if (
-          contentWithOverlap.length >= RAG_CONFIG.MIN_CHUNK_SIZE ||
-          textChunks.length === 1
-        ) {
-          chunks.push({
-            id: randomUUID(),
-            documentId: documentId,
-            content: contentWithOverlap,
-            metadata: {
-              ...metadata,
-              documentTitle: metadata.title,
-              chunkIndex: chunks.length,
-              totalChunks: 0, // Will update at the end
-              sectionHeader: section.level === 2 ? section.title : currentH2,
-              subsectionHeader: section.level === 3 ? section.title : undefined,
-            },
-          });
-
-          // Store last N characters for next chunk
-          previousChunkEnd = chunkContent.slice(-RAG_CONFIG.CHUNK_OVERLAP);
-        }
-
-        if (index === 0) {
-          isFirstChunkOfSection = false;
-        }
+        chunks.push({
+          id: randomUUID(),
+          documentId: documentId,
+          content: contentWithOverlap,
+          metadata: {
+            ...metadata,
+            documentTitle: metadata.title,
+            chunkIndex: chunks.length,
+            totalChunks: 0, // Will update at the end
+            ...sectionHeaders(section),
+            pageStart: resolved.pageStart,
+            pageEnd: resolved.pageEnd,
+            tokenCount: countTokens(contentWithOverlap),
+          },
+        });
+
+        // Store the last `overlap` tokens for the next chunk
+        previousChunkEnd = takeOverlap(chunkContent, overlap);
       });
 
       sectionChunkCount = textChunks.length;
     }
 
     // Log warning for very large sections
-    if (sectionChunkCount > 5) {
+    if (sectionChunkCount > LARGE_SECTION_CHUNK_COUNT) {
       console.warn(
-        `[md-processor] Large section "${section.title}" split into ${sectionChunkCount} chunks`
+        `[md-processor] Large section "${section.title || "preamble"}" split into ${sectionChunkCount} chunks`
       );
     }
   });
@@ -304,25 +763,173 @@ export function chunkMarkdownDocument(
   return chunks;
 }
 
+/**
+ * Measure the overlap a chunking strategy prepended to a chunk: the length
+ * of the longest prefix of the chunk that repeats the end of the previous one
+ * Not capped at CHUNK_OVERLAP, since sliding windows may repeat most of a chunk
+ *
+ * @returns Number of overlapping characters (0 if none)
+ */
+export function measureChunkOverlap(previous: string, current: string): number {
+  const maxLength = Math.min(previous.length, current.length);
+  if (maxLength < MIN_DETECTED_OVERLAP) return 0;
+
+  // Longest border of "prefix \0 suffix" (KMP prefix function), linear in length
+  const text = `${current.slice(0, maxLength)}\u0000${previous.slice(-maxLength)}`;
+  const border = new Array<number>(text.length).fill(0);
+
+  for (let i = 1; i < text.length; i++) {
+    let length = border[i - 1];
+    while (length > 0 && text[i] !== text[length]) {
+      length = border[length - 1];
+    }
+    if (text[i] === text[length]) {
+      length++;
+    }
+    border[i] = length;
+  }
+
+  const overlap = Math.min(border[text.length - 1], maxLength);
+  return overlap >= MIN_DETECTED_OVERLAP ? overlap : 0;
+}
+
+/**
+ * Get the [Context: ...] prefix at the start of a chunk body (after any overlap)
+ *
+ * @returns The prefix including its trailing blank line, or null
+ */
+export function extractContextPrefix(body: string): string | null {
+  const match = body.match(CONTEXT_PREFIX_REGEX);
+  return match ? match[0] : null;
+}
+
+/**
+ * Measure how much of a document's text ended up in at least one chunk
+ * Each chunk's lines (less overlap and context prefix) are located in the
+ * source in order; headings and page markers are not counted, since chunks
+ * carry them as metadata
+ *
+ * @param content - Markdown the chunks were made from
+ * @returns Covered share of the source's non-whitespace characters
+ */
+export function measureCoverage(content: string, chunks: DocumentChunk[]): CoverageReport {
+  const lines = content.split("\n");
+  const headingLines = new Set(scanHeadings(lines).map((heading) => heading.lineIndex));
+
+  // Per character: 0 whitespace, 1 heading or page marker, 2 counted text
+  const kinds = new Uint8Array(content.length);
+  let position = 0;
+  lines.forEach((line, index) => {
+    const excluded = headingLines.has(index) || PAGE_MARKER_REGEX.test(line.trim());
+    for (let i = 0; i < line.length; i++) {
+      if (/\S/.test(line[i])) kinds[position + i] = excluded ? 1 : 2;
+    }
+    position += line.length + 1;
+  });
+
+  const covered = new Uint8Array(content.length);
+  let cursor = 0; // Chunks follow document order, so search on from the previous one
+
+  chunks.forEach((chunk, index) => {
+    const overlapLength =
+      index > 0 ? measureChunkOverlap(chunks[index - 1].content, chunk.content) : 0;
+    let body = chunk.content.slice(overlapLength);
+    body = body.slice(extractContextPrefix(body)?.length ?? 0);
+
+    // Text found only before the cursor (a repeated table header) leaves it in place
+    const locate = (text: string): boolean => {
+      const ahead = content.indexOf(text, cursor);
+      const found = ahead >= 0 ? ahead : content.indexOf(text);
+      if (found < 0) return false;
+
+      covered.fill(1, found, found + text.length);
+      if (ahead >= 0) cursor = found + text.length;
+      return true;
+    };
+
+    body.split("\n").forEach((line) => {
+      const text = line.trim();
+      if (text.length === 0 || locate(text)) return;
+
+      // Strategies may join sentences differently from the source
+      matchSentences(text).forEach((sentence) => {
+        if (sentence.trim().length > 0) locate(sentence.trim());
+      });
+    });
+  });
+
+  let sourceChars = 0;
+  let coveredChars = 0;
+  const passages: Array<{ start: number; end: number; chars: number }> = [];
+  let passage: { start: number; end: number; chars: number } | null = null;
+
+  for (let i = 0; i < content.length; i++) {
+    if (kinds[i] === 2) {
+      sourceChars++;
+      if (covered[i]) {
+        coveredChars++;
+        passage = null;
+      } else {
+        if (!passage) {
+          passage = { start: i, end: i, chars: 0 };
+          passages.push(passage);
+        }
+        passage.end = i + 1;
+        passage.chars++;
+      }
+    } else if (kinds[i] === 1) {
+      passage = null; // Passages do not run across headings
+    }
+  }
+
+  return {
+    sourceChars,
+    coveredChars,
+    percent: sourceChars > 0 ? Math.floor((coveredChars / sourceChars) * 1000) / 10 : 100,
+    uncovered: passages
+      .sort((a, b) => b.chars - a.chars)
+      .slice(0, MAX_UNCOVERED_PASSAGES)
+      .map(({ start, end }) => {
+        const text = content.slice(start, end).replace(/\s+/g, " ");
+        return text.length > UNCOVERED_SNIPPET_LENGTH
+          ? `${text.slice(0, UNCOVERED_SNIPPET_LENGTH)}...`
+          : text;
+      }),
+  };
+}
+
 /**
  * Main orchestration function for processing markdown documents
  * Parses structure, chunks content, and adds metadata
+ *
+ * @param chunking - Strategy and resolved options (section-aware defaults when omitted)
+ * @param report - Collects what chunking left out (for previews)
  */
 export function processMarkdownDocument(
   fileContent: string,
   metadata: DocumentMetadata,
-  documentId: string
+  documentId: string,
+  chunking?: { strategy: ChunkingStrategy; options: ChunkingOptions },
+  report?: ChunkingReport
 ): DocumentChunk[] {
   // Validate content is not empty
-  if (fileContent.trim().length === 0) {
+  if (stripPageMarkers(fileContent).length === 0) {
     throw new Error("Document content is empty");
   }
 
   // Parse and chunk the document
-  const chunks = chunkMarkdownDocument(fileContent, metadata, documentId);
+  const chunks = chunking
+    ? chunking.strategy.chunk(fileContent, metadata, documentId, chunking.options, report)
+    : chunkMarkdownDocument(fileContent, metadata, documentId, {}, report);
+
+  // Pipe-delimited rows embed poorly, so tables are embedded one row per line
+  chunks.forEach((chunk) => {
+    chunk.embeddingContent = renderTablesAsText(chunk.content) ?? undefined;
+  });
 
   // Log processing results
   console.log(`[md-processor] Processed document: ${metadata.title}`);
+  console.log(`[md-processor] Strategy: ${chunking?.strategy.name ?? "section-aware"}`);
   console.log(`[md-processor] County: ${metadata.county}, Year: ${metadata.year}`);
   console.log(`[md-processor] Created ${chunks.length} chunks`);
 
@@ -0,0 +1,259 @@
+import { extractTextItems, type StructuredTextItem } from "unpdf";
+import { formatPageMarker, stripPageMarkers } from "./md-processor";
+
+/**
+ * A single visual line of text reconstructed from PDF text items
+ */
+interface PdfLine {
+  text: string;
+  fontSize: number;
+  y: number;
+}
+
+/**
+ * Result of converting a PDF into markdown
+ */
+export interface PdfConversionResult {
+  markdown: string;
+  pageCount: number;
+  headingCount: number;
+}
+
+// Lines at least this much larger than body text are treated as headings
+const HEADING_SIZE_RATIO = 1.15;
+
+// Headings are short; anything longer is a paragraph set in a large font
+const MAX_HEADING_LENGTH = 120;
+
+// Vertical gap (as a multiple of font size) that starts a new paragraph
+const PARAGRAPH_GAP_RATIO = 1.6;
+
+// Bullets and numbered list markers always start a new line
+const LIST_ITEM_REGEX = /^([•▪◦\-*]|\d+[.)]|[a-z][.)])\s+/;
+
+/**
+ * Group positioned text items into lines
+ * A line ends at an explicit EOL or when the baseline moves
+ */
+function groupIntoLines(items: StructuredTextItem[]): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let text = "";
+  let fontSize = 0;
+  let y: number | null = null;
+
+  const flush = () => {
+    const trimmed = text.replace(/\s+/g, " ").trim();
+    if (trimmed.length > 0 && y !== null) {
+      lines.push({ text: trimmed, fontSize, y });
+    }
+    text = "";
+    fontSize = 0;
+    y = null;
+  };
+
+  for (const item of items) {
+    if (y !== null && Math.abs(item.y - y) > 2 && item.str.trim().length > 0) {
+      flush();
+    }
+
+    if (item.str.trim().length > 0) {
+      y = y ?? item.y;
+      fontSize = Math.max(fontSize, Math.round(item.fontSize * 2) / 2);
+    }
+    text += item.str;
+
+    if (item.hasEOL) {
+      flush();
+    }
+  }
+
+  flush();
+  return lines;
+}
+
+/**
+ * Find the body font size: the size that carries the most characters
+ */
+function detectBodyFontSize(pages: PdfLine[][]): number {
+  const charsBySize = new Map<number, number>();
+
+  pages.flat().forEach((line) => {
+    charsBySize.set(
+      line.fontSize,
+      (charsBySize.get(line.fontSize) || 0) + line.text.length
+    );
+  });
+
+  let bodySize = 0;
+  let maxChars = -1;
+  charsBySize.forEach((chars, size) => {
+    if (chars > maxChars) {
+      bodySize = size;
+      maxChars = chars;
+    }
+  });
+
+  return bodySize;
+}
+
+/**
+ * Check whether a body-sized line looks like an ALL CAPS heading
+ */
+function isCapsHeading(text: string): boolean {
+  const letters = text.replace(/[^A-Za-z]/g, "");
+  return (
+    letters.length >= 4 &&
+    text.length <= 80 &&
+    letters === letters.toUpperCase() &&
+    !/[.,;:]$/.test(text)
+  );
+}
+
+/**
+ * Map heading font sizes to markdown levels
+ * Larger fonts get shallower levels; a single heading size maps to H2 so
+ * the chunker still finds section boundaries
+ */
+function buildHeadingLevels(
+  pages: PdfLine[][],
+  bodySize: number
+): Map<number, number> {
+  const headingSizes = new Set<number>();
+
+  pages.flat().forEach((line) => {
+    if (
+      line.fontSize >= bodySize * HEADING_SIZE_RATIO &&
+      line.text.length <= MAX_HEADING_LENGTH
+    ) {
+      headingSizes.add(line.fontSize);
+    }
+  });
+
+  const sorted = Array.from(headingSizes).sort((a, b) => b - a).slice(0, 3);
+  const firstLevel = sorted.length === 1 ? 2 : 1;
+  const levels = new Map<number, number>();
+  sorted.forEach((size, index) => levels.set(size, firstLevel + index));
+
+  return levels;
+}
+
+/**
+ * Render one page of lines as markdown blocks
+ */
+function renderPage(
+  lines: PdfLine[],
+  headingLevels: Map<number, number>,
+  capsLevel: number
+): string[] {
+  const blocks: string[] = [];
+  let paragraph = "";
+  let previous: PdfLine | null = null;
+  let previousHeading: { level: number; index: number } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.trim().length > 0) {
+      blocks.push(paragraph.trim());
+    }
+    paragraph = "";
+  };
+
+  for (const line of lines) {
+    const level =
+      headingLevels.get(line.fontSize) ??
+      (isCapsHeading(line.text) ? capsLevel : undefined);
+
+    if (level !== undefined && line.text.length <= MAX_HEADING_LENGTH) {
+      flushParagraph();
+
+      // Headings that wrap onto a second line share the same level
+      if (
+        previousHeading &&
+        previousHeading.level === level &&
+        previousHeading.index === blocks.length - 1
+      ) {
+        blocks[blocks.length - 1] += ` ${line.text}`;
+      } else {
+        blocks.push(`${"#".repeat(level)} ${line.text}`);
+        previousHeading = { level, index: blocks.length - 1 };
+      }
+
+      previous = line;
+      continue;
+    }
+
+    previousHeading = null;
+
+    const gap = previous ? Math.abs(previous.y - line.y) : 0;
+    const startsBlock =
+      LIST_ITEM_REGEX.test(line.text) ||
+      (previous !== null && gap > line.fontSize * PARAGRAPH_GAP_RATIO);
+
+    if (startsBlock) {
+      flushParagraph();
+    }
+
+    if (LIST_ITEM_REGEX.test(line.text)) {
+      paragraph = line.text.replace(/^[•▪◦*]\s+/, "- ");
+    } else if (paragraph.endsWith("-")) {
+      // Rejoin words hyphenated across a line break
+      paragraph = paragraph.slice(0, -1) + line.text;
+    } else {
+      paragraph += (paragraph ? " " : "") + line.text;
+    }
+
+    previous = line;
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Convert a PDF into structured markdown
+ * Extracts text page by page, infers headings from font sizes (falling back
+ * to ALL CAPS lines) and inserts page markers so chunks keep page numbers
+ *
+ * @param data - Raw PDF bytes
+ * @returns Markdown with page markers plus conversion stats
+ */
+export async function convertPdfToMarkdown(
+  data: ArrayBuffer | Uint8Array
+): Promise<PdfConversionResult> {
+  // pdf.js rejects Node Buffers, so always hand it a plain Uint8Array
+  const bytes = new Uint8Array(data);
+  const { totalPages, items } = await extractTextItems(bytes);
+
+  const pages = items.map(groupIntoLines);
+  const bodySize = detectBodyFontSize(pages);
+  const headingLevels = buildHeadingLevels(pages, bodySize);
+  const capsLevel = Math.min(3, headingLevels.size === 0 ? 2 : headingLevels.size + 1);
+
+  const parts: string[] = [];
+  let headingCount = 0;
+
+  pages.forEach((lines, index) => {
+    const blocks = renderPage(lines, headingLevels, capsLevel);
+    headingCount += blocks.filter((block) => block.startsWith("#")).length;
+
+    parts.push(formatPageMarker(index + 1));
+    parts.push(...blocks);
+  });
+
+  const markdown = parts.join("\n\n");
+
+  if (stripPageMarkers(markdown).length === 0) {
+    throw new Error(
+      "No extractable text found in PDF (scanned PDFs need OCR before upload)"
+    );
+  }
+
+  console.log(
+    `[pdf-processor] Extracted ${totalPages} pages, inferred ${headingCount} headings (body font ${bodySize}pt)`
+  );
+
+  return {
+    markdown,
+    pageCount: totalPages,
+    headingCount,
+  };
+}
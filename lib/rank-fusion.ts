@@ -0,0 +1,89 @@
+import { RAG_CONFIG } from './constants';
+import { FusionMethod } from './types';
+
+/**
+ * One retriever's results, best first
+ */
+export interface Ranking {
+  ids: string[];
+  scores: number[]; // Higher is better, one per ID; only weighted fusion reads them
+  weight: number; // Share of the fused score
+}
+
+/**
+ * A result after fusion
+ */
+export interface FusedResult {
+  id: string;
+  score: number; // Higher is better; comparable only within one fusion
+}
+
+/**
+ * Reciprocal rank fusion: each ranking adds weight / (k + rank) for every ID
+ * it contains, so items ranked well by several retrievers rise to the top
+ * without their raw scores (cosine distance, ts_rank) having to be comparable
+ *
+ * @param k - Damping; higher values flatten the difference between ranks
+ */
+export function reciprocalRankFusion(
+  rankings: Ranking[],
+  k: number = RAG_CONFIG.RRF_K
+): Map<string, number> {
+  const fused = new Map<string, number>();
+
+  rankings.forEach((ranking) => {
+    ranking.ids.forEach((id, index) => {
+      fused.set(id, (fused.get(id) ?? 0) + ranking.weight / (k + index + 1));
+    });
+  });
+
+  return fused;
+}
+
+/**
+ * Weighted score fusion: each ranking's scores are min-max normalized to 0-1
+ * and summed by weight; an ID missing from a ranking scores 0 there
+ * Unlike RRF it keeps how far apart results are, at the cost of trusting
+ * each retriever's score scale
+ */
+export function weightedScoreFusion(rankings: Ranking[]): Map<string, number> {
+  const fused = new Map<string, number>();
+
+  rankings.forEach((ranking) => {
+    if (ranking.ids.length === 0) return;
+
+    const min = Math.min(...ranking.scores);
+    const max = Math.max(...ranking.scores);
+
+    ranking.ids.forEach((id, index) => {
+      // A single result, or all tied, counts as a full match
+      const normalized = max > min ? (ranking.scores[index] - min) / (max - min) : 1;
+      fused.set(id, (fused.get(id) ?? 0) + ranking.weight * normalized);
+    });
+  });
+
+  return fused;
+}
+
+/**
+ * Merge rankings into one, best first
+ * Ties keep the order in which IDs first appear across the rankings
+ *
+ * @param method - rrf (default RAG_CONFIG.DEFAULT_FUSION) or weighted
+ * @param options - rrfK: damping for RRF (default RAG_CONFIG.RRF_K)
+ */
+export function fuseRankings(
+  rankings: Ranking[],
+  method: FusionMethod = RAG_CONFIG.DEFAULT_FUSION,
+  options: { rrfK?: number } = {}
+): FusedResult[] {
+  const fused =
+    method === 'weighted'
+      ? weightedScoreFusion(rankings)
+      : reciprocalRankFusion(rankings, options.rrfK);
+
+  // Map iteration follows insertion order, and sort is stable
+  return Array.from(fused.entries())
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,248 @@
+import { processMarkdownDocument } from "./md-processor";
+import {
+  ChunkingRequest,
+  extractMarkdown,
+  IngestionError,
+  resolveChunkingRequest,
+  toDocumentMetadata,
+} from "./ingestion";
+import {
+  DuplicateContentError,
+  getDocument,
+  getDocumentFile,
+  listDocuments,
+  updateDocumentStatus,
+} from "./db/document-store";
+import { storeDocumentChunks } from "./db/vector-store";
+import { EmbeddingCacheStats } from "./embeddings";
+import { ChunkingOptions, ChunkingStrategyName } from "./types";
+
+/**
+ * Result of reprocessing a single document
+ */
+export interface ReprocessResult {
+  documentId: string;
+  title: string;
+  previousChunkCount: number;
+  chunkCount: number;
+  vectorCount: number;
+  embeddingCache?: EmbeddingCacheStats; // Unchanged chunks are re-embedded from the cache
+  chunkingStrategy: ChunkingStrategyName;
+  chunkingOptions: ChunkingOptions;
+}
+
+/**
+ * Progress of a bulk reprocess, reported after each document
+ */
+export interface ReprocessProgress {
+  index: number; // 1-based position in the batch
+  total: number;
+  documentId: string;
+  title: string;
+  success: boolean;
+  skipped?: boolean; // No stored original to reprocess from
+  previousChunkCount?: number;
+  chunkCount?: number;
+  error?: string;
+}
+
+/**
+ * Outcome of a bulk reprocess
+ */
+export interface ReprocessSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Re-chunk and re-embed a document from its stored original file, then swap
+ * the new chunks in atomically
+ * Metadata comes from the documents row, so edits made after upload are kept.
+ * The document's stored chunking strategy is reused unless a new one is given,
+ * in which case it replaces the stored one.
+ *
+ * @param documentId - The document ID
+ * @param chunkingRequest - Optional strategy and options to switch to
+ * @returns Old and new chunk counts
+ * @throws IngestionError with the HTTP status to respond with
+ */
+export async function reprocessDocument(
+  documentId: string,
+  chunkingRequest?: ChunkingRequest
+): Promise<ReprocessResult> {
+  const document = await getDocument(documentId);
+  if (!document) {
+    throw new IngestionError(`Document not found: ${documentId}`, 404);
+  }
+  if (document.status === "processing") {
+    throw new IngestionError(
+      `Document ${documentId} is still being processed; try again once it is ready`,
+      409
+    );
+  }
+
+  // Options given without a strategy apply to the document's current strategy
+  const chunking = resolveChunkingRequest(
+    chunkingRequest
+      ? {
+          strategy: chunkingRequest.strategy ?? document.chunkingStrategy,
+          options: chunkingRequest.options,
+        }
+      : { strategy: document.chunkingStrategy, options: document.chunkingOptions }
+  );
+
+  const data = await getDocumentFile(documentId);
+  if (!data) {
+    throw new IngestionError(
+      "Original file is not stored for this document; re-upload it to reprocess",
+      409
+    );
+  }
+
+  console.log(`[reprocessing] Reprocessing ${documentId} (${document.fileName})`);
+
+  // Copy into a standalone ArrayBuffer (pg may return a slice of a pooled buffer)
+  const bytes = new Uint8Array(data);
+  const { content } = await extractMarkdown(document.fileName, bytes.buffer);
+
+  if (content.trim().length === 0) {
+    throw new IngestionError("File content is empty", 400);
+  }
+
+  let chunks;
+  try {
+    chunks = processMarkdownDocument(
+      content,
+      toDocumentMetadata(document),
+      documentId,
+      chunking
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new IngestionError(`Failed to process document: ${errorMessage}`, 500);
+  }
+
+  // A failed document claims its file back before any chunks are stored,
+  // since another document may hold an identical file by now
+  if (document.status === "failed") {
+    try {
+      await updateDocumentStatus(documentId, "processing");
+    } catch (error) {
+      if (error instanceof DuplicateContentError) {
+        throw new IngestionError(
+          `This file is identical to document "${error.existing.title}" (${error.existing.id}); reprocess that one instead`,
+          409
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Old chunks stay in place if anything here fails
+  const storeResult = await storeDocumentChunks(chunks, { replaceExisting: true });
+  if (!storeResult.success) {
+    if (document.status === "failed") {
+      await updateDocumentStatus(documentId, "failed", { errorMessage: storeResult.error });
+    }
+    throw new IngestionError(
+      `Failed to store document vectors: ${storeResult.error || "Unknown error"}`,
+      500
+    );
+  }
+
+  await updateDocumentStatus(documentId, "ready", {
+    chunkCount: storeResult.vectorCount,
+    chunkingStrategy: chunking.strategy.name,
+    chunkingOptions: chunking.options,
+  });
+
+  const previousChunkCount = document.chunksProcessed ?? 0;
+  console.log(
+    `[reprocessing] ${documentId}: ${previousChunkCount} -> ${storeResult.vectorCount} chunks`
+  );
+
+  return {
+    documentId,
+    title: document.title,
+    previousChunkCount,
+    chunkCount: chunks.length,
+    vectorCount: storeResult.vectorCount,
+    embeddingCache: storeResult.embeddingCache,
+    chunkingStrategy: chunking.strategy.name,
+    chunkingOptions: chunking.options,
+  };
+}
+
+/**
+ * Reprocess every ready document that has a stored original, one at a time
+ * Documents uploaded before originals were kept are reported as skipped;
+ * failed uploads are left out (reprocess them one by one to retry them)
+ *
+ * @param onProgress - Called after each document
+ * @param options - county: only reprocess documents for this county
+ * @returns Batch summary
+ */
+export async function reprocessAllDocuments(
+  onProgress?: (progress: ReprocessProgress) => void,
+  options: { county?: string } = {}
+): Promise<ReprocessSummary> {
+  const documents = (await listDocuments()).filter(
+    (document) =>
+      document.status === "ready" &&
+      (!options.county || document.county === options.county)
+  );
+
+  console.log(`[reprocessing] Reprocessing ${documents.length} documents`);
+
+  const summary: ReprocessSummary = {
+    total: documents.length,
+    succeeded: 0,
+    failed: 0,
+    skipped: 0,
+  };
+
+  // Process sequentially to stay within embedding rate limits
+  for (const [index, document] of documents.entries()) {
+    const base = {
+      index: index + 1,
+      total: documents.length,
+      documentId: document.id,
+      title: document.title,
+    };
+
+    if (!document.hasOriginal) {
+      summary.skipped++;
+      onProgress?.({
+        ...base,
+        success: false,
+        skipped: true,
+        error: "Original file is not stored",
+      });
+      continue;
+    }
+
+    try {
+      const result = await reprocessDocument(document.id);
+      summary.succeeded++;
+      onProgress?.({
+        ...base,
+        success: true,
+        previousChunkCount: result.previousChunkCount,
+        chunkCount: result.chunkCount,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error(`[reprocessing] Failed to reprocess ${document.id}: ${message}`);
+      summary.failed++;
+      onProgress?.({ ...base, success: false, error: message });
+    }
+  }
+
+  console.log(
+    `[reprocessing] Completed: ${summary.succeeded} succeeded, ${summary.failed} failed, ${summary.skipped} skipped`
+  );
+
+  return summary;
+}
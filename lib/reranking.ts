@@ -0,0 +1,247 @@
+import OpenAI from 'openai';
+import { RAG_CONFIG } from './constants';
+import { extractWords } from './embedding-providers';
+import type { RetrievedChunk } from './retrieval';
+import { decodeTokens, encodeTokens } from './tokenizer';
+import { RerankerName } from './types';
+
+/**
+ * Scores retrieved chunks against a query
+ * Retrieval ranks by embedding distance and keyword matches; a reranker reads
+ * query and passage together, so it can tell which chunk actually answers
+ */
+export interface Reranker {
+  name: Exclude<RerankerName, 'none'>;
+  score(query: string, chunks: RetrievedChunk[]): Promise<number[]>; // 0-1 per chunk, higher is more relevant
+}
+
+// Text a reranker judges a chunk by: where it comes from, then what it says
+function passageText(chunk: RetrievedChunk): string {
+  return [chunk.documentTitle, ...chunk.headingPath, chunk.content].join('\n');
+}
+
+// Adjacent word pairs, so phrase matches count for more than scattered words
+function wordPairs(words: string[]): string[] {
+  return words.slice(1).map((word, index) => `${words[index]} ${word}`);
+}
+
+/**
+ * Reranker scoring how much of the query a chunk covers, in-process
+ * Query words are weighted by how rare they are among the candidates, so a
+ * chunk matching "redemption" and "interest" outranks one matching only a
+ * county name every candidate shares; matching the query's word pairs adds
+ * to the score
+ */
+function createLexicalReranker(): Reranker {
+  return {
+    name: 'lexical',
+
+    async score(query, chunks) {
+      const queryWords = Array.from(new Set(extractWords(query)));
+      const queryPairs = Array.from(new Set(wordPairs(extractWords(query))));
+      if (queryWords.length === 0) {
+        return chunks.map(() => 0);
+      }
+
+      const chunkWords = chunks.map((chunk) => extractWords(passageText(chunk)));
+      const wordSets = chunkWords.map((words) => new Set(words));
+      const pairSets = chunkWords.map((words) => new Set(wordPairs(words)));
+
+      const weights = queryWords.map((word) => {
+        const documentFrequency = wordSets.filter((words) => words.has(word)).length;
+        return Math.log(1 + (chunks.length + 1) / (documentFrequency + 1));
+      });
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+      return chunks.map((_, index) => {
+        const coverage =
+          queryWords.reduce(
+            (sum, word, wordIndex) => sum + (wordSets[index].has(word) ? weights[wordIndex] : 0),
+            0
+          ) / totalWeight;
+
+        if (queryPairs.length === 0) {
+          return coverage;
+        }
+
+        const phrases =
+          queryPairs.filter((pair) => pairSets[index].has(pair)).length / queryPairs.length;
+        return 0.7 * coverage + 0.3 * phrases;
+      });
+    },
+  };
+}
+
+const LLM_RERANK_PROMPT = `You rate how well passages from Colorado tax lien documents answer a question.
+
+For each passage give a score from 0 to 10:
+- 10: directly answers the question
+- 5: relevant, but answers only part of it or needs other passages
+- 0: unrelated
+
+Judge only by the passage text. Respond with JSON: {"scores": [<one number per passage, in order>]}`;
+
+/**
+ * Reranker asking a chat model to score every candidate in one request
+ * Passages are cut to RAG_CONFIG.RERANK_MAX_PASSAGE_TOKENS so the prompt
+ * stays bounded
+ */
+function createLLMReranker(options: { apiKey: string; model: string }): Reranker {
+  const client = new OpenAI({ apiKey: options.apiKey });
+
+  return {
+    name: 'llm',
+
+    async score(query, chunks) {
+      const passages = chunks
+        .map((chunk, index) => {
+          const tokens = encodeTokens(passageText(chunk));
+          const text =
+            tokens.length > RAG_CONFIG.RERANK_MAX_PASSAGE_TOKENS
+              ? decodeTokens(tokens.slice(0, RAG_CONFIG.RERANK_MAX_PASSAGE_TOKENS))
+              : passageText(chunk);
+          return `[${index + 1}]\n${text}`;
+        })
+        .join('\n\n');
+
+      const response = await client.chat.completions.create({
+        model: options.model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: LLM_RERANK_PROMPT },
+          {
+            role: 'user',
+            content: `Question: ${query}\n\nPassages (${chunks.length}):\n\n${passages}`,
+          },
+        ],
+      });
+
+      const content = response.choices[0]?.message?.content;
+      const scores: unknown = content ? JSON.parse(content).scores : undefined;
+
+      if (
+        !Array.isArray(scores) ||
+        scores.length !== chunks.length ||
+        !scores.every((score) => typeof score === 'number' && isFinite(score))
+      ) {
+        throw new Error(`Expected ${chunks.length} numeric scores from ${options.model}`);
+      }
+
+      return scores.map((score: number) => Math.min(Math.max(score / 10, 0), 1));
+    },
+  };
+}
+
+/**
+ * Create a reranker
+ *
+ * Configuration (environment variables):
+ * - llm: OPENAI_API_KEY; RERANK_MODEL overrides RAG_CONFIG.RERANK_MODEL
+ * - lexical: nothing
+ *
+ * @param name - Reranker to create
+ * @returns The reranker, or null for "none" (keep the retrieval order)
+ * @throws Error if the name is unknown or its configuration is missing
+ */
+export function createReranker(name: string): Reranker | null {
+  switch (name) {
+    case 'llm': {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error(
+          'OPENAI_API_KEY environment variable is not set (set RERANKER=lexical to rerank offline)'
+        );
+      }
+      return createLLMReranker({
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.RERANK_MODEL || RAG_CONFIG.RERANK_MODEL,
+      });
+    }
+    case 'lexical':
+      return createLexicalReranker();
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown RERANKER "${name}" (expected "llm", "lexical" or "none")`);
+  }
+}
+
+let configuredReranker: Reranker | null | undefined;
+
+/**
+ * Get the configured reranker
+ * Chosen by the RERANKER environment variable (RAG_CONFIG.DEFAULT_RERANKER
+ * when unset) and created on first use. A reranker that cannot be created
+ * (unknown name, missing API key) is logged and treated as "none", so chat
+ * keeps the retrieval order rather than failing
+ *
+ * @returns The reranker, or null when reranking is off or misconfigured
+ */
+export function getReranker(): Reranker | null {
+  if (configuredReranker === undefined) {
+    const name = process.env.RERANKER || RAG_CONFIG.DEFAULT_RERANKER;
+    try {
+      configuredReranker = createReranker(name);
+    } catch (error) {
+      console.error(
+        `Reranker "${name}" is unavailable, keeping retrieval order: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+      configuredReranker = null;
+    }
+  }
+  return configuredReranker;
+}
+
+/**
+ * Reorder retrieved chunks by rerank score and keep the best
+ * If the reranker fails the chunks keep their retrieval order, since an
+ * answer from unreranked chunks beats no answer
+ *
+ * @param query - User's search query
+ * @param chunks - Retrieved candidates, best first
+ * @param options - reranker: defaults to getReranker(); topK: chunks to keep
+ *   (default RAG_CONFIG.DEFAULT_TOP_K)
+ * @returns Up to topK chunks with rerankScore set, most relevant first
+ */
+export async function rerankChunks(
+  query: string,
+  chunks: RetrievedChunk[],
+  options: { reranker?: Reranker | null; topK?: number } = {}
+): Promise<RetrievedChunk[]> {
+  const { topK = RAG_CONFIG.DEFAULT_TOP_K } = options;
+  const reranker = options.reranker === undefined ? getReranker() : options.reranker;
+
+  if (!reranker || chunks.length === 0) {
+    return chunks.slice(0, topK);
+  }
+
+  try {
+    const scores = await reranker.score(query, chunks);
+    if (scores.length !== chunks.length) {
+      throw new Error(`Expected ${chunks.length} scores, got ${scores.length}`);
+    }
+
+    // Sort is stable, so ties keep their retrieval order
+    const reranked = chunks
+      .map((chunk, index) => ({ ...chunk, rerankScore: scores[index] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, topK);
+
+    console.log(
+      `Reranked ${chunks.length} chunks with ${reranker.name} (kept scores: ${reranked
+        .map((chunk) => chunk.rerankScore.toFixed(2))
+        .join(', ')})`
+    );
+
+    return reranked;
+  } catch (error) {
+    console.error(
+      `Reranking with ${reranker.name} failed, keeping retrieval order: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+    return chunks.slice(0, topK);
+  }
+}
@@ -1,27 +1,54 @@
-import { getClient } from './db/postgres-client';
-import { generateEmbedding } from './embeddings';
+import { applyVectorSearchSettings } from './db/vector-index';
+import { beginEmbeddedTransaction, generateEmbedding } from './embeddings';
+import { selectDiverseChunks } from './diversity';
+import { fuseRankings } from './rank-fusion';
 import { RAG_CONFIG } from './constants';
+import { FusionMethod, SearchMode } from './types';
+import { countTokens, decodeTokens, encodeTokens } from './tokenizer';
 
 /**
- * Retrieval options for semantic search
+ * Retrieval options for vector, keyword and hybrid search
  */
 export interface RetrievalOptions {
   topK?: number; // Number of chunks to retrieve (default 5)
   county?: string; // Filter by specific county
   minDistance?: number; // Maximum distance threshold (default 1.2)
+  asOf?: Date; // Search the versions that were current on this date
+  includeSuperseded?: boolean; // Search every version (ignored when asOf is set)
+  efSearch?: number; // HNSW candidates examined (default RAG_CONFIG.HNSW_EF_SEARCH)
+  probes?: number; // IVFFlat lists searched (default RAG_CONFIG.IVFFLAT_PROBES)
+  searchMode?: SearchMode; // vector, keyword or hybrid (default RAG_CONFIG.DEFAULT_SEARCH_MODE)
+  fusion?: FusionMethod; // How hybrid search merges rankings (default RAG_CONFIG.DEFAULT_FUSION)
+  keywordWeight?: number; // Keyword share of the fused score, 0-1 (default RAG_CONFIG.KEYWORD_WEIGHT)
+  candidates?: number; // Chunks each retriever contributes to fusion (default RAG_CONFIG.HYBRID_CANDIDATES)
+  rrfK?: number; // RRF damping (default RAG_CONFIG.RRF_K)
+  mmrLambda?: number; // MMR relevance vs. novelty, 0-1; 1 turns MMR off (default RAG_CONFIG.MMR_LAMBDA)
+  maxPerDocument?: number; // Most chunks from one document (default: no cap)
+  maxPerCounty?: number; // Most chunks from one county (default: no cap)
 }
 
 /**
- * Document chunk with distance score
+ * Document chunk with distance score (plus ranks from hybrid search and a
+ * score from reranking)
  */
 export interface RetrievedChunk {
   id: string;
+  documentId: string;
   content: string;
   county: string;
   documentTitle: string;
   sectionHeader: string | null;
   subsectionHeader: string | null;
+  headingPath: string[]; // Breadcrumb of H2–H6 headings, outermost first
+  pageStart: number | null; // Source page range (PDF uploads only)
+  pageEnd: number | null;
+  tokenCount: number | null; // Model tokens in content (null for older chunks)
   distance: number; // Similarity distance (lower = more similar)
+  score?: number; // Fused score in hybrid search (higher = more relevant)
+  vectorRank?: number; // 1-based rank among vector matches, if it was one
+  keywordRank?: number; // 1-based rank among keyword matches, if it was one
+  rerankScore?: number; // Reranker's relevance, 0-1 (see rerankChunks)
+  embedding?: number[]; // Set when MMR is on, so later stages can diversify again
 }
 
 /**
@@ -30,15 +57,130 @@ export interface RetrievedChunk {
 export interface ChunkSource {
   county: string;
   documentTitle: string;
-  section: string | null;
+  section: string | null; // Breadcrumb, e.g. "Step C > Application Steps"
+  headingPath: string[];
+  pages: string | null; // e.g. "p. 4" or "pp. 4-5"
 }
 
 /**
- * Retrieve relevant document chunks using semantic search
+ * Get a chunk's heading breadcrumb
+ * Chunks stored before breadcrumbs were recorded fall back to section > subsection
+ */
+export function resolveHeadingPath(
+  headingPath: string[] | null,
+  sectionHeader: string | null,
+  subsectionHeader: string | null
+): string[] {
+  if (headingPath) {
+    return headingPath;
+  }
+
+  return [sectionHeader, subsectionHeader].filter((header): header is string => Boolean(header));
+}
+
+/**
+ * Format a page range for citations
+ *
+ * @returns "p. 4", "pp. 4-5", or null when the chunk has no page data
+ */
+export function formatPageRange(
+  pageStart: number | null,
+  pageEnd: number | null
+): string | null {
+  if (pageStart === null) {
+    return null;
+  }
+
+  if (pageEnd === null || pageEnd === pageStart) {
+    return `p. ${pageStart}`;
+  }
+
+  return `pp. ${pageStart}-${pageEnd}`;
+}
+
+// Chunk columns every search returns; $1 is the query embedding
+const CHUNK_COLUMNS = `
+  c.id,
+  c.document_id,
+  c.content,
+  c.county,
+  c.document_title,
+  c.section_header,
+  c.subsection_header,
+  c.heading_path,
+  c.page_start,
+  c.page_end,
+  c.token_count,
+  c.embedding <=> $1::vector AS distance`;
+
+/**
+ * Row returned by the vector and keyword searches
+ */
+interface ChunkRow {
+  id: string;
+  document_id: string;
+  content: string;
+  county: string;
+  document_title: string;
+  section_header: string | null;
+  subsection_header: string | null;
+  heading_path: string[] | null;
+  page_start: number | null;
+  page_end: number | null;
+  token_count: number | null;
+  distance: number;
+  keyword_score?: number;
+  embedding_vector?: string; // pgvector text form, when MMR is on
+}
+
+function toRetrievedChunk(row: ChunkRow): RetrievedChunk {
+  return {
+    id: row.id,
+    documentId: row.document_id,
+    content: row.content,
+    county: row.county,
+    documentTitle: row.document_title,
+    sectionHeader: row.section_header,
+    subsectionHeader: row.subsection_header,
+    headingPath: resolveHeadingPath(row.heading_path, row.section_header, row.subsection_header),
+    pageStart: row.page_start,
+    pageEnd: row.page_end,
+    tokenCount: row.token_count,
+    distance: row.distance,
+    // pgvector's text form, "[1,2,3]", is valid JSON
+    embedding: row.embedding_vector ? JSON.parse(row.embedding_vector) : undefined,
+  };
+}
+
+/**
+ * Split a web-search style query into its wanted and -excluded terms, each
+ * list joined with "or" for websearch_to_tsquery; quoted phrases stay whole
+ */
+function splitKeywordQuery(query: string): { wanted: string; excluded: string } {
+  const wanted: string[] = [];
+  const excluded: string[] = [];
+  for (const [, minus, term] of query.matchAll(/(-?)("[^"]*"?|[^\s"]+)/g)) {
+    if (term.toLowerCase() === 'or') continue; // Terms are ORed anyway
+    (minus ? excluded : wanted).push(term);
+  }
+  return { wanted: wanted.join(' or '), excluded: excluded.join(' or ') };
+}
+
+/**
+ * Retrieve relevant document chunks
+ * In hybrid mode (the default) a vector search and a full-text keyword
+ * search each contribute candidates, and their rankings are fused (see
+ * fuseRankings), so questions that hinge on exact tokens - bill numbers,
+ * dollar amounts, addresses - find chunks that embeddings alone rank too low.
+ * The distance threshold applies to vector matches only; keyword matches are
+ * kept whatever their distance.
+ * Unless mmrLambda is 1, the final topK are picked from the candidates by
+ * Maximal Marginal Relevance (see selectDiverseChunks), so overlapping
+ * neighbours from one section don't crowd out other documents and counties.
  *
  * @param query - User's search query
  * @param options - Optional retrieval parameters
- * @returns Array of relevant chunks with metadata and similarity scores
+ * @returns Array of relevant chunks with metadata and similarity scores, best first
  */
 export async function retrieveRelevantChunks(
   query: string,
@@ -48,119 +190,232 @@ export async function retrieveRelevantChunks(
     topK = RAG_CONFIG.DEFAULT_TOP_K,
     county,
     minDistance = RAG_CONFIG.MAX_DISTANCE_THRESHOLD,
+    asOf,
+    includeSuperseded = false,
+    efSearch,
+    probes,
+    searchMode = RAG_CONFIG.DEFAULT_SEARCH_MODE,
+    fusion = RAG_CONFIG.DEFAULT_FUSION,
+    keywordWeight = RAG_CONFIG.KEYWORD_WEIGHT,
+    mmrLambda = RAG_CONFIG.MMR_LAMBDA,
+    maxPerDocument,
+    maxPerCounty,
   } = options;
 
+  // MMR and caps choose topK from a wider pool; only MMR compares embeddings
+  const capped = maxPerDocument !== undefined || maxPerCounty !== undefined;
+  const diversify = mmrLambda < 1 || capped;
+  const embeddingColumn = mmrLambda < 1 ? ',\n  c.embedding::text AS embedding_vector' : '';
+
+  // Each retriever supplies more candidates than needed, so fusion has overlap to work with
+  const candidates = Math.max(options.candidates ?? RAG_CONFIG.HYBRID_CANDIDATES, topK);
+
   // Validate input
   if (!query || query.trim().length === 0) {
     throw new Error('Query cannot be empty');
   }
 
+  if (keywordWeight < 0 || keywordWeight > 1) {
+    throw new Error('keywordWeight must be between 0 and 1');
+  }
+
+  if (mmrLambda < 0 || mmrLambda > 1) {
+    throw new Error('mmrLambda must be between 0 and 1');
+  }
+
   try {
     console.log(`Query: "${query}"`);
-    console.log(`Retrieval options: topK=${topK}, county=${county || 'all'}, minDistance=${minDistance}`);
+    console.log(
+      `Retrieval options: topK=${topK}, county=${county || 'all'}, minDistance=${minDistance}, versions=${
+        asOf ? `as of ${asOf.toISOString()}` : includeSuperseded ? 'all' : 'current'
+      }, search=${searchMode}${searchMode === 'hybrid' ? ` (${fusion}, keywordWeight=${keywordWeight})` : ''}`
+    );
 
-    // Generate embedding for the query
-    const queryEmbedding = await generateEmbedding(query);
+    // Generate embedding for the query (keyword matches report their distance
+    // too), then start the search's transaction, which holds the active model
+    // steady until the queries have run
+    const { client, provider, embedded: queryEmbedding } =
+      await beginEmbeddedTransaction<number[]>('ACCESS SHARE', (provider) =>
+        generateEmbedding(query, provider)
+      );
 
-    // Build PostgreSQL query with optional county filter
-    const pool = getClient();
-    const client = await pool.connect();
+    // Build PostgreSQL query with optional county and version filters
 
-    let sqlQuery: string;
-    let queryParams: (string | number)[];
+    // Vectors from another model are not comparable with the query's
+    const queryParams: (string | number | Date)[] = [
+      JSON.stringify(queryEmbedding),
+      provider.model,
+    ];
+    // Chunks of failed or still-processing documents are never answered from
+    const conditions: string[] = ['c.embedding_model = $2', "d.status = 'ready'"];
 
     if (county) {
-      // Query with county filter
-      sqlQuery = `
-        SELECT
-          id,
-          content,
-          county,
-          document_title,
-          section_header,
-          subsection_header,
-          embedding <=> $1::vector AS distance
-        FROM document_chunks
-        WHERE county = $2
-        ORDER BY embedding <=> $1::vector
-        LIMIT $3
-      `;
-      queryParams = [JSON.stringify(queryEmbedding), county, topK];
-    } else {
-      // Query without county filter
-      sqlQuery = `
-        SELECT
-          id,
-          content,
-          county,
-          document_title,
-          section_header,
-          subsection_header,
-          embedding <=> $1::vector AS distance
-        FROM document_chunks
-        ORDER BY embedding <=> $1::vector
-        LIMIT $2
-      `;
-      queryParams = [JSON.stringify(queryEmbedding), topK];
+      queryParams.push(county);
+      conditions.push(`c.county = $${queryParams.length}`);
     }
 
-    // Execute the query
-    // For small datasets, disable index scan to force sequential scan
-    // This fixes IVFFlat index issues when lists=100 but only have ~8 rows
-    let result;
+    if (asOf) {
+      // A version is in effect from its effective date (or upload) until superseded
+      queryParams.push(asOf);
+      conditions.push(
+        `COALESCE(d.effective_date::timestamp, d.created_at) <= $${queryParams.length}`,
+        `(d.superseded_at IS NULL OR d.superseded_at > $${queryParams.length})`
+      );
+    } else if (!includeSuperseded) {
+      // A version superseded by one with a future effective date stays current
+      // until that date, and its successor only takes over then
+      conditions.push(
+        '(d.superseded_at IS NULL OR d.superseded_at > NOW())',
+        `NOT EXISTS (
+          SELECT 1 FROM documents previous
+          WHERE previous.superseded_by = d.id AND previous.superseded_at > NOW()
+        )`
+      );
+    }
+
+    queryParams.push(searchMode === 'vector' && !diversify ? topK : candidates);
+    const limitParam = `$${queryParams.length}`;
+
+    const vectorQuery = `
+      SELECT ${CHUNK_COLUMNS}${embeddingColumn}
+      FROM document_chunks c
+      JOIN documents d ON d.id = c.document_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY c.embedding <=> $1::vector
+      LIMIT ${limitParam}
+    `;
+
+    // websearch_to_tsquery handles quoted phrases and -exclusions but ANDs
+    // every term; questions rarely repeat all their words verbatim, so the
+    // wanted terms are ORed and ts_rank_cd rewards chunks matching more of
+    // them, while any excluded term still rules a chunk out
+    const { wanted, excluded } = splitKeywordQuery(query);
+    queryParams.push(wanted, excluded);
+    const keywordQuery = `
+      SELECT ${CHUNK_COLUMNS}${embeddingColumn},
+        ts_rank_cd(c.search_vector, q.query, 32) AS keyword_score
+      FROM document_chunks c
+      JOIN documents d ON d.id = c.document_id
+      CROSS JOIN (
+        SELECT CASE
+          WHEN numnode(wanted) = 0 OR numnode(excluded) = 0 THEN wanted
+          ELSE wanted && (!!excluded)
+        END AS query
+        FROM websearch_to_tsquery('english', $${queryParams.length - 1}) wanted,
+          websearch_to_tsquery('english', $${queryParams.length}) excluded
+      ) q
+      WHERE c.search_vector @@ q.query AND ${conditions.join(' AND ')}
+      ORDER BY keyword_score DESC, distance
+      LIMIT ${limitParam}
+    `;
+
+    // Execute the queries, with the index tuning scoped to their transaction
+    let vectorRows: ChunkRow[] = [];
+    let keywordRows: ChunkRow[] = [];
     try {
-      await client.query('SET LOCAL enable_indexscan = off');
-      result = await client.query(sqlQuery, queryParams);
+      await applyVectorSearchSettings(client, { efSearch, probes }, candidates, Boolean(county));
+      if (searchMode !== 'keyword') {
+        vectorRows = (await client.query(vectorQuery, queryParams.slice(0, -1))).rows;
+        // Iterative IVFFlat scans return rows in roughly, not strictly, distance order
+        vectorRows.sort((a, b) => a.distance - b.distance);
+      }
+      if (searchMode !== 'vector') {
+        keywordRows = (await client.query(keywordQuery, queryParams)).rows;
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     } finally {
       client.release();
     }
 
-    // Handle no results
-    if (!result.rows || result.rows.length === 0) {
-      console.log('No relevant chunks found');
-      return [];
+    // Filter vector matches by distance threshold
+    const vectorMatches = vectorRows.filter((row) => row.distance <= minDistance);
+
+    if (searchMode === 'hybrid') {
+      console.log(
+        `Candidates: ${vectorMatches.length} vector (of ${vectorRows.length}), ${keywordRows.length} keyword`
+      );
     }
 
-    // Filter by distance threshold
-    const filteredChunks: RetrievedChunk[] = result.rows
-      .filter((row: {distance: number}) => row.distance <= minDistance)
-      .map((row: {
-        id: string;
-        content: string;
-        county: string;
-        document_title: string;
-        section_header: string | null;
-        subsection_header: string | null;
-        distance: number;
-      }) => ({
-        id: row.id,
-        content: row.content,
-        county: row.county,
-        documentTitle: row.document_title,
-        sectionHeader: row.section_header,
-        subsectionHeader: row.subsection_header,
-        distance: row.distance,
+    // Candidates best first, before MMR narrows them to topK
+    let candidateChunks: RetrievedChunk[];
+    if (searchMode === 'hybrid') {
+      const rowsById = new Map<string, ChunkRow>();
+      [...vectorMatches, ...keywordRows].forEach((row) => rowsById.set(row.id, row));
+
+      const fused = fuseRankings(
+        [
+          {
+            ids: vectorMatches.map((row) => row.id),
+            scores: vectorMatches.map((row) => -row.distance),
+            weight: 1 - keywordWeight,
+          },
+          {
+            ids: keywordRows.map((row) => row.id),
+            scores: keywordRows.map((row) => Number(row.keyword_score)),
+            weight: keywordWeight,
+          },
+        ],
+        fusion,
+        { rrfK: options.rrfK }
+      );
+
+      const vectorRanks = new Map(vectorMatches.map((row, index) => [row.id, index + 1]));
+      const keywordRanks = new Map(keywordRows.map((row, index) => [row.id, index + 1]));
+
+      candidateChunks = fused.slice(0, diversify ? candidates : topK).map(({ id, score }) => ({
+        ...toRetrievedChunk(rowsById.get(id)!),
+        score,
+        vectorRank: vectorRanks.get(id),
+        keywordRank: keywordRanks.get(id),
       }));
+    } else {
+      const rows = searchMode === 'vector' ? vectorMatches : keywordRows;
+      candidateChunks = rows.slice(0, diversify ? candidates : topK).map(toRetrievedChunk);
+    }
+
+    // A pool no larger than topK would only be reordered, unless a cap drops some
+    const chunks =
+      diversify && (candidateChunks.length > topK || capped)
+        ? selectDiverseChunks(candidateChunks, {
+            topK,
+            lambda: mmrLambda,
+            maxPerDocument,
+            maxPerCounty,
+          })
+        : candidateChunks.slice(0, topK);
 
     // Log results
-    if (filteredChunks.length === 0) {
-      console.log(`Retrieved ${result.rows.length} chunks but all were above distance threshold (${minDistance})`);
+    if (chunks.length === 0) {
+      if (vectorRows.length > 0) {
+        console.log(`Retrieved ${vectorRows.length} chunks but all were above distance threshold (${minDistance})`);
+      } else {
+        console.log('No relevant chunks found');
+      }
       return [];
     }
 
-    const distances = filteredChunks.map((c: RetrievedChunk) => c.distance.toFixed(3));
-    console.log(`Retrieved ${filteredChunks.length} chunks (distances: ${distances.join(', ')})`);
+    const distances = chunks.map((c: RetrievedChunk) => c.distance.toFixed(3));
+    console.log(`Retrieved ${chunks.length} chunks (distances: ${distances.join(', ')})`);
 
-    return filteredChunks;
+    return chunks;
 
   } catch (error) {
     console.error('Error retrieving relevant chunks:', error);
 
     // Provide helpful error messages
     if (error instanceof Error) {
-      if (error.message.includes('relation "document_chunks" does not exist')) {
+      if (
+        error.message.includes('relation "document_chunks" does not exist') ||
+        error.message.includes('relation "documents" does not exist')
+      ) {
         throw new Error('Database not initialized. Please upload documents first.');
       }
+      if (error.message.includes('column c.search_vector does not exist')) {
+        throw new Error('Database schema is out of date. Apply pending migrations (POST /api/init-db).');
+      }
       throw new Error(`Failed to search documents: ${error.message}`);
     }
 
@@ -168,38 +423,88 @@ export async function retrieveRelevantChunks(
   }
 }
 
+const CONTEXT_HEADING = 'Context from Colorado Tax Lien Documents:';
+
+/**
+ * Build the source line shown above a chunk in the LLM context
+ */
+function formatSourceHeader(chunk: RetrievedChunk): string {
+  // Build section path
+  const sectionPath = chunk.headingPath.join(' > ');
+
+  const pages = formatPageRange(chunk.pageStart, chunk.pageEnd);
+
+  return `[${chunk.county} County - ${chunk.documentTitle}${
+    sectionPath ? ' - ' + sectionPath : ''
+  }${pages ? ' - ' + pages : ''}]`;
+}
+
+/**
+ * Select the chunks that fit in the LLM context token budget
+ * Chunks are taken in order (most relevant first); one that does not fit is
+ * skipped so smaller, less relevant chunks can still be used. If even the
+ * first chunk is too large it is truncated, so the context is never empty.
+ *
+ * @param chunks - Retrieved chunks, most relevant first
+ * @param maxTokens - Token budget for the whole context (default RAG_CONFIG.MAX_CONTEXT_TOKENS)
+ * @returns The chunks to include, in their original order
+ */
+export function fitChunksToTokenBudget(
+  chunks: RetrievedChunk[],
+  maxTokens: number = RAG_CONFIG.MAX_CONTEXT_TOKENS
+): RetrievedChunk[] {
+  const selected: RetrievedChunk[] = [];
+  let remaining = maxTokens - countTokens(CONTEXT_HEADING);
+
+  for (const chunk of chunks) {
+    const headerTokens = countTokens(formatSourceHeader(chunk)) + 2; // Plus separating newlines
+    const contentTokens = chunk.tokenCount ?? countTokens(chunk.content);
+
+    if (headerTokens + contentTokens <= remaining) {
+      selected.push(chunk);
+      remaining -= headerTokens + contentTokens;
+    } else if (selected.length === 0 && remaining - headerTokens > 0) {
+      const kept = encodeTokens(chunk.content).slice(0, remaining - headerTokens);
+      selected.push({ ...chunk, content: decodeTokens(kept), tokenCount: kept.length });
+      remaining = 0;
+    }
+  }
+
+  if (selected.length < chunks.length) {
+    console.log(
+      `Context budget (${maxTokens} tokens) fits ${selected.length} of ${chunks.length} chunks`
+    );
+  }
+
+  return selected;
+}
+
 /**
  * Format retrieved chunks into a context string for the LLM
+ * Chunks beyond the token budget are left out (see fitChunksToTokenBudget)
  *
  * @param chunks - Array of retrieved chunks
+ * @param maxTokens - Token budget for the whole context (default RAG_CONFIG.MAX_CONTEXT_TOKENS)
  * @returns Formatted context string with source attribution
  */
-export function formatContextForLLM(chunks: RetrievedChunk[]): string {
+export function formatContextForLLM(
+  chunks: RetrievedChunk[],
+  maxTokens: number = RAG_CONFIG.MAX_CONTEXT_TOKENS
+): string {
   if (!chunks || chunks.length === 0) {
     return '';
   }
 
-  const contextParts: string[] = ['Context from Colorado Tax Lien Documents:', ''];
-
-  chunks.forEach((chunk: RetrievedChunk, index: number) => {
-    // Build section path
-    const sectionPath = [
-      chunk.sectionHeader,
-      chunk.subsectionHeader,
-    ]
-      .filter(Boolean)
-      .join(' - ');
+  const contextChunks = fitChunksToTokenBudget(chunks, maxTokens);
+  const contextParts: string[] = [CONTEXT_HEADING, ''];
 
+  contextChunks.forEach((chunk: RetrievedChunk, index: number) => {
     // Add source header
-    const sourceHeader = `[${chunk.county} County - ${chunk.documentTitle}${
-      sectionPath ? ' - ' + sectionPath : ''
-    }]`;
-
-    contextParts.push(sourceHeader);
+    contextParts.push(formatSourceHeader(chunk));
     contextParts.push(chunk.content);
 
     // Add spacing between chunks (except for the last one)
-    if (index < chunks.length - 1) {
+    if (index < contextChunks.length - 1) {
       contextParts.push('');
     }
   });
@@ -219,17 +524,36 @@ export function extractSources(chunks: RetrievedChunk[]): ChunkSource[] {
   }
 
   const sourcesMap = new Map<string, ChunkSource>();
+  const pageRanges = new Map<string, { start: number; end: number }>();
 
   chunks.forEach((chunk: RetrievedChunk) => {
-    const key = `${chunk.county}|${chunk.documentTitle}|${chunk.sectionHeader || ''}`;
+    // Cite the full breadcrumb, so chunks from different subsections are listed separately
+    const section = chunk.headingPath.length > 0 ? chunk.headingPath.join(' > ') : null;
+    const key = `${chunk.county}|${chunk.documentTitle}|${section || ''}`;
 
     if (!sourcesMap.has(key)) {
       sourcesMap.set(key, {
         county: chunk.county,
         documentTitle: chunk.documentTitle,
-        section: chunk.sectionHeader,
+        section,
+        headingPath: chunk.headingPath,
+        pages: null,
       });
     }
+
+    // Widen the page range when several chunks cite the same section
+    if (chunk.pageStart !== null) {
+      const end = chunk.pageEnd ?? chunk.pageStart;
+      const range = pageRanges.get(key);
+      pageRanges.set(key, {
+        start: range ? Math.min(range.start, chunk.pageStart) : chunk.pageStart,
+        end: range ? Math.max(range.end, end) : end,
+      });
+    }
+  });
+
+  pageRanges.forEach((range, key) => {
+    sourcesMap.get(key)!.pages = formatPageRange(range.start, range.end);
   });
 
   return Array.from(sourcesMap.values());
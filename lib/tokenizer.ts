@@ -0,0 +1,38 @@
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+
+// cl100k_base is the encoding used by the text-embedding-3 models
+let encoder: Tiktoken | null = null;
+
+/**
+ * Get the shared tokenizer, loading the encoding on first use
+ */
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    encoder = new Tiktoken(cl100k_base);
+  }
+  return encoder;
+}
+
+/**
+ * Encode text into model tokens
+ * Special-token strings such as <|endoftext|> are encoded as plain text
+ * rather than rejected, since uploaded documents may contain anything
+ */
+export function encodeTokens(text: string): number[] {
+  return getEncoder().encode(text, [], []);
+}
+
+/**
+ * Decode model tokens back into text
+ */
+export function decodeTokens(tokens: number[]): string {
+  return getEncoder().decode(tokens);
+}
+
+/**
+ * Count the model tokens in a piece of text
+ */
+export function countTokens(text: string): number {
+  return text.length === 0 ? 0 : encodeTokens(text).length;
+}
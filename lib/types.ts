@@ -35,17 +35,199 @@ export interface DocumentMetadata {
   county: ColoradoCounty;
   title: string;
   year: number;
+  effectiveDate?: string; // ISO date (YYYY-MM-DD)
+  sourceUrl?: string;
+  statuteReferences?: string[]; // e.g. "C.R.S. 39-12-103"
+  tags?: string[];
 }
 
+// Document processing status
+export type DocumentStatus = "processing" | "ready" | "failed";
+
+// Chunking strategies selectable per upload
+export const CHUNKING_STRATEGIES = [
+  "section-aware",
+  "fixed-token",
+  "whole-section",
+  "sliding-sentence",
+] as const;
+
+export type ChunkingStrategyName = typeof CHUNKING_STRATEGIES[number];
+
+// Retrievers a search uses: embeddings, full-text, or both fused
+export const SEARCH_MODES = ["vector", "keyword", "hybrid"] as const;
+
+export type SearchMode = typeof SEARCH_MODES[number];
+
+// How hybrid search merges the keyword and vector rankings
+export const FUSION_METHODS = ["rrf", "weighted"] as const;
+
+export type FusionMethod = typeof FUSION_METHODS[number];
+
+// How retrieved candidates are reordered before the top ones reach the LLM
+export const RERANKERS = ["llm", "lexical", "none"] as const;
+
+export type RerankerName = typeof RERANKERS[number];
+
+// Chunking options; each strategy reads only the options it lists
+export interface ChunkingOptions {
+  chunkSize?: number; // Target (or, for whole-section, maximum) chunk size
+  overlap?: number; // Overlap between consecutive chunks
+  windowSize?: number; // Sentences per window
+  stride?: number; // Sentences to advance between windows
+}
+
+// Labels and accepted options for the upload form
+export const CHUNKING_STRATEGY_INFO: Record<
+  ChunkingStrategyName,
+  { label: string; description: string; options: Array<keyof ChunkingOptions> }
+> = {
+  "section-aware": {
+    label: "Section-aware",
+    description: "Split on heading sections, then paragraphs and sentences, with overlap (sizes in tokens)",
+    options: ["chunkSize", "overlap"],
+  },
+  "fixed-token": {
+    label: "Fixed token windows",
+    description: "Fixed-size token windows across the whole document, ignoring structure",
+    options: ["chunkSize", "overlap"],
+  },
+  "whole-section": {
+    label: "Whole section",
+    description: "One chunk per section; only sections above the token limit are split",
+    options: ["chunkSize"],
+  },
+  "sliding-sentence": {
+    label: "Sliding sentence windows",
+    description: "Overlapping windows of consecutive sentences within each section",
+    options: ["windowSize", "stride"],
+  },
+};
+
 // Uploaded document structure
 export interface UploadedDocument extends DocumentMetadata {
   id: string;
   fileName: string;
-  fileSize: number;
+  fileSize: number; // Original file size in bytes
+  contentHash?: string; // sha256 of the original file bytes
+  format?: string; // markdown, pdf, docx or html
+  uploadedBy?: string;
+  pageCount?: number;
+  hasOriginal?: boolean; // Original file available from /api/documents/[id]/raw
+  versionGroupId?: string; // Shared by all versions of the same document
+  version?: number;
+  supersededBy?: string; // ID of the newer version, when superseded
+  supersededAt?: Date;
+  chunkingStrategy?: ChunkingStrategyName;
+  chunkingOptions?: ChunkingOptions; // Effective options, defaults included
+  status?: DocumentStatus;
+  errorMessage?: string;
   uploadedAt: Date;
   chunksProcessed?: number;
 }
 
+// Chunk as shown when inspecting a document
+export interface ChunkDetail {
+  id: string;
+  chunkIndex: number;
+  content: string;
+  sectionHeader: string | null;
+  subsectionHeader: string | null;
+  headingPath: string[]; // Falls back to section > subsection for older chunks
+  pageStart: number | null;
+  pageEnd: number | null;
+  pages: string | null; // e.g. "p. 4" or "pp. 4-5"
+  charCount: number;
+  tokenCount: number;
+  embeddingText: string | null; // Set when something other than content was embedded
+  embeddingProvider: string | null; // e.g. openai, openai-compatible or local
+  embeddingModel: string | null;
+  hasEmbedding: boolean;
+  overlapLength: number; // Leading characters repeated from the previous chunk
+  contextPrefix: string | null; // [Context: ...] line following the overlap
+}
+
+// Section tree node built from chunk headers
+export interface SectionSummary {
+  title: string;
+  chunkCount: number;
+  charCount: number;
+  subsections: SectionSummary[];
+}
+
+// Document with its chunks, for the detail API and page
+export interface DocumentDetail {
+  document: UploadedDocument;
+  chunks: ChunkDetail[];
+  sections: SectionSummary[];
+  stats: {
+    chunkCount: number;
+    embeddedCount: number;
+    totalChars: number;
+    minChars: number;
+    maxChars: number;
+    averageChars: number;
+    totalTokens: number;
+    minTokens: number;
+    maxTokens: number;
+    averageTokens: number;
+  };
+}
+
+// Chunk as it would be stored, for upload previews
+export interface ChunkPreview {
+  chunkIndex: number;
+  content: string;
+  headingPath: string[];
+  pages: string | null;
+  charCount: number;
+  tokenCount: number;
+  embeddingText: string | null;
+}
+
+// Number of chunks in a token size range [minTokens, maxTokens]
+export interface SizeHistogramBucket {
+  minTokens: number;
+  maxTokens: number;
+  count: number;
+}
+
+// Something the uploader should look at before approving a preview
+export interface PreviewWarning {
+  type: "large-section" | "merged-fragment" | "empty-section" | "low-coverage";
+  headingPath: string[];
+  message: string;
+}
+
+// Share of a document's text that ended up in at least one chunk
+export interface CoverageReport {
+  sourceChars: number; // Non-whitespace characters, excluding headings and page markers
+  coveredChars: number;
+  percent: number; // Rounded down to one decimal place
+  uncovered: string[]; // Longest passages found in no chunk, longest first
+}
+
+// Dry-run chunking of an upload: nothing embedded or stored
+export interface DocumentPreview {
+  fileName: string;
+  format: string; // markdown, pdf, docx or html
+  pageCount?: number;
+  chunkingStrategy: ChunkingStrategyName;
+  chunkingOptions: ChunkingOptions;
+  chunks: ChunkPreview[];
+  sections: SectionSummary[];
+  histogram: SizeHistogramBucket[];
+  warnings: PreviewWarning[];
+  coverage: CoverageReport;
+  stats: {
+    chunkCount: number;
+    totalTokens: number;
+    minTokens: number;
+    maxTokens: number;
+    averageTokens: number;
+  };
+}
+
 // File upload result
 export interface FileUploadResult {
   success: boolean;
@@ -58,19 +240,25 @@ export interface DocumentChunk {
   id: string; // generated unique ID
   documentId: string; // document identifier
   content: string;
+  embeddingContent?: string; // Text to embed in place of content (tables rendered row by row)
   metadata: DocumentMetadata & {
     documentTitle: string;
     chunkIndex: number;
     totalChunks: number;
     sectionHeader?: string;
     subsectionHeader?: string;
+    headingPath?: string[]; // Breadcrumb of H2–H6 headings, outermost first
+    pageStart?: number; // First source page (paginated formats only)
+    pageEnd?: number; // Last source page (paginated formats only)
+    tokenCount: number; // Model tokens in content
   };
 }
 
 // Markdown section structure
 export interface MarkdownSection {
-  level: number; // 1, 2, or 3 for H1, H2, H3
+  level: number; // 1–6 for H1–H6, 0 for text before the first heading
   title: string;
+  headingPath: string[]; // Enclosing H2–H6 titles, ending with this one (empty for H1 and preamble)
   content: string;
   startPosition: number;
   endPosition: number;
@@ -0,0 +1,70 @@
+/**
+ * Schema migration CLI
+ *
+ * Applies and reports the migrations in lib/db/migrations
+ *
+ * Usage:
+ *   npx ts-node migrate-db.ts status   List applied and pending migrations (default)
+ *   npx ts-node migrate-db.ts up       Apply pending migrations
+ *   npx ts-node migrate-db.ts schema   Regenerate lib/db/schema.sql (no database needed)
+ */
+
+import { writeFileSync } from 'fs';
+import { generateSchemaSql, getMigrationStatus, runMigrations } from './lib/db/migrator';
+
+const SCHEMA_FILE = 'lib/db/schema.sql';
+
+async function main() {
+  const command = process.argv[2] || 'status';
+
+  if (command === 'schema') {
+    writeFileSync(SCHEMA_FILE, generateSchemaSql());
+    console.log(`Wrote ${SCHEMA_FILE}`);
+    return;
+  }
+
+  if (command !== 'status' && command !== 'up') {
+    console.error(`Unknown command "${command}" (expected status, up or schema)`);
+    process.exitCode = 1;
+    return;
+  }
+
+  // Loaded here so the schema command works without DATABASE_URL
+  const { getClient } = await import('./lib/db/postgres-client');
+  const pool = getClient();
+
+  try {
+    if (command === 'up') {
+      const applied = await runMigrations(pool);
+      if (applied.length === 0) {
+        console.log('No pending migrations');
+      }
+      applied.forEach((migration) =>
+        console.log(`✓ Applied ${migration.version} ${migration.name}`)
+      );
+    }
+
+    const status = await getMigrationStatus(pool);
+
+    console.log('\nApplied:');
+    if (status.applied.length === 0) console.log('  (none)');
+    status.applied.forEach((migration) =>
+      console.log(
+        `  ${migration.version} ${migration.name} (${migration.appliedAt.toISOString()})${
+          migration.modified ? ' ⚠ edited since it was applied' : ''
+        }`
+      )
+    );
+
+    console.log('\nPending:');
+    if (status.pending.length === 0) console.log('  (none)');
+    status.pending.forEach((migration) => console.log(`  ${migration.version} ${migration.name}`));
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error('\n✗ Migration failed:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});